@@ -1,30 +1,135 @@
-import React, { useState, useEffect, useRef } from 'react';
+import React, { useState, useEffect, useRef, useMemo } from 'react';
 import { GeminiLiveService } from './services/geminiService';
 import { AudioVisualizer } from './components/AudioVisualizer';
 import { Map } from './components/Map';
-import { EmergencyReport, GeoLocation } from './types';
+import { IncidentCard } from './components/IncidentCard';
+import { IncidentGroupCard } from './components/IncidentGroupCard';
+import { ExchangeControls } from './components/ExchangeControls';
+import { LiveCaptions } from './components/TranscriptView';
+import { RecordingConsentNotice, RecordingSettingsMenu } from './components/RecordingControls';
+import { ReportDetailDrawer } from './components/ReportDetailDrawer';
+import { CameraPreview, CameraToggle } from './components/CameraPreview';
+import { MicSettingsMenu, PushToTalkButton } from './components/MicControls';
+import { CallChecklistPanel, ProtocolMenu } from './components/ProtocolControls';
+import { AnalyticsDashboard } from './components/AnalyticsDashboard';
+import { reportRepository } from './services/reportRepository';
+import { loadRecordingSettings, recordingStore, RecordingSettings, saveRecordingSettings } from './services/recordingStore';
+import { loadMicSettings, MicSettings, saveMicSettings } from './services/micSettings';
+import { VoiceActivity } from './services/voiceActivity';
+import { CallRecording } from './services/callRecorder';
+import { attachmentStore, createAttachment } from './services/attachmentStore';
+import { CAMERA_ACTOR, SceneFrame } from './services/cameraCapture';
+import { callLogRepository, CallSession } from './services/callLog';
+import { CallChecklist, checklistReportFields, loadProtocols, ProtocolSet, saveProtocols } from './services/callProtocols';
+import { createSyncClient, SyncStatus } from './services/syncClient';
+import { mergeReports, stampChanges } from './services/syncProtocol';
+import { ReportArgs, ReportEdits, ReportUpdateArgs } from './services/reportValidation';
+import { ImportResult } from './services/reportExchange';
+import { assignUnit, canAssignUnit, recommendUnit, releaseUnit, isUntouchedSeed, seedUnits, unitRepository } from './services/responderUnits';
+import { DEFAULT_CENTER, formatDistance } from './services/geoUtils';
+import { createGeocoder } from './services/geocoding';
+import { resolveReportLocation } from './services/locationResolver';
+import { creationEntry, editReport, isActiveStatus, matchesCallerCheck, SYSTEM_ACTOR, ticketSummary, transitionReport } from './services/reportWorkflow';
+import { ConnectionSnapshot, isInCall, RECONNECT_POLICY } from './services/connectionState';
+import { compareByPriority, loadTriageRules, withTriage } from './services/triage';
+import { isSupportedLanguage, LANGUAGE_INFO, LANGUAGES, LanguageSetting, resolveUiLanguage, translate, UiStringKey, connectionLabel } from './services/i18n';
+import { buildIncidents, confirmIncident, mergeIncidents, splitReport } from './services/incidentClustering';
+import { hazardZoneRepository, withHazardZones, zonesContaining } from './services/hazardZones';
+import { EmergencyReport, GeoLocation, HazardZone, Incident, ReportStatus, ResponderUnit, TranscriptEntry, UnitAvailability } from './types';
 import { 
   PhoneIcon, 
   ShieldCheckIcon, 
   ExclamationTriangleIcon,
   XMarkIcon,
   MapPinIcon,
-  CheckCircleIcon
+  CheckCircleIcon,
+  LanguageIcon,
+  ArrowPathIcon,
+  ChartBarIcon
 } from '@heroicons/react/24/solid';
 
 const App: React.FC = () => {
   // State
-  const [isConnected, setIsConnected] = useState(false);
-  const [status, setStatus] = useState<string>('Ready');
+  const [connection, setConnection] = useState<ConnectionSnapshot>({ state: 'idle', attempt: 0, maxAttempts: RECONNECT_POLICY.maxAttempts });
   const [audioLevel, setAudioLevel] = useState(0);
+  const [voiceActivity, setVoiceActivity] = useState<VoiceActivity>('silence');
+  const [micSettings, setMicSettings] = useState<MicSettings>(loadMicSettings);
+  const [talking, setTalking] = useState(false); // Push-to-talk held
   const [userLocation, setUserLocation] = useState<GeoLocation | null>(null);
   const [reports, setReports] = useState<EmergencyReport[]>([]);
+  const [units, setUnits] = useState<ResponderUnit[]>([]);
   const [showReports, setShowReports] = useState(true);
   const [toastMessage, setToastMessage] = useState<string | null>(null);
+  const [pendingSync, setPendingSync] = useState(0);
+  const [transcript, setTranscript] = useState<TranscriptEntry[]>([]);
+  const [sortMode, setSortMode] = useState<'newest' | 'priority'>('priority');
+  const [viewMode, setViewMode] = useState<'calls' | 'incidents'>('calls');
+  const [selectedIncidentIds, setSelectedIncidentIds] = useState<string[]>([]);
+  const [operatorName, setOperatorName] = useState<string>(() => localStorage.getItem('operatorName') || 'Dispatcher');
+  // A code from an older build or a hand-edited value falls back to auto-detect
+  const [languageSetting, setLanguageSetting] = useState<LanguageSetting>(() => {
+    const stored = localStorage.getItem('language') ?? undefined;
+    return isSupportedLanguage(stored) ? stored : 'auto';
+  });
+  const [recordingSettings, setRecordingSettings] = useState<RecordingSettings>(loadRecordingSettings);
+  const [showRecordingNotice, setShowRecordingNotice] = useState(false);
+  const [recordingCall, setRecordingCall] = useState(false);
+  const [syncStatus, setSyncStatus] = useState<SyncStatus | null>(null);
+  const [hazardZones, setHazardZones] = useState<HazardZone[]>([]);
+  const [cameraStream, setCameraStream] = useState<MediaStream | null>(null);
+  const [cameraBusy, setCameraBusy] = useState(false);
+  const [selectedFrames, setSelectedFrames] = useState(0);
+  const [protocols, setProtocols] = useState<ProtocolSet>(loadProtocols);
+  const [checklist, setChecklist] = useState<CallChecklist | null>(null);
+  const [calls, setCalls] = useState<CallSession[]>([]); // This device's call log, for analytics
+  const [showAnalytics, setShowAnalytics] = useState(false);
+  const [openReportId, setOpenReportId] = useState<string | null>(null); // Report shown in the detail panel
+  const [hazardWarning, setHazardWarning] = useState<HazardZone[]>([]); // Zones the device has just entered
   
   // Refs
   const geminiRef = useRef<GeminiLiveService | null>(null);
   const userLocationRef = useRef<GeoLocation | null>(null); // Ref to hold latest location for callbacks
+  const reportsRef = useRef<EmergencyReport[]>([]); // Latest reports for callbacks
+  const unitsRef = useRef<ResponderUnit[]>([]);
+  const hazardZonesRef = useRef<HazardZone[]>([]);
+  const insideZoneIdsRef = useRef<string[]>([]); // Active zones the device was in at the last check
+  const fleetPlacedRef = useRef(false); // Seeded fleet checked against the first position fix
+  const triageRules = useMemo(() => loadTriageRules(), []);
+  const geocoder = useMemo(() => createGeocoder(), []);
+  const syncClient = useMemo(() => createSyncClient(), []);
+
+  useEffect(() => {
+    reportsRef.current = reports;
+  }, [reports]);
+
+  useEffect(() => {
+    unitsRef.current = units;
+  }, [units]);
+
+  useEffect(() => {
+    localStorage.setItem('operatorName', operatorName);
+  }, [operatorName]);
+
+  const isConnected = isInCall(connection.state);
+  const uiLanguage = resolveUiLanguage(languageSetting);
+  useEffect(() => {
+    localStorage.setItem('language', languageSetting);
+    document.documentElement.lang = uiLanguage;
+  }, [languageSetting, uiLanguage]);
+
+  // Shortening retention takes effect right away, not only for new recordings
+  useEffect(() => {
+    saveRecordingSettings(recordingSettings);
+    recordingStore.purgeExpired(recordingSettings.retentionDays)
+      .catch(e => console.error('Failed to purge recordings', e));
+  }, [recordingSettings]);
+
+  useEffect(() => {
+    saveMicSettings(micSettings);
+  }, [micSettings]);
+
+  // The setting is locked during a call, so call callbacks never hold a stale language
+  const t = (key: UiStringKey, vars?: Record<string, string | number>) => translate(uiLanguage, key, vars);
 
   // Initialize Location
   useEffect(() => {
@@ -44,81 +149,508 @@ const App: React.FC = () => {
     }
   }, []);
 
+  // A fleet seeded before the first position fix sits around the default center; move it to the device
+  useEffect(() => {
+    if (fleetPlacedRef.current || !userLocation || units.length === 0) return;
+    fleetPlacedRef.current = true;
+    if (!isUntouchedSeed(units, DEFAULT_CENTER)) return;
+    const seeded = seedUnits(userLocation);
+    unitsRef.current = seeded;
+    setUnits(seeded);
+    unitRepository.save(...seeded).catch(e => console.error('Failed to persist units', e));
+  }, [userLocation, units]);
+
+  // Rehydrate persisted reports and keep the outbox flushing when back online
+  useEffect(() => {
+    reportRepository.onOutboxChange = (count) => setPendingSync(count);
+
+    reportRepository.getAll()
+      .then(stored => {
+        const ids = new Set(reportsRef.current.map(r => r.id));
+        // Keep anything created before the store finished loading
+        const next = [...reportsRef.current, ...stored.filter(r => !ids.has(r.id)).map(r => withHazardZones(withTriage(r, triageRules), hazardZonesRef.current))];
+        reportsRef.current = next;
+        setReports(next);
+      })
+      .catch(e => console.error('Failed to load stored reports', e))
+      // Remote changes are merged into local copies, so those have to be loaded first
+      .finally(() => syncClient.start());
+
+    unitRepository.getAll()
+      .then(async stored => {
+        if (stored.length > 0) return stored;
+        // First run: give dispatchers a fleet near wherever the device is, moved there once it is known
+        const seeded = seedUnits(userLocationRef.current ?? DEFAULT_CENTER);
+        await unitRepository.save(...seeded);
+        return seeded;
+      })
+      .then(setUnits)
+      .catch(e => console.error('Failed to load responder units', e));
+
+    hazardZoneRepository.getAll()
+      .then(stored => {
+        hazardZonesRef.current = stored;
+        setHazardZones(stored);
+      })
+      .catch(e => console.error('Failed to load hazard zones', e));
+
+    callLogRepository.getAll()
+      .then(stored => setCalls(current => [...stored, ...current.filter(c => !stored.some(s => s.id === c.id))]))
+      .catch(e => console.error('Failed to load call log', e));
+
+    reportRepository.pendingCount()
+      .then(setPendingSync)
+      .catch(e => console.error('Failed to read outbox', e));
+
+    syncClient.onStatusChange = setSyncStatus;
+    syncClient.onServerReset = () => {
+      reportRepository.requeueAll().catch(e => console.error('Failed to requeue reports', e));
+    };
+    syncClient.onReady = () => { void reportRepository.flushOutbox(); };
+    reportRepository.setSyncHandler(report => syncClient.push(report));
+
+    const handleOnline = () => { void reportRepository.flushOutbox(); };
+    window.addEventListener('online', handleOnline);
+    return () => {
+      window.removeEventListener('online', handleOnline);
+      reportRepository.onOutboxChange = null;
+      reportRepository.setSyncHandler(null);
+      syncClient.stop();
+    };
+  }, []);
+
+  // Re-score every minute so waiting reports climb the queue
+  useEffect(() => {
+    const interval = setInterval(() => {
+      setReports(prev => prev.map(r => withTriage(r, triageRules)));
+    }, 60000);
+    return () => clearInterval(interval);
+  }, [triageRules]);
+
+  // Zones changed: re-tag every report, like the periodic re-score
+  useEffect(() => {
+    hazardZonesRef.current = hazardZones;
+    const next = reportsRef.current.map(r => withHazardZones(r, hazardZones));
+    reportsRef.current = next;
+    setReports(next);
+  }, [hazardZones]);
+
+  // Warn once per entry into an active zone; the warning clears when the device leaves
+  useEffect(() => {
+    const inside = userLocation ? zonesContaining(hazardZones, userLocation) : [];
+    const entered = inside.filter(z => !insideZoneIdsRef.current.includes(z.id));
+    insideZoneIdsRef.current = inside.map(z => z.id);
+
+    if (entered.length > 0) setHazardWarning(entered);
+    else setHazardWarning(prev => prev.filter(z => insideZoneIdsRef.current.includes(z.id)));
+  }, [userLocation, hazardZones]);
+
   // Show toast notification
   const showToast = (msg: string) => {
     setToastMessage(msg);
     setTimeout(() => setToastMessage(null), 3000);
   };
 
-  // Initialize Gemini Service
-  const toggleConnection = async () => {
+  const upsertReport = (report: EmergencyReport) => {
+    const exists = reportsRef.current.some(r => r.id === report.id);
+    const next = exists
+      ? reportsRef.current.map(r => r.id === report.id ? report : r)
+      : [report, ...reportsRef.current];
+    reportsRef.current = next;
+    setReports(next);
+  };
+
+  // Apply a created or updated report to state and write it through to storage
+  const commitReport = (updated: EmergencyReport) => {
+    const previous = reportsRef.current.find(r => r.id === updated.id);
+    const report = withHazardZones(withTriage(stampChanges(previous, updated, syncClient.clientId), triageRules), hazardZonesRef.current);
+    upsertReport(report);
+
+    reportRepository.save(report).catch(e => {
+      console.error('Failed to persist report', e);
+      showToast(t('reportSavedInMemory'));
+    });
+  };
+
+  // A change from another dashboard, or the server's merged copy of one of ours
+  const applyRemoteReport = (remote: EmergencyReport, conflicts: string[]) => {
+    const local = reportsRef.current.find(r => r.id === remote.id);
+    const report = withHazardZones(withTriage(mergeReports(local, remote).report, triageRules), hazardZonesRef.current);
+    upsertReport(report);
+
+    reportRepository.saveSynced(report).catch(e => console.error('Failed to store synced report', e));
+    if (conflicts.length > 0) showToast(t('syncConflict', { id: report.id, fields: conflicts.join(', ') }));
+  };
+
+  // Re-bound every render so remote changes are shown in the current UI language
+  useEffect(() => {
+    syncClient.onRemoteReport = applyRemoteReport;
+  });
+
+  // Imported reports keep their IDs; ones already in the list are left untouched
+  const handleImport = (result: ImportResult) => {
+    const existing = new Set(reportsRef.current.map(r => r.id));
+    const fresh = result.reports.filter(r => !existing.has(r.id));
+    fresh.forEach(commitReport);
+
+    const skipped = result.reports.length - fresh.length;
+    showToast(t('imported', { count: fresh.length }) +
+      (skipped > 0 ? t('importSkipped', { count: skipped }) : '') +
+      (result.errors.length > 0 ? t('importFailed', { count: result.errors.length }) : ''));
+  };
+
+  // Imported zones keep their IDs, so a re-import replaces the earlier copies
+  const saveHazardZones = (...zones: HazardZone[]) => {
+    const ids = new Set(zones.map(z => z.id));
+    setHazardZones(prev => [...prev.filter(z => !ids.has(z.id)), ...zones]
+      .sort((a, b) => a.createdAt - b.createdAt));
+    hazardZoneRepository.save(...zones).catch(e => console.error('Failed to persist hazard zones', e));
+  };
+
+  const deleteHazardZone = (zoneId: string) => {
+    setHazardZones(prev => prev.filter(z => z.id !== zoneId));
+    hazardZoneRepository.delete(zoneId).catch(e => console.error('Failed to delete hazard zone', e));
+  };
+
+  const commitUnit = (unit: ResponderUnit) => {
+    const next = unitsRef.current.map(u => u.id === unit.id ? unit : u);
+    unitsRef.current = next;
+    setUnits(next);
+    unitRepository.save(unit).catch(e => console.error('Failed to persist unit', e));
+  };
+
+  const handleUnitAvailabilityChange = (unitId: string, availability: UnitAvailability) => {
+    const unit = unitsRef.current.find(u => u.id === unitId);
+    if (unit) commitUnit({ ...unit, availability });
+  };
+
+  const handleAssignUnit = (reportId: string, unitId: string) => {
+    const report = reportsRef.current.find(r => r.id === reportId);
+    const unit = unitsRef.current.find(u => u.id === unitId);
+    if (!report || !unit) return;
+
+    try {
+      const result = assignUnit(report, unit, operatorName.trim() || 'Dispatcher');
+      commitReport(result.report);
+      commitUnit(result.unit);
+      showToast(t('unitDispatched', { unit: unit.name }));
+    } catch (e) {
+      console.error(e);
+      showToast(e instanceof Error ? e.message : t('assignmentFailed'));
+    }
+  };
+
+  // Moves a report and frees its unit once closed; throws if the move is not allowed
+  const applyStatusChange = (reportId: string, to: ReportStatus, by: string, reason?: string): EmergencyReport => {
+    const current = reportsRef.current.find(r => r.id === reportId);
+    if (!current) throw new Error(`No report with ID ${reportId}`);
+
+    const updated = transitionReport(current, to, { by, reason });
+    commitReport(updated);
+
+    // A closed report frees its unit for the next call
+    if (!isActiveStatus(to) && current.assignedUnitId) {
+      const unit = unitsRef.current.find(u => u.id === current.assignedUnitId);
+      if (unit && unit.assignedReportId === current.id) commitUnit(releaseUnit(unit));
+    }
+    return updated;
+  };
+
+  const handleStatusChange = (reportId: string, to: ReportStatus, reason?: string) => {
+    try {
+      applyStatusChange(reportId, to, operatorName.trim() || 'Dispatcher', reason);
+    } catch (e) {
+      console.error(e);
+      showToast(e instanceof Error ? e.message : t('statusChangeFailed'));
+    }
+  };
+
+  const ticketFor = (report: EmergencyReport) =>
+    ticketSummary(report, unitsRef.current.find(u => u.id === report.assignedUnitId));
+
+  const handleLocationCorrected = (reportId: string, location: GeoLocation) => {
+    const current = reportsRef.current.find(r => r.id === reportId);
+    if (!current) return;
+
+    commitReport(editReport(current, { location }, operatorName.trim() || 'Dispatcher'));
+    showToast(t('locationUpdated'));
+  };
+
+  const handleSaveEdits = (reportId: string, edits: Partial<ReportEdits>) => {
+    const current = reportsRef.current.find(r => r.id === reportId);
+    if (!current) return;
+
+    const updated = editReport(current, edits, operatorName.trim() || 'Dispatcher');
+    if (updated === current) return;
+    commitReport(updated);
+    showToast(t('reportEdited', { id: reportId }));
+  };
+
+  // Files are stored one by one so a single oversized file doesn't block the rest
+  const storeAttachments = async (reportId: string, files: File[], by: string) => {
+    const added: string[] = [];
+    const failed: string[] = [];
+    for (const file of files) {
+      try {
+        const attachment = await createAttachment(file, reportId, by);
+        await attachmentStore.save(attachment);
+        added.push(attachment.id);
+      } catch (e) {
+        console.error('Failed to attach file', e);
+        failed.push(e instanceof Error ? e.message : file.name);
+      }
+    }
+    return { added, failed };
+  };
+
+  const handleAttach = async (reportId: string, files: File[]) => {
+    const { added, failed } = await storeAttachments(reportId, files, operatorName.trim() || 'Dispatcher');
+    const current = reportsRef.current.find(r => r.id === reportId);
+    if (current && added.length > 0) commitReport({ ...current, attachmentIds: [...(current.attachmentIds ?? []), ...added] });
+    showToast(failed.length > 0
+      ? t('attachmentFailed', { files: failed.join('; ') })
+      : t('attachmentsAdded', { count: added.length }));
+  };
+
+  const handleRemoveAttachment = (reportId: string, attachmentId: string) => {
+    const current = reportsRef.current.find(r => r.id === reportId);
+    if (current) commitReport({ ...current, attachmentIds: current.attachmentIds?.filter(id => id !== attachmentId) });
+    attachmentStore.delete(attachmentId).catch(e => console.error('Failed to delete attachment', e));
+  };
+
+  const activeCount = reports.filter(r => isActiveStatus(r.status)).length;
+  const sortedReports = useMemo(
+    () => sortMode === 'priority' ? [...reports].sort(compareByPriority) : reports,
+    [reports, sortMode]
+  );
+
+  const incidents = useMemo(() => buildIncidents(reports), [reports]);
+  const reportsById = useMemo(() => new globalThis.Map(reports.map(r => [r.id, r])), [reports]);
+  const openReport = openReportId ? reportsById.get(openReportId) ?? null : null;
+  const zonesOf = (report: EmergencyReport) => hazardZones.filter(z => report.hazardZoneIds?.includes(z.id));
+
+  const handleConfirmIncident = (incident: Incident) => {
+    confirmIncident(incident, reportsRef.current).forEach(commitReport);
+  };
+
+  const handleSplitReport = (incident: Incident, reportId: string) => {
+    splitReport(incident, reportId, reportsRef.current).forEach(commitReport);
+  };
+
+  const toggleIncidentSelection = (incidentId: string) => {
+    setSelectedIncidentIds(prev => prev.includes(incidentId)
+      ? prev.filter(id => id !== incidentId)
+      : [...prev, incidentId]);
+  };
+
+  const handleMergeIncidents = () => {
+    const selected = incidents.filter(i => selectedIncidentIds.includes(i.id));
+    mergeIncidents(selected, reportsRef.current).forEach(commitReport);
+    setSelectedIncidentIds([]);
+    showToast(t('mergedIncidents', { count: selected.length }));
+  };
+
+  // Links the finished recording to every ticket filed during the call
+  const handleRecordingReady = async (recording: CallRecording) => {
+    try {
+      await recordingStore.save(recording);
+      recording.reportIds.forEach(id => {
+        const report = reportsRef.current.find(r => r.id === id);
+        if (report) commitReport({ ...report, recordingId: recording.id });
+      });
+    } catch (e) {
+      console.error('Failed to store call recording', e);
+    }
+  };
+
+  const toggleConnection = () => {
     if (isConnected) {
+      // The service reports 'ended' through onStateChange
       geminiRef.current?.stop();
-      setIsConnected(false);
-      setStatus('Ready');
       return;
     }
 
+    // Each caller may be someone new, so every call that could be recorded opens with the notice
+    if (recordingSettings.consent !== 'declined') {
+      setShowRecordingNotice(true);
+      return;
+    }
+    void startCall(false);
+  };
+
+  // The answer covers this call only; a first acceptance also switches recording on in settings
+  const answerRecordingNotice = (granted: boolean) => {
+    if (granted && recordingSettings.consent === 'unset') {
+      setRecordingSettings(prev => ({ ...prev, consent: 'granted' }));
+    }
+    setShowRecordingNotice(false);
+    void startCall(granted);
+  };
+
+  const updateProtocols = (next: ProtocolSet | null) => {
+    saveProtocols(next);
+    setProtocols(next ?? loadProtocols());
+  };
+
+  const toggleCamera = async () => {
+    const service = geminiRef.current;
+    if (!service) return;
+    setCameraBusy(true);
+    try {
+      await service.setCamera(!cameraStream);
+    } catch (e) {
+      console.error('Camera failed', e);
+      showToast(t('cameraUnavailable'));
+    } finally {
+      setCameraBusy(false);
+    }
+  };
+
+  const selectCameraFrame = () => {
+    setSelectedFrames(geminiRef.current?.selectCameraFrame() ?? 0);
+  };
+
+  const pushToTalk = (pressed: boolean) => {
+    setTalking(pressed);
+    geminiRef.current?.setPushToTalk(pressed);
+  };
+
+  // Space works as the talk button, except while typing in a field
+  const pushToTalkEnabled = isConnected && micSettings.talkMode === 'push';
+  useEffect(() => {
+    if (!pushToTalkEnabled) return;
+    const isTyping = (e: KeyboardEvent) => e.target instanceof HTMLElement && !!e.target.closest('input, textarea, select, [contenteditable="true"]');
+    const onKeyDown = (e: KeyboardEvent) => {
+      if (e.code !== 'Space' || isTyping(e)) return;
+      e.preventDefault();
+      if (!e.repeat) pushToTalk(true);
+    };
+    const onKeyUp = (e: KeyboardEvent) => {
+      if (e.code !== 'Space' || isTyping(e)) return;
+      e.preventDefault();
+      pushToTalk(false);
+    };
+    const release = () => pushToTalk(false);
+    window.addEventListener('keydown', onKeyDown);
+    window.addEventListener('keyup', onKeyUp);
+    window.addEventListener('blur', release);
+    return () => {
+      window.removeEventListener('keydown', onKeyDown);
+      window.removeEventListener('keyup', onKeyUp);
+      window.removeEventListener('blur', release);
+      setTalking(false);
+    };
+  }, [pushToTalkEnabled]);
+
+  // Initialize Gemini Service
+  const startCall = async (record: boolean) => {
+    setRecordingCall(record);
     try {
       const service = new GeminiLiveService();
       geminiRef.current = service;
 
-      service.onStatusChange = (s) => setStatus(s);
+      service.onStateChange = (c) => setConnection(c);
       service.onAudioLevel = (l) => setAudioLevel(l);
+      service.onVoiceActivity = setVoiceActivity;
+      service.onTranscriptUpdate = (t) => setTranscript(t);
+      service.onRecordingReady = (recording) => { void handleRecordingReady(recording); };
+      service.onCameraChange = (stream) => {
+        setCameraStream(stream);
+        setSelectedFrames(0);
+      };
       
-      service.onReportSubmitted = (data: any) => {
-        let reportLocation: GeoLocation | null = null;
-        let isDeviceLocation = false;
-        
-        const providedLat = Number(data.latitude);
-        const providedLng = Number(data.longitude);
-        const hasProvidedCoords = !isNaN(providedLat) && !isNaN(providedLng) && (providedLat !== 0 || providedLng !== 0);
-
-        // 1. Check if AI provided valid coordinates (User specified a remote location)
-        if (hasProvidedCoords) {
-           reportLocation = {
-             lat: providedLat,
-             lng: providedLng
-           };
-        } 
-        // 2. Fallback to User GPS using the REF (fixes stale closure bug)
-        else if (userLocationRef.current) {
-           reportLocation = userLocationRef.current;
-           isDeviceLocation = true;
-        }
-        
-        // 3. Last Resort: Default to Map Center (LA) if completely unknown
-        if (!reportLocation) {
-           console.warn("Location unknown. Defaulting to center.");
-           reportLocation = { lat: 34.0522, lng: -118.2437 };
-        }
+      service.onChecklistChange = setChecklist;
+      service.onCallFinished = (call) => {
+        setCalls(current => [...current, call]);
+        callLogRepository.save(call).catch(e => console.error('Failed to save call log', e));
+      };
+      
+      service.onReportSubmitted = async (data: ReportArgs, callTranscript: TranscriptEntry[], frames: SceneFrame[], callChecklist: CallChecklist) => {
+        const { location, info } = await resolveReportLocation(data, userLocationRef.current, geocoder);
+        if (info.source === 'default') console.warn("Location unknown. Defaulting to center.");
+
+        const locationPrefix = info.label
+          ? `[${info.label}] `
+          : (info.source === 'device_gps' ? "[Device GPS] " : "");
 
-        const locationPrefix = hasProvidedCoords && data.locationName 
-          ? `[${data.locationName}] ` 
-          : (isDeviceLocation ? "[Device GPS] " : "");
+        const id = crypto.randomUUID();
+        // Camera frames are evidence for this ticket; storage failures don't hold up filing it
+        const { added: attachmentIds } = await storeAttachments(
+          id,
+          frames.map(f => new File([f.blob], `scene-${f.capturedAt}.jpg`, { type: 'image/jpeg' })),
+          CAMERA_ACTOR
+        );
+        setSelectedFrames(0);
 
         const newReport: EmergencyReport = {
-          id: Date.now().toString(),
+          id,
           timestamp: Date.now(),
-          location: reportLocation,
+          location,
+          locationInfo: info,
           emergencyType: data.emergencyType,
           description: locationPrefix + data.description,
+          language: data.language,
+          originalDescription: data.originalDescription,
           peopleCount: data.peopleCount,
           criticalNeeds: data.criticalNeeds,
-          status: 'pending'
+          ...checklistReportFields(callChecklist),
+          status: 'pending',
+          history: [creationEntry()],
+          transcript: callTranscript,
+          attachmentIds: attachmentIds.length > 0 ? attachmentIds : undefined
         };
         
-        setReports(prev => [newReport, ...prev]);
-        showToast("Report Submitted Successfully");
+        commitReport(newReport);
+
+        const recommendation = recommendUnit(newReport, unitsRef.current);
+        showToast(recommendation
+          ? t('reportSubmittedWithUnit', { unit: recommendation.unit.name, distance: formatDistance(recommendation.distanceMeters) })
+          : t('reportSubmitted'));
+        return ticketFor(newReport);
+      };
+
+      // Follow-ups from the caller on tickets filed in this call; the service refuses any other ID
+      service.onReportUpdated = (reportId: string, changes: ReportUpdateArgs) => {
+        const current = reportsRef.current.find(r => r.id === reportId);
+        if (!current) throw new Error(`No ticket found with ID ${reportId}. Ask the caller to repeat the ticket ID.`);
+        if (!isActiveStatus(current.status)) throw new Error(`Ticket ${reportId} is already ${current.status} and cannot be changed.`);
+
+        // Recorded as edits by the AI dispatcher, so the detail panel shows what the caller changed
+        const edits: Partial<ReportEdits> = {
+          ...(changes.emergencyType !== undefined ? { emergencyType: changes.emergencyType } : {}),
+          ...(changes.peopleCount !== undefined ? { peopleCount: changes.peopleCount } : {}),
+          ...(changes.criticalNeeds !== undefined ? { criticalNeeds: changes.criticalNeeds } : {}),
+          ...(changes.note
+            ? { description: `${current.description}\nUpdate ${new Date().toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}: ${changes.note}` }
+            : {})
+        };
+        const updated = editReport(current, edits, SYSTEM_ACTOR);
+        if (updated !== current) commitReport(updated);
+        showToast(t('ticketUpdated', { id: reportId }));
+        return ticketFor(updated);
+      };
+
+      service.onReportCancelled = (reportId: string, reason?: string) => {
+        const cancelled = applyStatusChange(reportId, 'cancelled', SYSTEM_ACTOR, reason ?? 'Cancelled by caller');
+        showToast(t('ticketCancelled', { id: reportId }));
+        return ticketFor(cancelled);
+      };
+
+      service.onReportLookup = (reportId: string) => {
+        const report = reportsRef.current.find(r => r.id === reportId);
+        return report ? ticketFor(report) : undefined;
+      };
+
+      service.onReportVerify = (reportId: string, stated: string) => {
+        const report = reportsRef.current.find(r => r.id === reportId);
+        return report ? matchesCallerCheck(report, stated) : false;
       };
 
       // Pass the current known location to the service context
-      await service.connect(userLocationRef.current);
-      setIsConnected(true);
+      await service.connect(userLocationRef.current, languageSetting, { record, hazardZones: hazardZonesRef.current, protocols, mic: micSettings });
     } catch (e) {
+      // Already reported as 'failed' through onStateChange
       console.error(e);
-      setStatus('Connection Failed');
-      setIsConnected(false);
     }
   };
 
@@ -127,7 +659,21 @@ const App: React.FC = () => {
       
       {/* 1. Full Screen Map Layer (Z-0) */}
       <div className="absolute inset-0 z-0">
-        <Map userLocation={userLocation} reports={reports} />
+        <Map
+          userLocation={userLocation}
+          reports={reports}
+          incidents={viewMode === 'incidents' ? incidents : null}
+          units={units}
+          onStatusChange={handleStatusChange}
+          onUnitAvailabilityChange={handleUnitAvailabilityChange}
+          onLocationCorrected={handleLocationCorrected}
+          hazardZones={hazardZones}
+          onSaveHazardZones={saveHazardZones}
+          onDeleteHazardZone={deleteHazardZone}
+          focusedReport={openReport}
+          onOpenReport={setOpenReportId}
+          language={uiLanguage}
+        />
       </div>
 
       {/* 2. Dark Overlay when connected (Z-10) */}
@@ -141,8 +687,52 @@ const App: React.FC = () => {
           <ExclamationTriangleIcon className="w-6 h-6" />
           <span className="font-bold text-lg tracking-tight text-white">Disaster<span className="text-red-500">Connect</span></span>
         </div>
+        <div className="flex items-center gap-2">
+          <button
+            onClick={() => setShowAnalytics(!showAnalytics)}
+            title={t('analytics')}
+            aria-label={t('analytics')}
+            aria-pressed={showAnalytics}
+            className={`p-2 rounded-full bg-gray-900/50 backdrop-blur-md border border-gray-700/50 shadow-lg pointer-events-auto ${showAnalytics ? 'text-blue-400' : 'text-gray-300'}`}
+          >
+            <ChartBarIcon className="w-4 h-4" />
+          </button>
+          <ProtocolMenu protocols={protocols} onChange={updateProtocols} disabled={isConnected} language={uiLanguage} />
+          <MicSettingsMenu language={uiLanguage} settings={micSettings} onChange={setMicSettings} disabled={isConnected} />
+          <RecordingSettingsMenu
+            language={uiLanguage}
+            settings={recordingSettings}
+            onChange={setRecordingSettings}
+            disabled={isConnected}
+          />
+          <label className="flex items-center gap-2 pointer-events-auto bg-gray-900/50 backdrop-blur-md px-3 py-1.5 rounded-full border border-gray-700/50 shadow-lg text-xs text-gray-300">
+            <LanguageIcon className="w-4 h-4" aria-hidden />
+            <span className="sr-only">{t('language')}</span>
+            <select
+              value={languageSetting}
+              onChange={(e) => setLanguageSetting(e.target.value as LanguageSetting)}
+              disabled={isConnected}
+              title={t('language')}
+              className="bg-transparent text-gray-200 focus:outline-none disabled:opacity-60"
+            >
+              <option value="auto">{t('autoDetect')}</option>
+              {LANGUAGES.map(code => (
+                <option key={code} value={code}>{LANGUAGE_INFO[code].nativeName}</option>
+              ))}
+            </select>
+          </label>
+        </div>
       </header>
 
+      {showRecordingNotice && (
+        <RecordingConsentNotice
+          language={uiLanguage}
+          retentionDays={recordingSettings.retentionDays}
+          onAccept={() => answerRecordingNotice(true)}
+          onDecline={() => answerRecordingNotice(false)}
+        />
+      )}
+
       {/* Notification Toast */}
       <div className={`absolute top-24 left-1/2 -translate-x-1/2 z-50 transition-all duration-300 ${toastMessage ? 'opacity-100 translate-y-0' : 'opacity-0 -translate-y-4 pointer-events-none'}`}>
         <div className="bg-green-500 text-white px-6 py-3 rounded-full shadow-2xl flex items-center gap-2 font-bold">
@@ -151,39 +741,151 @@ const App: React.FC = () => {
         </div>
       </div>
 
+      {/* Geofence warning: stays until dismissed or the device leaves the zone */}
+      {hazardWarning.length > 0 && (
+        <div className="absolute top-40 left-1/2 -translate-x-1/2 z-50 w-[min(90vw,28rem)]" role="alert">
+          <div className="bg-orange-600 text-white px-4 py-3 rounded-xl shadow-2xl flex items-start gap-2">
+            <ExclamationTriangleIcon className="w-6 h-6 shrink-0" />
+            <p className="flex-1 text-sm font-semibold">{t('hazardWarning', { zones: hazardWarning.map(z => z.name).join(', ') })}</p>
+            <button onClick={() => setHazardWarning([])} className="shrink-0" aria-label={t('dismiss')}>
+              <XMarkIcon className="w-5 h-5" />
+            </button>
+          </div>
+        </div>
+      )}
+
       {/* 4. Incident List Floating Card (Z-20) */}
       <div className={`absolute top-24 left-4 z-20 w-80 transition-transform duration-300 ${showReports ? 'translate-x-0' : '-translate-x-[120%]'}`}>
         <div className="bg-gray-800/90 backdrop-blur-md rounded-xl border border-gray-700 shadow-2xl overflow-hidden flex flex-col max-h-[50vh]">
           <div className="p-4 bg-gray-800/50 border-b border-gray-700 flex justify-between items-center">
             <h3 className="font-bold flex items-center gap-2 text-sm">
               <ShieldCheckIcon className="w-4 h-4 text-blue-400" />
-              Real-time Incidents
+              {t('realtimeIncidents')}
             </h3>
-            <span className="text-xs bg-red-500/20 text-red-400 px-2 py-0.5 rounded-full border border-red-500/20">
-              {reports.length} Active
-            </span>
+            <div className="flex items-center gap-1">
+              {syncStatus && syncStatus.state !== 'disabled' && (
+                syncStatus.state === 'unauthorized' ? (
+                  <span
+                    className="text-xs px-2 py-0.5 rounded-full border bg-red-500/20 text-red-400 border-red-500/20"
+                    title={t('syncUnauthorizedHint')}
+                  >
+                    {t('syncUnauthorized')}
+                  </span>
+                ) : (
+                  <span
+                    className={`text-xs px-2 py-0.5 rounded-full border ${syncStatus.state === 'online' ? 'bg-green-500/20 text-green-400 border-green-500/20' : 'bg-gray-500/20 text-gray-400 border-gray-500/20'}`}
+                  >
+                    {syncStatus.state === 'online' ? t('syncOnline', { count: syncStatus.clients }) : t('syncOffline')}
+                  </span>
+                )
+              )}
+              {pendingSync > 0 && (
+                <span className="text-xs bg-yellow-500/20 text-yellow-400 px-2 py-0.5 rounded-full border border-yellow-500/20" title={t('queuedTitle')}>
+                  {t('queued', { count: pendingSync })}
+                </span>
+              )}
+              <span className="text-xs bg-red-500/20 text-red-400 px-2 py-0.5 rounded-full border border-red-500/20">
+                {t('active', { count: activeCount })}
+              </span>
+            </div>
+          </div>
+          <div className="px-4 py-2 border-b border-gray-700 flex items-center gap-2 text-xs text-gray-400">
+            <label htmlFor="operator-name">{t('operator')}</label>
+            <input
+              id="operator-name"
+              value={operatorName}
+              onChange={(e) => setOperatorName(e.target.value)}
+              className="flex-1 min-w-0 bg-gray-900/60 border border-gray-700 rounded px-2 py-0.5 text-gray-200 focus:outline-none focus:border-blue-500"
+            />
+            <select
+              value={sortMode}
+              onChange={(e) => setSortMode(e.target.value as 'newest' | 'priority')}
+              className="bg-gray-900/60 border border-gray-700 rounded px-1 py-0.5 text-gray-200 focus:outline-none"
+              aria-label={t('sortIncidents')}
+            >
+              <option value="priority">{t('sortPriority')}</option>
+              <option value="newest">{t('sortNewest')}</option>
+            </select>
+          </div>
+          <ExchangeControls reports={reports} onImport={handleImport} />
+          <div className="px-4 py-2 border-b border-gray-700 flex items-center gap-2 text-xs">
+            {(['calls', 'incidents'] as const).map(mode => (
+              <button
+                key={mode}
+                onClick={() => setViewMode(mode)}
+                className={`px-2 py-0.5 rounded-full capitalize ${viewMode === mode ? 'bg-blue-600 text-white' : 'bg-gray-700/60 text-gray-300 hover:bg-gray-600'}`}
+              >
+                {mode === 'calls' ? t('viewCalls', { count: reports.length }) : t('viewIncidents', { count: incidents.length })}
+              </button>
+            ))}
+            {viewMode === 'incidents' && selectedIncidentIds.length >= 2 && (
+              <button
+                onClick={handleMergeIncidents}
+                className="ml-auto px-2 py-0.5 rounded bg-purple-600/60 hover:bg-purple-500 text-white"
+              >
+                {t('merge', { count: selectedIncidentIds.length })}
+              </button>
+            )}
           </div>
           <div className="overflow-y-auto p-2 space-y-2">
             {reports.length === 0 ? (
               <div className="p-4 text-center text-gray-500 text-xs">
-                No incidents reported nearby.
-                <br/>Stay safe.
+                {t('emptyTitle')}
+                <br/>{t('emptySubtitle')}
               </div>
             ) : (
-              reports.map(r => (
-                <div key={r.id} className="p-3 bg-gray-700/40 rounded-lg border-l-2 border-red-500 hover:bg-gray-700/60 transition-colors">
-                  <div className="flex justify-between items-start mb-1">
-                    <span className="font-bold text-red-400 text-xs uppercase tracking-wider">{r.emergencyType}</span>
-                    <span className="text-[10px] text-gray-400 font-mono">{new Date(r.timestamp).toLocaleTimeString([], {hour: '2-digit', minute:'2-digit'})}</span>
-                  </div>
-                  <p className="text-xs text-gray-300 line-clamp-2 leading-relaxed">{r.description}</p>
-                </div>
-              ))
+              viewMode === 'incidents' ? (
+                incidents.map(incident => (
+                  <IncidentGroupCard
+                    key={incident.id}
+                    incident={incident}
+                    reports={incident.reportIds.map(id => reportsById.get(id)!).filter(Boolean)}
+                    selected={selectedIncidentIds.includes(incident.id)}
+                    onToggleSelect={toggleIncidentSelection}
+                    onConfirm={handleConfirmIncident}
+                    onSplit={handleSplitReport}
+                    language={uiLanguage}
+                  />
+                ))
+              ) : (
+                sortedReports.map(r => (
+                  <IncidentCard
+                    key={r.id}
+                    report={r}
+                    onStatusChange={handleStatusChange}
+                    assignedUnit={r.assignedUnitId ? units.find(u => u.id === r.assignedUnitId) : undefined}
+                    recommendation={canAssignUnit(r) ? recommendUnit(r, units) : undefined}
+                    onAssignUnit={handleAssignUnit}
+                    hazardZones={zonesOf(r)}
+                    selected={r.id === openReportId}
+                    onOpen={setOpenReportId}
+                    language={uiLanguage}
+                  />
+                ))
+              )
             )}
           </div>
         </div>
       </div>
 
+      {openReport && (
+        <ReportDetailDrawer
+          report={openReport}
+          hazardZones={zonesOf(openReport)}
+          assignedUnit={openReport.assignedUnitId ? units.find(u => u.id === openReport.assignedUnitId) : undefined}
+          onClose={() => setOpenReportId(null)}
+          onSaveEdits={handleSaveEdits}
+          onAttach={handleAttach}
+          onRemoveAttachment={handleRemoveAttachment}
+          onStatusChange={handleStatusChange}
+          language={uiLanguage}
+        />
+      )}
+
+      {showAnalytics && (
+        <AnalyticsDashboard reports={reports} calls={calls} onClose={() => setShowAnalytics(false)} language={uiLanguage} />
+      )}
+
       {/* Toggle Button for Incident List (Mobile friendly) */}
       <button 
         onClick={() => setShowReports(!showReports)}
@@ -200,17 +902,61 @@ const App: React.FC = () => {
         <div className={`transition-all duration-500 ease-out flex flex-col items-center justify-center mb-4 ${isConnected ? 'scale-100 opacity-100 translate-y-0' : 'scale-50 opacity-0 translate-y-20 h-0'}`}>
           <div className="w-64 h-64 relative flex items-center justify-center">
              <div className="absolute inset-0 flex items-center justify-center">
-                <AudioVisualizer isActive={isConnected} level={audioLevel} />
+                <AudioVisualizer
+                  isActive={isConnected}
+                  level={audioLevel}
+                  activity={voiceActivity}
+                  label={voiceActivity === 'speech' ? t('voiceSpeech') : voiceActivity === 'noise' ? t('voiceNoise') : undefined}
+                />
              </div>
           </div>
-          <p className="text-gray-400 font-mono text-sm mt-4 animate-pulse pointer-events-auto bg-gray-900/80 px-4 py-1 rounded-full">
-            {status}
-          </p>
+          {connection.state === 'reconnecting' ? (
+            <div className="mt-4 pointer-events-auto flex flex-col items-center gap-1 bg-yellow-500/20 border border-yellow-500/40 text-yellow-300 px-4 py-2 rounded-2xl" role="status" aria-live="polite">
+              <span className="flex items-center gap-2 font-mono text-sm">
+                <ArrowPathIcon className="w-4 h-4 animate-spin" />
+                {connectionLabel(uiLanguage, connection)}
+              </span>
+              <span className="text-xs text-yellow-200/80">{t('reconnectHint')}</span>
+            </div>
+          ) : (
+            <p
+              className={`font-mono text-sm mt-4 pointer-events-auto bg-gray-900/80 px-4 py-1 rounded-full ${connection.state === 'live' ? 'text-green-400' : 'text-gray-400 animate-pulse'}`}
+              role="status"
+            >
+              {connectionLabel(uiLanguage, connection)}
+            </p>
+          )}
+          {isConnected && recordingCall && (
+            <p className="mt-2 flex items-center gap-1.5 text-xs text-red-300 pointer-events-auto">
+              <span className="w-2 h-2 rounded-full bg-red-500 animate-pulse" aria-hidden />
+              {t('recordingActive')}
+            </p>
+          )}
+          {isConnected && (
+            <div className="mt-3">
+              <LiveCaptions transcript={transcript} />
+            </div>
+          )}
+          {isConnected && cameraStream && (
+            <div className="mt-3">
+              <CameraPreview language={uiLanguage} stream={cameraStream} selectedCount={selectedFrames} onSelectFrame={selectCameraFrame} />
+            </div>
+          )}
         </div>
 
         {/* Call Button */}
         <div className="pointer-events-auto relative group">
            {isConnected && <div className="pulse-ring absolute inset-0 rounded-full border-red-500/50"></div>}
+           {isConnected && (
+             <div className="absolute right-full mr-6 top-1/2 -translate-y-1/2">
+               <CameraToggle language={uiLanguage} on={!!cameraStream} busy={cameraBusy} onToggle={() => { void toggleCamera(); }} />
+             </div>
+           )}
+           {pushToTalkEnabled && (
+             <div className="absolute left-full ml-6 top-1/2 -translate-y-1/2">
+               <PushToTalkButton language={uiLanguage} pressed={talking} onChange={pushToTalk} />
+             </div>
+           )}
            <button 
             onClick={toggleConnection}
             className={`
@@ -230,14 +976,27 @@ const App: React.FC = () => {
         </div>
 
         {/* Helper Text (Only when not connected) */}
-        <div className={`mt-4 bg-gray-900/80 backdrop-blur px-6 py-2 rounded-full border border-gray-700 pointer-events-auto transition-opacity duration-300 ${isConnected ? 'opacity-0' : 'opacity-100'}`}>
-           <p className="text-sm font-medium text-gray-300">
-             Tap emergency button to report
-           </p>
+        <div className={`mt-4 bg-gray-900/80 backdrop-blur px-6 py-2 rounded-full border pointer-events-auto transition-opacity duration-300 ${connection.state === 'failed' ? 'border-red-500/50' : 'border-gray-700'} ${isConnected ? 'opacity-0' : 'opacity-100'}`}>
+           {connection.state === 'failed' ? (
+             <p className="text-sm font-medium text-red-300" title={connection.error}>
+               {connectionLabel(uiLanguage, connection)} · {t('failedHint')}
+             </p>
+           ) : (
+             <p className="text-sm font-medium text-gray-300">
+               {connection.state === 'ended' ? `${connectionLabel(uiLanguage, connection)} · ` : ''}{t('tapToReport')}
+             </p>
+           )}
         </div>
 
       </div>
       
+      {/* Protocol checklist for the dispatcher, alongside the call */}
+      {isConnected && checklist && (
+        <div className="absolute bottom-8 left-4 z-30">
+          <CallChecklistPanel checklist={checklist} language={uiLanguage} />
+        </div>
+      )}
+
       {/* Background Gradient for bottom area readability */}
       <div className="absolute bottom-0 left-0 right-0 h-48 bg-gradient-to-t from-gray-900 via-gray-900/80 to-transparent z-10 pointer-events-none" />
 
@@ -0,0 +1,277 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { ArrowDownTrayIcon, ChartBarIcon, PhotoIcon, XMarkIcon } from '@heroicons/react/24/solid';
+import { EmergencyReport, ReportStatus } from '../types';
+import { CallSession } from '../services/callLog';
+import {
+  AnalyticsFilters,
+  AnalyticsSnapshot,
+  Milestone,
+  buildAnalytics,
+  describeFilters,
+  formatDuration,
+  TYPE_COLORS
+} from '../services/analytics';
+import { analyticsToCSV, analyticsToPNG } from '../services/analyticsExport';
+import { downloadFile, fileTimestamp } from '../services/fileUtils';
+import { EMERGENCY_TYPES } from '../services/reportValidation';
+import { STATUS_LABELS } from '../services/reportWorkflow';
+import { TIME_RANGE_OPTIONS, TYPE_GLYPHS } from '../services/mapLayers';
+import { Language, statusLabel, timeRangeLabel, translate, UiStringKey } from '../services/i18n';
+
+interface AnalyticsDashboardProps {
+  reports: EmergencyReport[];
+  calls: CallSession[];
+  onClose: () => void;
+  language: Language;
+}
+
+const DEFAULT_FILTERS: AnalyticsFilters = { types: [], statuses: [], timeRangeHours: 24 };
+const REFRESH_MS = 60000;
+
+const MILESTONE_KEYS: Record<Milestone, UiStringKey> = {
+  firstResponse: 'toFirstResponse',
+  dispatch: 'toDispatch',
+  resolution: 'toResolution'
+};
+
+const toggle = <T,>(list: T[], value: T): T[] =>
+  list.includes(value) ? list.filter(v => v !== value) : [...list, value];
+
+const chipClass = (on: boolean) =>
+  `px-2 py-0.5 rounded-full border ${on ? 'bg-blue-600 border-blue-400 text-white' : 'bg-gray-900/60 border-gray-700 text-gray-300 hover:bg-gray-700'}`;
+
+const Panel: React.FC<{ title: string; className?: string; children: React.ReactNode }> = ({ title, className = '', children }) => (
+  <section className={`bg-gray-900/60 border border-gray-700 rounded-xl p-3 ${className}`}>
+    <h4 className="font-bold text-gray-300 mb-2">{title}</h4>
+    {children}
+  </section>
+);
+
+const Tile: React.FC<{ label: string; value: string; hint?: string }> = ({ label, value, hint }) => (
+  <div className="bg-gray-900/60 border border-gray-700 rounded-xl px-3 py-2" title={hint}>
+    <div className="text-gray-400">{label}</div>
+    <div className="text-xl font-bold text-white">{value}</div>
+  </div>
+);
+
+const VolumeChart: React.FC<{ volume: AnalyticsSnapshot['volume']; language: Language }> = ({ volume, language }) => {
+  const { buckets, types, bucketMs } = volume;
+  const max = Math.max(1, ...buckets.map(b => b.total));
+  const width = 100 / Math.max(1, buckets.length);
+  const label = (ts: number) => new Date(ts).toLocaleString([], bucketMs >= 86400000
+    ? { month: 'short', day: 'numeric' }
+    : { month: 'short', day: 'numeric', hour: '2-digit', minute: '2-digit' });
+
+  return (
+    <div>
+      <div className="flex gap-2">
+        <div className="flex flex-col justify-between text-gray-500 text-[10px] text-right w-6"><span>{max}</span><span>0</span></div>
+        <svg viewBox="0 0 100 40" preserveAspectRatio="none" className="flex-1 h-40" role="img" aria-label={translate(language, 'volumeTitle')}>
+          {buckets.map((bucket, i) => {
+            let top = 40;
+            return types.map(type => {
+              const h = ((bucket.counts[type] ?? 0) / max) * 40;
+              top -= h;
+              return h > 0 && (
+                <rect key={`${bucket.start}-${type}`} x={i * width + width * 0.1} y={top} width={width * 0.8} height={h} fill={TYPE_COLORS[type]}>
+                  <title>{`${label(bucket.start)} · ${type}: ${bucket.counts[type]}`}</title>
+                </rect>
+              );
+            });
+          })}
+        </svg>
+      </div>
+      {buckets.length > 0 && (
+        <div className="flex justify-between text-gray-500 text-[10px] pl-8">
+          <span>{label(buckets[0].start)}</span>
+          <span>{translate(language, 'volumePerBar', { duration: formatDuration(bucketMs) })}</span>
+          <span>{label(buckets[buckets.length - 1].start)}</span>
+        </div>
+      )}
+      <div className="flex flex-wrap gap-x-3 gap-y-1 mt-2">
+        {types.length === 0 && <span className="text-gray-500">{translate(language, 'volumeEmpty')}</span>}
+        {types.map(type => (
+          <span key={type} className="flex items-center gap-1 text-gray-300">
+            <span className="w-2.5 h-2.5 rounded-sm" style={{ backgroundColor: TYPE_COLORS[type] }} />
+            {type} ({buckets.reduce((sum, b) => sum + (b.counts[type] ?? 0), 0)})
+          </span>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+const BarList: React.FC<{ items: { label: string; value: number; note?: string; color?: string }[] }> = ({ items }) => {
+  const max = Math.max(1, ...items.map(item => item.value));
+  return (
+    <ul className="space-y-1">
+      {items.map(item => (
+        <li key={item.label} className="grid grid-cols-[7rem_1fr_auto] items-center gap-2">
+          <span className="truncate text-gray-400" title={item.label}>{item.label}</span>
+          <span className="h-3 rounded-sm bg-gray-800 overflow-hidden">
+            <span className="block h-full rounded-sm" style={{ width: `${(item.value / max) * 100}%`, backgroundColor: item.color ?? '#3b82f6' }} />
+          </span>
+          <span className="text-gray-200 tabular-nums">{item.note ?? item.value}</span>
+        </li>
+      ))}
+    </ul>
+  );
+};
+
+/**
+ * Operations view over the stored reports and this device's call log.
+ * The filters apply to every panel and to both exports.
+ */
+export const AnalyticsDashboard: React.FC<AnalyticsDashboardProps> = ({ reports, calls, onClose, language }) => {
+  const [filters, setFilters] = useState<AnalyticsFilters>(DEFAULT_FILTERS);
+  const t = (key: UiStringKey, vars?: Record<string, string | number>) => translate(language, key, vars);
+  const [now, setNow] = useState(Date.now());
+  const [exporting, setExporting] = useState(false);
+
+  useEffect(() => {
+    const timer = setInterval(() => setNow(Date.now()), REFRESH_MS);
+    return () => clearInterval(timer);
+  }, []);
+
+  const snapshot = useMemo(() => buildAnalytics(reports, calls, filters, now), [reports, calls, filters, now]);
+  const created = snapshot.funnel[0]?.count ?? 0;
+  const dispatch = snapshot.milestones.find(m => m.id === 'dispatch');
+
+  const exportCSV = () => {
+    downloadFile(analyticsToCSV(snapshot), `analytics-${fileTimestamp()}.csv`, 'text/csv');
+  };
+
+  const exportPNG = async () => {
+    setExporting(true);
+    try {
+      downloadFile(await analyticsToPNG(snapshot), `analytics-${fileTimestamp()}.png`, 'image/png');
+    } catch (e) {
+      console.error('Failed to export analytics image', e);
+    } finally {
+      setExporting(false);
+    }
+  };
+
+  return (
+    <div className="absolute inset-x-4 top-20 bottom-4 z-40 flex flex-col bg-gray-800/95 backdrop-blur-md rounded-xl border border-gray-700 shadow-2xl text-xs text-gray-200" role="dialog" aria-label={t('analytics')}>
+      <header className="flex flex-wrap items-center gap-2 p-3 border-b border-gray-700">
+        <h3 className="font-bold text-sm text-white flex items-center gap-2 mr-auto">
+          <ChartBarIcon className="w-4 h-4 text-blue-400" />
+          {t('analytics')}
+        </h3>
+        <button onClick={exportCSV} className="flex items-center gap-1 px-2 py-1 rounded bg-gray-700 hover:bg-gray-600">
+          <ArrowDownTrayIcon className="w-3 h-3" /> CSV
+        </button>
+        <button onClick={() => { void exportPNG(); }} disabled={exporting} className="flex items-center gap-1 px-2 py-1 rounded bg-gray-700 hover:bg-gray-600 disabled:opacity-50">
+          <PhotoIcon className="w-3 h-3" /> PNG
+        </button>
+        <button onClick={onClose} className="p-1 rounded-full hover:bg-gray-700" aria-label={t('closeAnalytics')}>
+          <XMarkIcon className="w-5 h-5" />
+        </button>
+      </header>
+
+      <div className="flex flex-wrap items-center gap-1.5 px-3 py-2 border-b border-gray-700">
+        <select
+          value={filters.timeRangeHours ?? ''}
+          onChange={(e) => setFilters({ ...filters, timeRangeHours: e.target.value === '' ? null : Number(e.target.value) })}
+          className="bg-gray-900/60 border border-gray-700 rounded px-1 py-0.5 mr-2"
+          aria-label={t('timeRange')}
+        >
+          {TIME_RANGE_OPTIONS.map(o => <option key={o.label} value={o.hours ?? ''}>{timeRangeLabel(language, o.hours)}</option>)}
+        </select>
+        {EMERGENCY_TYPES.map(type => (
+          <button key={type} onClick={() => setFilters({ ...filters, types: toggle(filters.types, type) })} className={chipClass(filters.types.includes(type))}>
+            {TYPE_GLYPHS[type]} {type}
+          </button>
+        ))}
+        <span className="w-px h-4 bg-gray-700 mx-1" />
+        {(Object.keys(STATUS_LABELS) as ReportStatus[]).map(status => (
+          <button key={status} onClick={() => setFilters({ ...filters, statuses: toggle(filters.statuses, status) })} className={chipClass(filters.statuses.includes(status))}>
+            {statusLabel(language, status)}
+          </button>
+        ))}
+        {(filters.types.length > 0 || filters.statuses.length > 0) && (
+          <button onClick={() => setFilters({ ...filters, types: [], statuses: [] })} className="underline text-gray-400 ml-1">{t('clearFilters')}</button>
+        )}
+      </div>
+
+      <div className="flex-1 overflow-y-auto p-3 space-y-3">
+        <p className="text-gray-400">{describeFilters(filters, language)}</p>
+        <div className="grid grid-cols-2 sm:grid-cols-3 lg:grid-cols-6 gap-2">
+          <Tile label={t('statReports')} value={String(snapshot.totals.reports)} />
+          <Tile label={t('statActive')} value={String(snapshot.totals.active)} />
+          <Tile
+            label={t('statPeople')}
+            value={String(snapshot.totals.people)}
+            hint={snapshot.totals.withoutPeopleCount > 0 ? t('statPeopleMissing', { count: snapshot.totals.withoutPeopleCount }) : undefined}
+          />
+          <Tile label={t('statMedianDispatch')} value={formatDuration(dispatch?.medianMs)} hint={dispatch ? t('statDispatched', { count: dispatch.count }) : undefined} />
+          <Tile label={t('statCalls')} value={String(snapshot.calls.count)} />
+          <Tile label={t('statMedianCall')} value={formatDuration(snapshot.calls.medianMs)} />
+        </div>
+
+        <Panel title={t('volumeTitle')}>
+          <VolumeChart volume={snapshot.volume} language={language} />
+        </Panel>
+
+        <div className="grid md:grid-cols-2 gap-3">
+          <Panel title={t('funnelTitle')}>
+            <BarList items={[
+              ...snapshot.funnel.map(stage => ({
+                label: statusLabel(language, stage.status),
+                value: stage.count,
+                note: created > 0 ? `${stage.count} (${Math.round((stage.count / created) * 100)}%)` : '0'
+              })),
+              { label: statusLabel(language, 'cancelled'), value: snapshot.cancelled, color: '#6b7280' }
+            ]} />
+          </Panel>
+
+          <Panel title={t('timeInStateTitle')}>
+            <table className="w-full">
+              <thead className="text-gray-500">
+                <tr><th className="text-left font-normal" /><th className="text-right font-normal">{t('median')}</th><th className="text-right font-normal">p90</th><th className="text-right font-normal">n</th></tr>
+              </thead>
+              <tbody className="tabular-nums">
+                {snapshot.timeInState.map(state => (
+                  <tr key={state.status}>
+                    <td className="text-gray-400">{t('inStatus', { status: statusLabel(language, state.status).toLocaleLowerCase(language) })}</td>
+                    <td className="text-right">{formatDuration(state.medianMs)}</td>
+                    <td className="text-right">{formatDuration(state.p90Ms)}</td>
+                    <td className="text-right text-gray-500">{state.count}</td>
+                  </tr>
+                ))}
+                {snapshot.milestones.map(milestone => (
+                  <tr key={milestone.id} className="border-t border-gray-800">
+                    <td className="text-gray-400">{t(MILESTONE_KEYS[milestone.id])}</td>
+                    <td className="text-right">{formatDuration(milestone.medianMs)}</td>
+                    <td className="text-right">{formatDuration(milestone.p90Ms)}</td>
+                    <td className="text-right text-gray-500">{milestone.count}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </Panel>
+
+          <Panel title={t('needsTitle')}>
+            {snapshot.needs.length === 0
+              ? <p className="text-gray-500">{t('needsEmpty')}</p>
+              : <BarList items={snapshot.needs.map(n => ({ label: n.need, value: n.count, color: '#f97316' }))} />}
+          </Panel>
+
+          <Panel title={t('callsTitle')}>
+            <dl className="grid grid-cols-[1fr_auto] gap-y-0.5 tabular-nums">
+              <dt className="text-gray-400">{t('statCalls')}</dt><dd>{snapshot.calls.count}</dd>
+              <dt className="text-gray-400">{t('callsConnected')}</dt><dd>{snapshot.calls.connected}</dd>
+              <dt className="text-gray-400">{t('callsFailed')}</dt><dd>{snapshot.calls.failed}</dd>
+              <dt className="text-gray-400">{t('callsWithReport')}</dt><dd>{snapshot.calls.withReport}</dd>
+              <dt className="text-gray-400">{t('callsReconnects')}</dt><dd>{snapshot.calls.reconnects}</dd>
+              <dt className="text-gray-400">{t('callsMedianP90')}</dt><dd>{formatDuration(snapshot.calls.medianMs)} / {formatDuration(snapshot.calls.p90Ms)}</dd>
+              <dt className="text-gray-400">{t('callsMean')}</dt><dd>{formatDuration(snapshot.calls.meanMs)}</dd>
+              <dt className="text-gray-400">{t('callsLongest')}</dt><dd>{formatDuration(snapshot.calls.longestMs)}</dd>
+            </dl>
+          </Panel>
+        </div>
+      </div>
+    </div>
+  );
+};
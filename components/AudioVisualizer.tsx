@@ -1,11 +1,21 @@
 import React, { useEffect, useRef } from 'react';
+import { VoiceActivity } from '../services/voiceActivity';
 
 interface AudioVisualizerProps {
   isActive: boolean;
   level: number; // 0 to 1
+  activity?: VoiceActivity; // Without it every sound is drawn as speech
+  label?: string; // Shown under the circle, e.g. what the detector hears
 }
 
-export const AudioVisualizer: React.FC<AudioVisualizerProps> = ({ isActive, level }) => {
+// Speech in the alert red, anything else the detector hears in muted grey
+const ACTIVITY_RGB: Record<VoiceActivity, string> = {
+  speech: '239, 68, 68', // Red-500
+  noise: '156, 163, 175', // Gray-400
+  silence: '75, 85, 99' // Gray-600
+};
+
+export const AudioVisualizer: React.FC<AudioVisualizerProps> = ({ isActive, level, activity = 'speech', label }) => {
   const canvasRef = useRef<HTMLCanvasElement>(null);
   
   useEffect(() => {
@@ -37,13 +47,14 @@ export const AudioVisualizer: React.FC<AudioVisualizerProps> = ({ isActive, leve
       // Draw base circle
       ctx.beginPath();
       ctx.arc(centerX, centerY, 30 + currentLevel * 50, 0, Math.PI * 2);
-      ctx.fillStyle = `rgba(239, 68, 68, ${0.2 + currentLevel * 0.5})`; // Red-500
+      const rgb = ACTIVITY_RGB[activity];
+      ctx.fillStyle = `rgba(${rgb}, ${0.2 + currentLevel * 0.5})`;
       ctx.fill();
 
       // Draw ripple
       ctx.beginPath();
       ctx.arc(centerX, centerY, 30 + currentLevel * maxRadius, 0, Math.PI * 2);
-      ctx.strokeStyle = `rgba(239, 68, 68, ${0.5 - currentLevel * 0.3})`;
+      ctx.strokeStyle = `rgba(${rgb}, ${0.5 - currentLevel * 0.3})`;
       ctx.lineWidth = 2;
       ctx.stroke();
 
@@ -55,14 +66,24 @@ export const AudioVisualizer: React.FC<AudioVisualizerProps> = ({ isActive, leve
     return () => {
       cancelAnimationFrame(animationId);
     };
-  }, [isActive, level]);
+  }, [isActive, level, activity]);
 
   return (
-    <canvas 
-      ref={canvasRef} 
-      width={200} 
-      height={200} 
-      className={`w-full h-full pointer-events-none transition-opacity duration-500 ${isActive ? 'opacity-100' : 'opacity-0'}`}
-    />
+    <div className="relative w-full h-full">
+      <canvas 
+        ref={canvasRef} 
+        width={200} 
+        height={200} 
+        className={`w-full h-full pointer-events-none transition-opacity duration-500 ${isActive ? 'opacity-100' : 'opacity-0'}`}
+      />
+      {isActive && label && (
+        <p
+          className={`absolute bottom-2 inset-x-0 text-center text-xs font-medium pointer-events-none ${activity === 'speech' ? 'text-red-300' : 'text-gray-400'}`}
+          aria-live="polite"
+        >
+          {label}
+        </p>
+      )}
+    </div>
   );
 };
@@ -0,0 +1,71 @@
+import React, { useEffect, useState } from 'react';
+import { recordingStore } from '../services/recordingStore';
+import { downloadFile, formatBytes } from '../services/fileUtils';
+import { CallRecording, MAX_RECORDING_MS } from '../services/callRecorder';
+import { Language, translate, UiStringKey } from '../services/i18n';
+
+const formatDuration = (ms: number) => {
+  const seconds = Math.round(ms / 1000);
+  return `${Math.floor(seconds / 60)}:${String(seconds % 60).padStart(2, '0')}`;
+};
+
+interface CallRecordingPlayerProps {
+  language: Language;
+  recordingId?: string;
+}
+
+// Loads the recording only when asked; WAVs are large and most cards are never played
+export const CallRecordingPlayer: React.FC<CallRecordingPlayerProps> = ({ language, recordingId }) => {
+  const [open, setOpen] = useState(false);
+  const [recording, setRecording] = useState<CallRecording | null | undefined>(undefined);
+  const [url, setUrl] = useState<string | null>(null);
+  const t = (key: UiStringKey, vars?: Record<string, string | number>) => translate(language, key, vars);
+
+  useEffect(() => {
+    if (!open || !recordingId || recording !== undefined) return;
+    recordingStore.get(recordingId)
+      .then(found => setRecording(found ?? null))
+      .catch(e => {
+        console.error('Failed to load recording', e);
+        setRecording(null);
+      });
+  }, [open, recordingId, recording]);
+
+  useEffect(() => {
+    if (!recording) return;
+    const objectUrl = URL.createObjectURL(recording.blob);
+    setUrl(objectUrl);
+    return () => URL.revokeObjectURL(objectUrl);
+  }, [recording]);
+
+  if (!recordingId) return null;
+
+  return (
+    <div className="mt-1" onClick={(e) => e.stopPropagation()}>
+      <button onClick={() => setOpen(!open)} className="text-[10px] underline text-gray-400">
+        {t(open ? 'hideRecording' : 'playRecording')}
+      </button>
+      {open && recording === null && (
+        <p className="mt-1 text-[10px] text-gray-500">{t('recordingMissing')}</p>
+      )}
+      {open && recording && url && (
+        <div className="mt-1 space-y-1">
+          <audio controls src={url} className="w-full h-8" preload="metadata" />
+          <div className="flex items-center gap-2 text-[10px] text-gray-400">
+            <span>
+              {formatDuration(recording.durationMs)} · {formatBytes(recording.blob.size)}
+              {recording.truncated && ` · ${t('recordingTruncated', { minutes: MAX_RECORDING_MS / 60000 })}`}
+            </span>
+            <span title={t('recordingChannelsHint')}>{t('recordingChannels')}</span>
+            <button
+              onClick={() => downloadFile(recording.blob, `call-${recording.id}.wav`, 'audio/wav')}
+              className="ml-auto underline hover:text-gray-200"
+            >
+              {t('downloadRecording')}
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,60 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { CameraIcon, VideoCameraIcon, VideoCameraSlashIcon } from '@heroicons/react/24/solid';
+import { Language, translate } from '../services/i18n';
+
+interface CameraPreviewProps {
+  language: Language;
+  stream: MediaStream;
+  selectedCount: number;
+  onSelectFrame: () => void;
+}
+
+// What the dispatcher is being shown, with a button to keep the current view for the report
+export const CameraPreview: React.FC<CameraPreviewProps> = ({ language, stream, selectedCount, onSelectFrame }) => {
+  const videoRef = useRef<HTMLVideoElement>(null);
+  const [flash, setFlash] = useState(false);
+
+  useEffect(() => {
+    if (videoRef.current) videoRef.current.srcObject = stream;
+  }, [stream]);
+
+  const select = () => {
+    onSelectFrame();
+    setFlash(true);
+    setTimeout(() => setFlash(false), 150);
+  };
+
+  return (
+    <div className="relative w-56 rounded-xl overflow-hidden border border-gray-700 shadow-2xl bg-black pointer-events-auto">
+      <video ref={videoRef} autoPlay muted playsInline className="w-full aspect-video object-cover" />
+      <div className={`absolute inset-0 bg-white transition-opacity duration-150 pointer-events-none ${flash ? 'opacity-70' : 'opacity-0'}`} />
+      <div className="absolute bottom-0 inset-x-0 flex items-center justify-between gap-2 px-2 py-1 bg-gradient-to-t from-black/80 to-transparent text-[11px]">
+        <span className="text-gray-200">
+          {selectedCount > 0 ? translate(language, 'cameraKept', { count: selectedCount }) : translate(language, 'cameraLive')}
+        </span>
+        <button
+          onClick={select}
+          className="flex items-center gap-1 px-2 py-0.5 rounded-full bg-white/20 hover:bg-white/30"
+          aria-label={translate(language, 'cameraKeepPhoto')}
+          title={translate(language, 'cameraKeepPhoto')}
+        >
+          <CameraIcon className="w-4 h-4" />
+        </button>
+      </div>
+    </div>
+  );
+};
+
+// Switches the camera on and off during a call
+export const CameraToggle: React.FC<{ language: Language; on: boolean; busy: boolean; onToggle: () => void }> = ({ language, on, busy, onToggle }) => (
+  <button
+    onClick={onToggle}
+    disabled={busy}
+    className={`flex items-center justify-center w-12 h-12 rounded-full border shadow-lg transition-colors disabled:opacity-50 ${on ? 'bg-blue-600 border-blue-400 hover:bg-blue-500' : 'bg-gray-800 border-gray-600 hover:bg-gray-700'}`}
+    aria-pressed={on}
+    aria-label={translate(language, on ? 'cameraStop' : 'cameraStart')}
+    title={translate(language, on ? 'cameraStop' : 'cameraStart')}
+  >
+    {on ? <VideoCameraSlashIcon className="w-6 h-6" /> : <VideoCameraIcon className="w-6 h-6" />}
+  </button>
+);
@@ -0,0 +1,107 @@
+import React, { useRef, useState } from 'react';
+import { ArrowDownTrayIcon, ArrowUpTrayIcon } from '@heroicons/react/24/solid';
+import { EmergencyReport } from '../types';
+import {
+  detectFormat,
+  EXCHANGE_FORMATS,
+  ExchangeFormat,
+  ImportResult,
+  parseReports,
+  RecordError,
+  serializeReports
+} from '../services/reportExchange';
+import { downloadFile, fileTimestamp } from '../services/fileUtils';
+
+interface ExchangeControlsProps {
+  reports: EmergencyReport[];
+  onImport: (result: ImportResult) => void;
+}
+
+export const ExchangeControls: React.FC<ExchangeControlsProps> = ({ reports, onImport }) => {
+  const [format, setFormat] = useState<ExchangeFormat>('geojson');
+  const [errors, setErrors] = useState<RecordError[]>([]);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const handleExport = () => {
+    const { extension, mimeType } = EXCHANGE_FORMATS[format];
+    downloadFile(serializeReports(reports, format), `reports-${fileTimestamp()}.${extension}`, mimeType);
+  };
+
+  const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = ''; // Allow re-importing the same file
+    if (!file) return;
+
+    let text: string;
+    try {
+      text = await file.text();
+    } catch (err) {
+      console.error('Failed to read import file', err);
+      setErrors([{ index: -1, message: `Could not read ${file.name}.` }]);
+      return;
+    }
+    const detected = detectFormat(file.name, text);
+    if (!detected) {
+      setErrors([{ index: -1, message: `Could not tell the format of ${file.name}.` }]);
+      return;
+    }
+
+    const result = parseReports(text, detected);
+    setErrors(result.errors);
+    onImport(result);
+  };
+
+  return (
+    <div className="px-4 py-2 border-b border-gray-700 text-xs text-gray-400">
+      <div className="flex items-center gap-2">
+        <select
+          value={format}
+          onChange={(e) => setFormat(e.target.value as ExchangeFormat)}
+          className="flex-1 min-w-0 bg-gray-900/60 border border-gray-700 rounded px-1 py-0.5 text-gray-200 focus:outline-none"
+          aria-label="Export format"
+        >
+          {(Object.keys(EXCHANGE_FORMATS) as ExchangeFormat[]).map(f => (
+            <option key={f} value={f}>{EXCHANGE_FORMATS[f].label}</option>
+          ))}
+        </select>
+        <button
+          onClick={handleExport}
+          disabled={reports.length === 0}
+          className="flex items-center gap-1 px-2 py-0.5 rounded bg-gray-700 hover:bg-gray-600 text-gray-200 disabled:opacity-40"
+        >
+          <ArrowDownTrayIcon className="w-3 h-3" /> Export
+        </button>
+        <button
+          onClick={() => fileInputRef.current?.click()}
+          className="flex items-center gap-1 px-2 py-0.5 rounded bg-gray-700 hover:bg-gray-600 text-gray-200"
+        >
+          <ArrowUpTrayIcon className="w-3 h-3" /> Import
+        </button>
+        <input
+          ref={fileInputRef}
+          type="file"
+          accept=".geojson,.json,.csv,.xml,.cap"
+          className="hidden"
+          onChange={handleFile}
+        />
+      </div>
+
+      {errors.length > 0 && (
+        <div className="mt-2 p-2 rounded bg-red-900/30 border border-red-500/30 text-red-300">
+          <div className="flex justify-between items-center mb-1">
+            <span className="font-bold">{errors.length} record{errors.length === 1 ? '' : 's'} not imported</span>
+            <button onClick={() => setErrors([])} className="underline">Dismiss</button>
+          </div>
+          <ul className="max-h-24 overflow-y-auto space-y-0.5">
+            {errors.map((err, i) => (
+              <li key={i}>
+                {err.index >= 0 ? `#${err.index + 1}` : 'File'}
+                {err.id && ` (${err.id})`}: {err.message}
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,161 @@
+import React, { useRef, useState } from 'react';
+import { ShieldExclamationIcon, TrashIcon } from '@heroicons/react/24/solid';
+import { GeoLocation, HazardKind, HazardZone } from '../types';
+import { RecordError } from '../services/reportExchange';
+import { HAZARD_KIND_COLORS, HAZARD_KINDS, parseHazardZones } from '../services/hazardZones';
+import { hazardKindLabel, Language, translate, UiStringKey } from '../services/i18n';
+
+interface HazardZoneControlsProps {
+  zones: HazardZone[];
+  draft: GeoLocation[] | null; // Vertices placed so far while drawing, null when not drawing
+  draftKind: HazardKind;
+  onDraftKindChange: (kind: HazardKind) => void;
+  onStartDraft: () => void;
+  onUndoPoint: () => void;
+  onCancelDraft: () => void;
+  onFinishDraft: (name: string, kind: HazardKind) => void;
+  onSave: (...zones: HazardZone[]) => void;
+  onDelete: (zoneId: string) => void;
+  language: Language;
+}
+
+export const HazardZoneControls: React.FC<HazardZoneControlsProps> = ({
+  zones, draft, draftKind, onDraftKindChange, onStartDraft, onUndoPoint, onCancelDraft, onFinishDraft, onSave, onDelete, language
+}) => {
+  const [open, setOpen] = useState(false);
+  const t = (key: UiStringKey, vars?: Record<string, string | number>) => translate(language, key, vars);
+  const [name, setName] = useState('');
+  const [errors, setErrors] = useState<RecordError[]>([]);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const activeCount = zones.filter(z => z.active).length;
+
+  const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = ''; // Allow re-importing the same file
+    if (!file) return;
+
+    let text: string;
+    try {
+      text = await file.text();
+    } catch (err) {
+      console.error('Failed to read hazard zone file', err);
+      setErrors([{ index: -1, message: t('fileReadFailed', { file: file.name }) }]);
+      return;
+    }
+    const result = parseHazardZones(text);
+    setErrors(result.errors);
+    if (result.zones.length > 0) onSave(...result.zones);
+  };
+
+  const finish = () => {
+    onFinishDraft(name, draftKind);
+    setName('');
+  };
+
+  return (
+    <div className="absolute top-24 right-28 z-[1000] text-xs text-white">
+      <button
+        onClick={() => setOpen(!open)}
+        className="ml-auto flex items-center gap-1 p-2 bg-gray-800/90 rounded-full shadow-lg border border-gray-700 hover:bg-gray-700"
+        aria-label={t('hazardZones')}
+      >
+        <ShieldExclamationIcon className="w-5 h-5" />
+        {activeCount > 0 && (
+          <span className="px-1.5 rounded-full bg-orange-600 text-[10px]">{activeCount}</span>
+        )}
+      </button>
+
+      {open && (
+        <div className="mt-2 w-64 max-h-[60vh] overflow-y-auto bg-gray-800/95 backdrop-blur-md rounded-xl border border-gray-700 shadow-2xl p-3 space-y-3">
+          <section>
+            <h4 className="font-bold mb-1 text-gray-300">{t('hazardZones')}</h4>
+            {zones.length === 0 && <p className="text-gray-400">{t('hazardNone')}</p>}
+            <ul className="space-y-1">
+              {zones.map(zone => (
+                <li key={zone.id} className="flex items-center gap-2">
+                  <input
+                    type="checkbox"
+                    checked={zone.active}
+                    onChange={() => onSave({ ...zone, active: !zone.active })}
+                    title={t(zone.active ? 'hazardActiveHint' : 'hazardInactive')}
+                  />
+                  <span className="w-2.5 h-2.5 rounded-sm shrink-0" style={{ backgroundColor: HAZARD_KIND_COLORS[zone.kind] }} />
+                  <span className={`flex-1 min-w-0 truncate ${zone.active ? '' : 'text-gray-500'}`} title={hazardKindLabel(language, zone.kind)}>
+                    {zone.name}
+                  </span>
+                  <button onClick={() => onDelete(zone.id)} className="text-gray-400 hover:text-red-400" aria-label={t('hazardDelete', { name: zone.name })}>
+                    <TrashIcon className="w-3.5 h-3.5" />
+                  </button>
+                </li>
+              ))}
+            </ul>
+          </section>
+
+          {draft ? (
+            <section className="space-y-1">
+              <h4 className="font-bold text-gray-300">{t('hazardNewZone')}</h4>
+              <p className="text-gray-400">{t('hazardPlaceCorners', { count: draft.length })}</p>
+              <input
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+                placeholder={t('hazardName')}
+                className="w-full bg-gray-900/60 border border-gray-700 rounded px-1 py-0.5"
+              />
+              <select
+                value={draftKind}
+                onChange={(e) => onDraftKindChange(e.target.value as HazardKind)}
+                className="w-full bg-gray-900/60 border border-gray-700 rounded px-1 py-0.5"
+              >
+                {HAZARD_KINDS.map(k => <option key={k} value={k}>{hazardKindLabel(language, k)}</option>)}
+              </select>
+              <div className="flex gap-1">
+                <button onClick={finish} disabled={draft.length < 3} className="flex-1 py-1 rounded bg-blue-600 hover:bg-blue-500 disabled:opacity-40">
+                  {t('save')}
+                </button>
+                <button onClick={onUndoPoint} disabled={draft.length === 0} className="flex-1 py-1 rounded bg-gray-700 hover:bg-gray-600 disabled:opacity-40">
+                  {t('undo')}
+                </button>
+                <button onClick={onCancelDraft} className="flex-1 py-1 rounded bg-gray-700 hover:bg-gray-600">
+                  {t('cancel')}
+                </button>
+              </div>
+            </section>
+          ) : (
+            <div className="flex gap-1">
+              <button onClick={onStartDraft} className="flex-1 py-1 rounded bg-blue-600 hover:bg-blue-500">
+                {t('hazardDraw')}
+              </button>
+              <button onClick={() => fileInputRef.current?.click()} className="flex-1 py-1 rounded bg-gray-700 hover:bg-gray-600">
+                {t('hazardImport')}
+              </button>
+              <input
+                ref={fileInputRef}
+                type="file"
+                accept=".geojson,.json"
+                className="hidden"
+                onChange={handleFile}
+              />
+            </div>
+          )}
+
+          {errors.length > 0 && (
+            <div className="p-2 rounded bg-red-900/30 border border-red-500/30 text-red-300">
+              <div className="flex justify-between items-center mb-1">
+                <span className="font-bold">{t('hazardNotImported', { count: errors.length })}</span>
+                <button onClick={() => setErrors([])} className="underline">{t('dismiss')}</button>
+              </div>
+              <ul className="max-h-24 overflow-y-auto space-y-0.5">
+                {errors.map((err, i) => (
+                  <li key={i}>
+                    {err.index >= 0 ? `#${err.index + 1}` : t('importFile')}
+                    {err.id && ` (${err.id})`}: {err.message}
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,125 @@
+import React from 'react';
+import { EmergencyReport, HazardZone, ReportStatus, ResponderUnit } from '../types';
+import { StatusBadge, StatusControls } from './StatusControls';
+import { ReportTranscript } from './TranscriptView';
+import { CallRecordingPlayer } from './CallRecordingPlayer';
+import { isActiveStatus } from '../services/reportWorkflow';
+import { PRIORITY_STYLES } from '../services/triage';
+import { UNIT_KIND_GLYPHS, UnitRecommendation } from '../services/responderUnits';
+import { formatDistance } from '../services/geoUtils';
+import { hazardKindLabel, Language, languageName, locationSourceLabel, priorityLabel, translate } from '../services/i18n';
+import { HAZARD_KIND_COLORS } from '../services/hazardZones';
+
+interface IncidentCardProps {
+  report: EmergencyReport;
+  onStatusChange: (reportId: string, to: ReportStatus, reason?: string) => void;
+  assignedUnit?: ResponderUnit;
+  recommendation?: UnitRecommendation; // Only passed while the report can still be dispatched
+  onAssignUnit: (reportId: string, unitId: string) => void;
+  hazardZones?: HazardZone[]; // Zones the report falls inside
+  selected?: boolean;
+  onOpen?: (reportId: string) => void;
+  language: Language; // For the badges, status controls and recording player
+}
+
+export const PriorityBadge: React.FC<{ report: EmergencyReport; language: Language }> = ({ report, language }) => {
+  if (!report.triage) return null;
+  const { priority, score, factors } = report.triage;
+
+  return (
+    <span
+      className={`text-[10px] px-1.5 py-0.5 rounded-full border uppercase tracking-wider ${PRIORITY_STYLES[priority].badge}`}
+      title={`Score ${score}: ${factors.join(', ')}`}
+    >
+      {priorityLabel(language, priority)}
+    </span>
+  );
+};
+
+// Warns that the pin is a guess until a dispatcher verifies or moves it
+export const LocationFlag: React.FC<{ report: EmergencyReport; language: Language }> = ({ report, language }) => {
+  const info = report.locationInfo;
+  if (!info?.flagged) return null;
+
+  return (
+    <span
+      className="text-[10px] px-1.5 py-0.5 rounded-full border border-amber-500/60 bg-amber-500/20 text-amber-500 uppercase tracking-wider"
+      title={translate(language, 'locationConfidence', {
+        source: `${locationSourceLabel(language, info.source)}${info.label ? ` (${info.label})` : ''}`,
+        percent: Math.round(info.confidence * 100)
+      })}
+    >
+      ⚠ {translate(language, 'locationUnverified')}
+    </span>
+  );
+};
+
+export const HazardZoneTags: React.FC<{ zones: HazardZone[]; language: Language }> = ({ zones, language }) => (
+  <>
+    {zones.map(zone => (
+      <span
+        key={zone.id}
+        className="text-[10px] px-1.5 py-0.5 rounded-full border uppercase tracking-wider"
+        style={{ borderColor: HAZARD_KIND_COLORS[zone.kind], color: HAZARD_KIND_COLORS[zone.kind] }}
+        title={hazardKindLabel(language, zone.kind)}
+      >
+        ⛔ {zone.name}
+      </span>
+    ))}
+  </>
+);
+
+export const IncidentCard: React.FC<IncidentCardProps> = ({
+  report, onStatusChange, assignedUnit, recommendation, onAssignUnit, hazardZones = [], selected = false, onOpen, language
+}) => {
+  const border = report.triage ? PRIORITY_STYLES[report.triage.priority].border : 'border-red-500';
+
+  return (
+    <div
+      onClick={() => onOpen?.(report.id)}
+      className={`p-3 rounded-lg border-l-2 ${border} ${selected ? 'bg-gray-600/60 ring-1 ring-blue-500/60' : 'bg-gray-700/40'} hover:bg-gray-700/60 transition-colors ${onOpen ? 'cursor-pointer' : ''} ${isActiveStatus(report.status) ? '' : 'opacity-60'}`}
+    >
+      <div className="flex justify-between items-start mb-1">
+        <span className="font-bold text-red-400 text-xs uppercase tracking-wider">{report.emergencyType}</span>
+        <span className="text-[10px] text-gray-400 font-mono">{new Date(report.timestamp).toLocaleTimeString([], {hour: '2-digit', minute:'2-digit'})}</span>
+      </div>
+      <div className="flex flex-wrap gap-1 mb-1">
+        <PriorityBadge report={report} language={language} />
+        <StatusBadge status={report.status} language={language} />
+        <LocationFlag report={report} language={language} />
+        <HazardZoneTags zones={hazardZones} language={language} />
+      </div>
+      <p className="text-xs text-gray-300 line-clamp-2 leading-relaxed">{report.description}</p>
+      {report.originalDescription && (
+        <p className="mt-0.5 text-[11px] text-gray-400 italic line-clamp-2" lang={report.language}>
+          {languageName(report.language)}: {report.originalDescription}
+        </p>
+      )}
+      {assignedUnit && (
+        <p className="mt-1 text-[11px] text-purple-300">
+          {UNIT_KIND_GLYPHS[assignedUnit.kind]} {assignedUnit.name} assigned
+        </p>
+      )}
+      {recommendation && (
+        <div className="mt-1 flex items-center gap-2 text-[11px] text-sky-300">
+          <span title={recommendation.missing.length > 0 ? `Missing: ${recommendation.missing.join(', ')}` : 'Covers all needs'}>
+            {UNIT_KIND_GLYPHS[recommendation.unit.kind]} {recommendation.unit.name} · {formatDistance(recommendation.distanceMeters)}
+            {recommendation.missing.length > 0 && ' (partial)'}
+          </span>
+          <button
+            onClick={(e) => { e.stopPropagation(); onAssignUnit(report.id, recommendation.unit.id); }}
+            className="ml-auto text-[10px] px-2 py-0.5 rounded bg-sky-600/60 hover:bg-sky-500 text-white"
+          >
+            Assign
+          </button>
+        </div>
+      )}
+      {(report.attachmentIds?.length ?? 0) > 0 && (
+        <p className="mt-1 text-[10px] text-gray-400">📎 {report.attachmentIds!.length} attached</p>
+      )}
+      <ReportTranscript transcript={report.transcript} />
+      <CallRecordingPlayer language={language} recordingId={report.recordingId} />
+      <StatusControls report={report} onStatusChange={onStatusChange} language={language} />
+    </div>
+  );
+};
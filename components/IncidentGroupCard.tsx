@@ -0,0 +1,106 @@
+import React, { useState } from 'react';
+import { EmergencyReport, Incident } from '../types';
+import { PRIORITY_STYLES } from '../services/triage';
+import { Language, priorityLabel } from '../services/i18n';
+import { StatusBadge } from './StatusControls';
+
+interface IncidentGroupCardProps {
+  incident: Incident;
+  reports: EmergencyReport[]; // Member reports, in any order
+  selected: boolean;
+  onToggleSelect: (incidentId: string) => void;
+  onConfirm: (incident: Incident) => void;
+  onSplit: (incident: Incident, reportId: string) => void;
+  language: Language; // For the priority and status badges
+}
+
+export const IncidentGroupCard: React.FC<IncidentGroupCardProps> = ({
+  incident,
+  reports,
+  selected,
+  onToggleSelect,
+  onConfirm,
+  onSplit,
+  language
+}) => {
+  const [expanded, setExpanded] = useState(false);
+  const border = incident.priority ? PRIORITY_STYLES[incident.priority].border : 'border-gray-500';
+  const members = [...reports].sort((a, b) => a.timestamp - b.timestamp);
+
+  return (
+    <div className={`p-3 bg-gray-700/40 rounded-lg border-l-2 ${border} ${incident.activeCount === 0 ? 'opacity-60' : ''}`}>
+      <div className="flex justify-between items-start mb-1 gap-2">
+        <label className="flex items-center gap-2 cursor-pointer">
+          <input
+            type="checkbox"
+            checked={selected}
+            onChange={() => onToggleSelect(incident.id)}
+            aria-label="Select incident for merging"
+          />
+          <span className="font-bold text-red-400 text-xs uppercase tracking-wider">{incident.emergencyType}</span>
+        </label>
+        <span className="text-[10px] text-gray-400 font-mono">
+          {new Date(incident.lastReportedAt).toLocaleTimeString([], {hour: '2-digit', minute:'2-digit'})}
+        </span>
+      </div>
+
+      <div className="flex flex-wrap gap-1 mb-1">
+        {incident.priority && (
+          <span className={`text-[10px] px-1.5 py-0.5 rounded-full border uppercase tracking-wider ${PRIORITY_STYLES[incident.priority].badge}`}>
+            {priorityLabel(language, incident.priority)}
+          </span>
+        )}
+        <span className="text-[10px] px-1.5 py-0.5 rounded-full border border-gray-500/40 text-gray-300">
+          {incident.reportIds.length} {incident.reportIds.length === 1 ? 'call' : 'calls'}
+        </span>
+        {!incident.confirmed && (
+          <span className="text-[10px] px-1.5 py-0.5 rounded-full border border-purple-500/40 bg-purple-500/20 text-purple-300">
+            Proposed
+          </span>
+        )}
+      </div>
+
+      <p className="text-xs text-gray-300">
+        People: {incident.totalPeople || 'Unknown'}
+        {incident.reportIds.length > 1 && incident.maxPeople > 0 && ` (largest single report ${incident.maxPeople})`}
+      </p>
+      {incident.criticalNeeds.length > 0 && (
+        <p className="text-xs text-gray-400">Needs: {incident.criticalNeeds.join(', ')}</p>
+      )}
+
+      <div className="flex gap-2 mt-2">
+        {!incident.confirmed && (
+          <button
+            onClick={() => onConfirm(incident)}
+            className="text-[10px] px-2 py-0.5 rounded bg-purple-600/60 hover:bg-purple-500 text-white"
+          >
+            Confirm grouping
+          </button>
+        )}
+        <button onClick={() => setExpanded(!expanded)} className="text-[10px] underline text-gray-400">
+          {expanded ? 'Hide calls' : 'Show calls'}
+        </button>
+      </div>
+
+      {expanded && (
+        <ul className="mt-2 space-y-1">
+          {members.map(r => (
+            <li key={r.id} className="text-[11px] text-gray-300 bg-gray-800/60 rounded p-2">
+              <div className="flex justify-between items-center gap-2">
+                <span className="font-mono text-gray-500">{new Date(r.timestamp).toLocaleTimeString([], {hour: '2-digit', minute:'2-digit'})}</span>
+                <StatusBadge status={r.status} language={language} />
+                {incident.proposedReportIds.includes(r.id) && <span className="text-purple-300 text-[10px]">proposed</span>}
+                {members.length > 1 && (
+                  <button onClick={() => onSplit(incident, r.id)} className="ml-auto text-[10px] underline text-gray-400">
+                    Split out
+                  </button>
+                )}
+              </div>
+              <p className="line-clamp-2">{r.description}</p>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
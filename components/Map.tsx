@@ -1,113 +1,438 @@
-import React, { useEffect } from 'react';
-import { MapContainer, TileLayer, Marker, Popup, useMap } from 'react-leaflet';
-import { EmergencyReport, GeoLocation } from '../types';
-import L from 'leaflet';
-
-// Fix for default Leaflet marker icons in webpack/react environments
-const iconUrl = "https://unpkg.com/leaflet@1.9.4/dist/images/marker-icon.png";
-const iconRetinaUrl = "https://unpkg.com/leaflet@1.9.4/dist/images/marker-icon-2x.png";
-const shadowUrl = "https://unpkg.com/leaflet@1.9.4/dist/images/marker-shadow.png";
-
-const DefaultIcon = L.icon({
-    iconUrl,
-    iconRetinaUrl,
-    shadowUrl,
-    iconSize: [25, 41],
-    iconAnchor: [12, 41],
-    popupAnchor: [1, -34],
-    shadowSize: [41, 41]
-});
-
-L.Marker.prototype.options.icon = DefaultIcon;
-
-// Custom red icon for emergencies
-const EmergencyIcon = L.icon({
-    iconUrl: "https://raw.githubusercontent.com/pointhi/leaflet-color-markers/master/img/marker-icon-2x-red.png",
-    shadowUrl: "https://cdnjs.cloudflare.com/ajax/libs/leaflet/0.7.7/images/marker-shadow.png",
-    iconSize: [25, 41],
-    iconAnchor: [12, 41],
-    popupAnchor: [1, -34],
-    shadowSize: [41, 41]
-});
+import React, { useEffect, useMemo, useState } from 'react';
+import type { DragEndEvent, LeafletMouseEvent, Map as LeafletMap, Marker as LeafletMarker } from 'leaflet';
+import { MapContainer, TileLayer, Marker, Popup, CircleMarker, Polygon, Polyline, useMap, useMapEvents } from 'react-leaflet';
+import { EmergencyReport, GeoLocation, HazardKind, HazardZone, Incident, Priority, ReportStatus, ResponderUnit, UnitAvailability } from '../types';
+import { StatusBadge, StatusControls } from './StatusControls';
+import { HazardZoneTags, LocationFlag, PriorityBadge } from './IncidentCard';
+import { MapLayerControls } from './MapLayerControls';
+import { OfflineMapControls } from './OfflineMapControls';
+import { HazardZoneControls } from './HazardZoneControls';
+import { clusterIcon, iconForIncident, iconForReport, PRIORITY_COLORS, unitIcon } from './mapIcons';
+import { UNIT_KIND_LABELS } from '../services/responderUnits';
+import { DEFAULT_CENTER } from '../services/geoUtils';
+import { TILE_URL_TEMPLATE } from '../services/tileCache';
+import { hazardKindLabel, Language, languageName, translate } from '../services/i18n';
+import { createZone, HAZARD_KIND_COLORS } from '../services/hazardZones';
+import {
+  CLUSTER_MAX_ZOOM,
+  clusterByGrid,
+  DEFAULT_MAP_LAYERS,
+  filterIncidents,
+  filterReports,
+  MapLayerSettings,
+  PointCluster
+} from '../services/mapLayers';
+
+const CLUSTER_CELL_PX = 80;
+const HEAT_CELL_PX = 40;
+const PRIORITY_ORDER: Priority[] = ['critical', 'high', 'medium', 'low'];
 
 interface MapProps {
   userLocation: GeoLocation | null;
   reports: EmergencyReport[];
+  incidents?: Incident[] | null; // When set, one marker per incident replaces the per-call markers
+  units: ResponderUnit[];
+  onStatusChange: (reportId: string, to: ReportStatus, reason?: string) => void;
+  onUnitAvailabilityChange: (unitId: string, availability: UnitAvailability) => void;
+  onLocationCorrected: (reportId: string, location: GeoLocation) => void;
+  hazardZones: HazardZone[];
+  onSaveHazardZones: (...zones: HazardZone[]) => void;
+  onDeleteHazardZone: (zoneId: string) => void;
+  focusedReport?: EmergencyReport | null; // Report open in the detail panel
+  onOpenReport: (reportId: string) => void;
+  language: Language; // For the popups and hazard zone controls
 }
 
 // Component to handle flying to new locations/reports
-const MapUpdater: React.FC<{ center: GeoLocation | null, reports: EmergencyReport[] }> = ({ center, reports }) => {
+const MapUpdater: React.FC<{ center: GeoLocation | null, reports: EmergencyReport[], autoFly: boolean }> = ({ center, reports, autoFly }) => {
   const map = useMap();
-  
+
   useEffect(() => {
     // Invalidate size to ensure map fills container properly
     setTimeout(() => {
       map.invalidateSize();
     }, 100);
   }, [map]);
-  
+
+  // Keyed on the newest report only, so status changes and re-scoring don't re-fly
+  const latest = reports.length > 0 ? reports[0] : null;
+
   useEffect(() => {
-    // If a new report comes in (reports array changes and has length), fly to it
-    if (reports.length > 0) {
-      const latest = reports[0];
-      map.flyTo([latest.location.lat, latest.location.lng], 15, { animate: true });
+    // If a new report comes in, fly to it
+    if (latest) {
+      if (autoFly) map.flyTo([latest.location.lat, latest.location.lng], 15, { animate: true });
     } else if (center) {
       // Initial center
       map.setView([center.lat, center.lng], 13);
     }
-  }, [center, reports, map]);
+  }, [center, latest?.id, map]);
 
   return null;
 };
 
-export const Map: React.FC<MapProps> = ({ userLocation, reports }) => {
-  const center = userLocation || { lat: 34.0522, lng: -118.2437 }; // Default LA
+// Centers on the report opened in the detail panel, once per opening
+const FocusReport: React.FC<{ report: EmergencyReport | null }> = ({ report }) => {
+  const map = useMap();
+  useEffect(() => {
+    if (report) map.flyTo([report.location.lat, report.location.lng], Math.max(map.getZoom(), 15), { animate: true });
+  }, [report?.id, map]);
+  return null;
+};
+
+// Tracks zoom so clustering and the heatmap re-bin as the view changes
+const useZoomLevel = () => {
+  const map = useMap();
+  const [zoom, setZoom] = useState(map.getZoom());
+  useMapEvents({ zoomend: () => setZoom(map.getZoom()) });
+  return zoom;
+};
+
+const useProjector = () => {
+  const map = useMap();
+  return (location: GeoLocation) => map.project([location.lat, location.lng], map.getZoom());
+};
+
+// Generic marker layer that collapses nearby markers into count bubbles when zoomed out
+function ClusteredMarkers<T>({ items, enabled, locate, priorityOf, renderMarker }: {
+  items: T[];
+  enabled: boolean;
+  locate: (item: T) => GeoLocation;
+  priorityOf: (item: T) => Priority | undefined;
+  renderMarker: (item: T) => React.ReactNode;
+}) {
+  const map = useMap();
+  const zoom = useZoomLevel();
+  const project = useProjector();
+
+  const clusters: PointCluster<T>[] = useMemo(
+    () => enabled && zoom < CLUSTER_MAX_ZOOM
+      ? clusterByGrid(items, locate, project, CLUSTER_CELL_PX)
+      : items.map((item, i) => ({ key: String(i), location: locate(item), items: [item] })),
+    [items, enabled, zoom]
+  );
+
+  return (
+    <>
+      {clusters.map(cluster => {
+        if (cluster.items.length === 1) return renderMarker(cluster.items[0]);
+
+        const priorities = cluster.items.map(priorityOf);
+        const top = PRIORITY_ORDER.find(p => priorities.includes(p)) ?? 'low';
+        return (
+          <Marker
+            key={`cluster-${cluster.key}`}
+            position={[cluster.location.lat, cluster.location.lng]}
+            icon={clusterIcon(cluster.items.length, PRIORITY_COLORS[top])}
+            eventHandlers={{
+              click: () => map.flyTo([cluster.location.lat, cluster.location.lng], Math.min(zoom + 2, CLUSTER_MAX_ZOOM))
+            }}
+          />
+        );
+      })}
+    </>
+  );
+}
+
+// Density approximation: translucent circles per screen cell, stronger where reports pile up
+const HeatLayer: React.FC<{ points: GeoLocation[] }> = ({ points }) => {
+  const zoom = useZoomLevel();
+  const project = useProjector();
+
+  const cells = useMemo(
+    () => clusterByGrid(points, (p: GeoLocation) => p, project, HEAT_CELL_PX),
+    [points, zoom]
+  );
+  const max = Math.max(1, ...cells.map(c => c.items.length));
+
+  return (
+    <>
+      {cells.map(cell => {
+        const intensity = cell.items.length / max;
+        return (
+          <CircleMarker
+            key={`heat-${cell.key}`}
+            center={[cell.location.lat, cell.location.lng]}
+            radius={HEAT_CELL_PX * (0.6 + intensity * 0.6)}
+            pathOptions={{
+              stroke: false,
+              fillColor: intensity > 0.66 ? '#dc2626' : intensity > 0.33 ? '#f97316' : '#eab308',
+              fillOpacity: 0.15 + intensity * 0.35
+            }}
+            interactive={false}
+          />
+        );
+      })}
+    </>
+  );
+};
+
+const toLatLngs = (polygons: GeoLocation[][][]) =>
+  polygons.map(rings => rings.map(ring => ring.map(p => [p.lat, p.lng] as [number, number])));
+
+// Zone overlays; inactive zones stay visible but faded and dashed
+const HazardZoneLayer: React.FC<{ zones: HazardZone[]; reports: EmergencyReport[]; interactive: boolean; language: Language }> = ({ zones, reports, interactive, language }) => (
+  <>
+    {zones.map(zone => (
+      <Polygon
+        key={zone.id}
+        positions={toLatLngs(zone.polygons)}
+        interactive={interactive}
+        pathOptions={{
+          color: HAZARD_KIND_COLORS[zone.kind],
+          weight: 2,
+          dashArray: zone.active ? undefined : '6 6',
+          opacity: zone.active ? 0.9 : 0.4,
+          fillOpacity: zone.active ? 0.15 : 0.05
+        }}
+      >
+        <Popup>
+          <div className="text-gray-900">
+            <strong className="block text-xs uppercase" style={{ color: HAZARD_KIND_COLORS[zone.kind] }}>{hazardKindLabel(language, zone.kind)}</strong>
+            <p className="m-0 text-sm font-semibold">{zone.name}</p>
+            <p className="m-0 text-xs text-gray-500">
+              {zone.active
+                ? translate(language, 'hazardReportsInside', { count: reports.filter(r => r.hazardZoneIds?.includes(zone.id)).length })
+                : translate(language, 'hazardInactive')}
+            </p>
+          </div>
+        </Popup>
+      </Polygon>
+    ))}
+  </>
+);
+
+// Collects clicks as polygon corners while a zone is being drawn
+const DraftZoneLayer: React.FC<{ points: GeoLocation[]; kind: HazardKind; onAddPoint: (point: GeoLocation) => void }> = ({ points, kind, onAddPoint }) => {
+  useMapEvents({ click: (e: LeafletMouseEvent) => onAddPoint({ lat: e.latlng.lat, lng: e.latlng.lng }) });
+  const positions = points.map(p => [p.lat, p.lng] as [number, number]);
+  const color = HAZARD_KIND_COLORS[kind];
 
   return (
-    <MapContainer 
-      center={[center.lat, center.lng]} 
-      zoom={13} 
-      scrollWheelZoom={true} 
-      className="w-full h-full z-0"
-      style={{ width: '100%', height: '100%' }}
+    <>
+      {points.length >= 3
+        ? <Polygon positions={positions} interactive={false} pathOptions={{ color, weight: 2, dashArray: '4 4', fillOpacity: 0.1 }} />
+        : <Polyline positions={positions} interactive={false} pathOptions={{ color, weight: 2, dashArray: '4 4' }} />}
+      {points.map((p, i) => (
+        <CircleMarker key={i} center={[p.lat, p.lng]} radius={4} interactive={false} pathOptions={{ color, fillOpacity: 1 }} />
+      ))}
+    </>
+  );
+};
+
+export const Map: React.FC<MapProps> = ({
+  userLocation, reports, incidents, units, onStatusChange, onUnitAvailabilityChange, onLocationCorrected,
+  hazardZones, onSaveHazardZones, onDeleteHazardZone, focusedReport = null, onOpenReport, language
+}) => {
+  const center = userLocation || DEFAULT_CENTER;
+  const [layers, setLayers] = useState<MapLayerSettings>(DEFAULT_MAP_LAYERS);
+  const [movableReportId, setMovableReportId] = useState<string | null>(null);
+  const [leafletMap, setLeafletMap] = useState<LeafletMap | null>(null);
+  const [draftZone, setDraftZone] = useState<GeoLocation[] | null>(null);
+  const [draftKind, setDraftKind] = useState<HazardKind>('flood');
+
+  const zonesById = useMemo(() => new globalThis.Map(hazardZones.map(z => [z.id, z])), [hazardZones]);
+  const zonesOf = (report: EmergencyReport) =>
+    (report.hazardZoneIds ?? []).map(id => zonesById.get(id)).filter((z): z is HazardZone => !!z);
+
+  const finishDraftZone = (name: string, kind: HazardKind) => {
+    if (!draftZone || draftZone.length < 3) return;
+    onSaveHazardZones(createZone(name, kind, draftZone));
+    setDraftZone(null);
+  };
+
+  const visibleReports = useMemo(() => filterReports(reports, layers.filters), [reports, layers.filters]);
+  const visibleIncidents = useMemo(
+    () => incidents ? filterIncidents(incidents, layers.filters) : null,
+    [incidents, layers.filters]
+  );
+
+  const renderIncident = (incident: Incident) => (
+    <Marker
+      key={incident.id}
+      position={[incident.location.lat, incident.location.lng]}
+      icon={iconForIncident(incident)}
     >
-      <TileLayer
-        attribution='&copy; <a href="https://www.openstreetmap.org/copyright">OpenStreetMap</a> contributors'
-        url="https://{s}.tile.openstreetmap.org/{z}/{x}/{y}.png"
-        maxZoom={19}
-        minZoom={1}
-        tileSize={256}
-      />
-      
-      <MapUpdater center={userLocation} reports={reports} />
-      
-      {/* User Location */}
-      {userLocation && (
-        <Marker position={[userLocation.lat, userLocation.lng]}>
-          <Popup>You are here</Popup>
-        </Marker>
-      )}
-
-      {/* Reports */}
-      {reports.map((report) => (
-        <Marker 
-          key={report.id} 
-          position={[report.location.lat, report.location.lng]}
-          icon={EmergencyIcon}
-        >
-          <Popup>
-            <div className="text-gray-900">
+      <Popup>
+        <div className="text-gray-900">
+          <strong className="block text-red-600 uppercase text-xs">{incident.emergencyType}</strong>
+          <p className="m-0 text-sm font-semibold">
+            {incident.reportIds.length} {incident.reportIds.length === 1 ? 'call' : 'calls'}
+            {!incident.confirmed && ' (proposed grouping)'}
+          </p>
+          <div className="mt-1 text-xs text-gray-500">
+            <p>Needs: {incident.criticalNeeds.join(', ') || 'None specified'}</p>
+            <p>People: {incident.totalPeople || 'Unknown'}</p>
+            <p>
+              {new Date(incident.firstReportedAt).toLocaleTimeString()}
+              {incident.lastReportedAt !== incident.firstReportedAt && ` – ${new Date(incident.lastReportedAt).toLocaleTimeString()}`}
+            </p>
+          </div>
+        </div>
+      </Popup>
+    </Marker>
+  );
+
+  const renderReport = (report: EmergencyReport) => {
+    // Unverified pins can be dragged straight away; others after "Adjust pin"
+    const draggable = !!report.locationInfo?.flagged || movableReportId === report.id;
+
+    return (
+      <Marker
+        key={report.id}
+        position={[report.location.lat, report.location.lng]}
+        icon={iconForReport(report)}
+        draggable={draggable}
+        eventHandlers={{
+          dragend: (e: DragEndEvent) => {
+            const { lat, lng } = (e.target as LeafletMarker).getLatLng();
+            setMovableReportId(null);
+            onLocationCorrected(report.id, { lat, lng });
+          }
+        }}
+      >
+        <Popup>
+          <div className="text-gray-900">
+            <div className="flex items-center justify-between gap-2">
               <strong className="block text-red-600 uppercase text-xs">{report.emergencyType}</strong>
-              <p className="m-0 text-sm font-semibold">{report.description}</p>
-              <div className="mt-1 text-xs text-gray-500">
-                <p>Needs: {report.criticalNeeds || 'None specified'}</p>
-                <p>People: {report.peopleCount || 'Unknown'}</p>
-                <p>{new Date(report.timestamp).toLocaleTimeString()}</p>
+              <div className="flex gap-1">
+                <PriorityBadge report={report} language={language} />
+                <StatusBadge status={report.status} language={language} />
               </div>
             </div>
-          </Popup>
-        </Marker>
-      ))}
-    </MapContainer>
+            <p className="m-0 text-sm font-semibold">{report.description}</p>
+            {report.originalDescription && (
+              <p className="m-0 text-xs italic text-gray-600" lang={report.language}>
+                {languageName(report.language)}: {report.originalDescription}
+              </p>
+            )}
+            <div className="mt-1 text-xs text-gray-500">
+              <p>{translate(language, 'fieldNeeds')}: {report.criticalNeeds || translate(language, 'needsNone')}</p>
+              <p>{translate(language, 'fieldPeople')}: {report.peopleCount || translate(language, 'peopleUnknown')}</p>
+              <p>{new Date(report.timestamp).toLocaleTimeString()}</p>
+            </div>
+            <div className="mt-1 flex items-center gap-2">
+              <LocationFlag report={report} language={language} />
+              <HazardZoneTags zones={zonesOf(report)} language={language} />
+              <button
+                onClick={() => onOpenReport(report.id)}
+                className="ml-auto text-[10px] px-2 py-0.5 rounded bg-gray-200 hover:bg-gray-300 text-gray-800"
+              >
+                {translate(language, 'details')}
+              </button>
+              <button
+                onClick={() => setMovableReportId(movableReportId === report.id ? null : report.id)}
+                className="text-[10px] px-2 py-0.5 rounded bg-gray-200 hover:bg-gray-300 text-gray-800"
+              >
+                {translate(language, draggable ? 'dragPin' : 'adjustPin')}
+              </button>
+            </div>
+            <StatusControls report={report} onStatusChange={onStatusChange} variant="light" language={language} />
+          </div>
+        </Popup>
+      </Marker>
+    );
+  };
+
+  return (
+    <div className="relative w-full h-full">
+      <MapContainer
+        center={[center.lat, center.lng]}
+        zoom={13}
+        scrollWheelZoom={true}
+        className="w-full h-full z-0"
+        style={{ width: '100%', height: '100%' }}
+        ref={setLeafletMap}
+      >
+        <TileLayer
+          attribution='&copy; <a href="https://www.openstreetmap.org/copyright">OpenStreetMap</a> contributors'
+          url={TILE_URL_TEMPLATE}
+          maxZoom={19}
+          minZoom={1}
+          tileSize={256}
+        />
+
+        <MapUpdater center={userLocation} reports={reports} autoFly={layers.autoFly} />
+        <FocusReport report={focusedReport} />
+
+        {/* Hazard zones, drawn under everything else */}
+        {layers.showHazardZones && <HazardZoneLayer zones={hazardZones} reports={reports} interactive={!draftZone} language={language} />}
+        {draftZone && (
+          <DraftZoneLayer points={draftZone} kind={draftKind} onAddPoint={p => setDraftZone(prev => prev ? [...prev, p] : prev)} />
+        )}
+
+        {/* Density heatmap, drawn under the markers */}
+        {layers.showHeatmap && <HeatLayer points={visibleReports.map(r => r.location)} />}
+
+        {/* User Location */}
+        {userLocation && (
+          <Marker position={[userLocation.lat, userLocation.lng]}>
+            <Popup>You are here</Popup>
+          </Marker>
+        )}
+
+        {/* Responder Units */}
+        {units.map(unit => (
+          <Marker key={unit.id} position={[unit.location.lat, unit.location.lng]} icon={unitIcon(unit)}>
+            <Popup>
+              <div className="text-gray-900">
+                <strong className="block text-sky-700 text-xs uppercase">{UNIT_KIND_LABELS[unit.kind]}</strong>
+                <p className="m-0 text-sm font-semibold">{unit.name}</p>
+                <div className="mt-1 text-xs text-gray-500">
+                  <p>Capabilities: {unit.capabilities.join(', ')}</p>
+                  <p className="capitalize">Status: {unit.availability}</p>
+                  {unit.assignedReportId && <p>Assigned to report {unit.assignedReportId}</p>}
+                </div>
+                {unit.availability !== 'busy' && (
+                  <button
+                    onClick={() => onUnitAvailabilityChange(unit.id, unit.availability === 'offline' ? 'available' : 'offline')}
+                    className="mt-2 text-[10px] px-2 py-0.5 rounded bg-gray-200 hover:bg-gray-300 text-gray-800"
+                  >
+                    {unit.availability === 'offline' ? 'Mark available' : 'Take offline'}
+                  </button>
+                )}
+              </div>
+            </Popup>
+          </Marker>
+        ))}
+
+        {/* Incidents */}
+        {visibleIncidents && (
+          <ClusteredMarkers
+            items={visibleIncidents}
+            enabled={layers.clusterMarkers}
+            locate={i => i.location}
+            priorityOf={i => i.activeCount > 0 ? i.priority : undefined}
+            renderMarker={renderIncident}
+          />
+        )}
+
+        {/* Reports */}
+        {!visibleIncidents && (
+          <ClusteredMarkers
+            items={visibleReports}
+            enabled={layers.clusterMarkers}
+            locate={r => r.location}
+            priorityOf={r => r.triage?.priority}
+            renderMarker={renderReport}
+          />
+        )}
+      </MapContainer>
+
+      <MapLayerControls settings={layers} onChange={setLayers} />
+      <OfflineMapControls map={leafletMap} />
+      <HazardZoneControls
+        zones={hazardZones}
+        draft={draftZone}
+        draftKind={draftKind}
+        onDraftKindChange={setDraftKind}
+        onStartDraft={() => setDraftZone([])}
+        onUndoPoint={() => setDraftZone(prev => prev ? prev.slice(0, -1) : prev)}
+        onCancelDraft={() => setDraftZone(null)}
+        onFinishDraft={finishDraftZone}
+        onSave={onSaveHazardZones}
+        onDelete={onDeleteHazardZone}
+        language={language}
+      />
+    </div>
   );
-};
\ No newline at end of file
+};
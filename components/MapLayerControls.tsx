@@ -0,0 +1,108 @@
+import React, { useState } from 'react';
+import { AdjustmentsHorizontalIcon } from '@heroicons/react/24/solid';
+import { ReportStatus } from '../types';
+import { EMERGENCY_TYPES, EmergencyType } from '../services/reportValidation';
+import { STATUS_LABELS } from '../services/reportWorkflow';
+import { MapLayerSettings, TIME_RANGE_OPTIONS, TYPE_GLYPHS } from '../services/mapLayers';
+
+interface MapLayerControlsProps {
+  settings: MapLayerSettings;
+  onChange: (settings: MapLayerSettings) => void;
+}
+
+const toggle = <T,>(list: T[], value: T): T[] =>
+  list.includes(value) ? list.filter(v => v !== value) : [...list, value];
+
+export const MapLayerControls: React.FC<MapLayerControlsProps> = ({ settings, onChange }) => {
+  const [open, setOpen] = useState(false);
+  const { filters } = settings;
+  const activeFilterCount = filters.types.length + filters.statuses.length + (filters.timeRangeHours !== null ? 1 : 0);
+
+  const setFilters = (patch: Partial<MapLayerSettings['filters']>) =>
+    onChange({ ...settings, filters: { ...filters, ...patch } });
+
+  return (
+    <div className="absolute top-24 right-4 z-[1000] text-xs text-white">
+      <button
+        onClick={() => setOpen(!open)}
+        className="ml-auto flex items-center gap-1 p-2 bg-gray-800/90 rounded-full shadow-lg border border-gray-700 hover:bg-gray-700"
+        aria-label="Map layers and filters"
+      >
+        <AdjustmentsHorizontalIcon className="w-5 h-5" />
+        {activeFilterCount > 0 && (
+          <span className="px-1.5 rounded-full bg-blue-600 text-[10px]">{activeFilterCount}</span>
+        )}
+      </button>
+
+      {open && (
+        <div className="mt-2 w-64 max-h-[60vh] overflow-y-auto bg-gray-800/95 backdrop-blur-md rounded-xl border border-gray-700 shadow-2xl p-3 space-y-3">
+          <section>
+            <h4 className="font-bold mb-1 text-gray-300">Layers</h4>
+            <label className="flex items-center gap-2">
+              <input type="checkbox" checked={settings.clusterMarkers} onChange={(e) => onChange({ ...settings, clusterMarkers: e.target.checked })} />
+              Cluster markers when zoomed out
+            </label>
+            <label className="flex items-center gap-2">
+              <input type="checkbox" checked={settings.showHeatmap} onChange={(e) => onChange({ ...settings, showHeatmap: e.target.checked })} />
+              Density heatmap
+            </label>
+            <label className="flex items-center gap-2">
+              <input type="checkbox" checked={settings.showHazardZones} onChange={(e) => onChange({ ...settings, showHazardZones: e.target.checked })} />
+              Hazard zones
+            </label>
+            <label className="flex items-center gap-2">
+              <input type="checkbox" checked={settings.autoFly} onChange={(e) => onChange({ ...settings, autoFly: e.target.checked })} />
+              Fly to new reports
+            </label>
+          </section>
+
+          <section>
+            <h4 className="font-bold mb-1 text-gray-300">Time range</h4>
+            <select
+              value={filters.timeRangeHours ?? ''}
+              onChange={(e) => setFilters({ timeRangeHours: e.target.value === '' ? null : Number(e.target.value) })}
+              className="w-full bg-gray-900/60 border border-gray-700 rounded px-1 py-0.5"
+            >
+              {TIME_RANGE_OPTIONS.map(o => (
+                <option key={o.label} value={o.hours ?? ''}>{o.label}</option>
+              ))}
+            </select>
+          </section>
+
+          <section>
+            <h4 className="font-bold mb-1 text-gray-300">Type</h4>
+            <div className="grid grid-cols-2 gap-x-2">
+              {EMERGENCY_TYPES.map((type: EmergencyType) => (
+                <label key={type} className="flex items-center gap-1">
+                  <input type="checkbox" checked={filters.types.includes(type)} onChange={() => setFilters({ types: toggle(filters.types, type) })} />
+                  <span>{TYPE_GLYPHS[type]} {type}</span>
+                </label>
+              ))}
+            </div>
+          </section>
+
+          <section>
+            <h4 className="font-bold mb-1 text-gray-300">Status</h4>
+            <div className="grid grid-cols-2 gap-x-2">
+              {(Object.keys(STATUS_LABELS) as ReportStatus[]).map(status => (
+                <label key={status} className="flex items-center gap-1">
+                  <input type="checkbox" checked={filters.statuses.includes(status)} onChange={() => setFilters({ statuses: toggle(filters.statuses, status) })} />
+                  {STATUS_LABELS[status]}
+                </label>
+              ))}
+            </div>
+          </section>
+
+          {activeFilterCount > 0 && (
+            <button
+              onClick={() => setFilters({ types: [], statuses: [], timeRangeHours: null })}
+              className="w-full py-1 rounded bg-gray-700 hover:bg-gray-600"
+            >
+              Clear filters
+            </button>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
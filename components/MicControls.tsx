@@ -0,0 +1,123 @@
+import React, { useEffect, useState } from 'react';
+import { AdjustmentsHorizontalIcon, MicrophoneIcon } from '@heroicons/react/24/solid';
+import { Language, translate, UiStringKey } from '../services/i18n';
+import { listMicrophones, MicSettings, TALK_MODES, TalkMode } from '../services/micSettings';
+
+const TALK_MODE_KEYS: Record<TalkMode, UiStringKey> = {
+  voice: 'talkModeVoice',
+  push: 'talkModePush',
+  open: 'talkModeOpen'
+};
+
+interface SettingsMenuProps {
+  language: Language;
+  settings: MicSettings;
+  onChange: (settings: MicSettings) => void;
+  disabled?: boolean; // The device and talk mode are fixed when the call connects
+}
+
+export const MicSettingsMenu: React.FC<SettingsMenuProps> = ({ language, settings, onChange, disabled }) => {
+  const [open, setOpen] = useState(false);
+  const [devices, setDevices] = useState<MediaDeviceInfo[]>([]);
+  const t = (key: UiStringKey, vars?: Record<string, string | number>) => translate(language, key, vars);
+
+  // Headsets come and go; keep the list current while the menu is open
+  useEffect(() => {
+    if (!open) return;
+    const refresh = () => {
+      listMicrophones().then(setDevices).catch(e => console.error('Failed to list microphones', e));
+    };
+    refresh();
+    navigator.mediaDevices?.addEventListener('devicechange', refresh);
+    return () => navigator.mediaDevices?.removeEventListener('devicechange', refresh);
+  }, [open]);
+
+  // A remembered device that is not plugged in still shows, so the choice isn't silently lost
+  const selectedMissing = settings.deviceId !== null && !devices.some(d => d.deviceId === settings.deviceId);
+
+  return (
+    <div className="relative pointer-events-auto">
+      <button
+        onClick={() => setOpen(!open)}
+        disabled={disabled}
+        title={t('micSettings')}
+        aria-label={t('micSettings')}
+        className="p-2 rounded-full bg-gray-900/50 backdrop-blur-md border border-gray-700/50 shadow-lg disabled:opacity-60 text-gray-300"
+      >
+        <AdjustmentsHorizontalIcon className="w-4 h-4" />
+      </button>
+      {open && !disabled && (
+        <div className="absolute right-0 mt-2 w-72 bg-gray-800/95 backdrop-blur-md border border-gray-700 rounded-xl shadow-2xl p-3 space-y-3 text-xs text-gray-300">
+          <p className="font-bold text-white">{t('micSettings')}</p>
+          <label className="flex flex-col gap-1">
+            {t('micDevice')}
+            <select
+              value={settings.deviceId ?? ''}
+              onChange={(e) => onChange({ ...settings, deviceId: e.target.value || null })}
+              className="bg-gray-900/60 border border-gray-700 rounded px-1 py-0.5 text-gray-200 focus:outline-none"
+            >
+              <option value="">{t('micDefault')}</option>
+              {devices.map((device, i) => (
+                <option key={device.deviceId} value={device.deviceId}>{device.label || t('micUnnamed', { number: i + 1 })}</option>
+              ))}
+              {selectedMissing && <option value={settings.deviceId!}>{t('micUnnamed', { number: devices.length + 1 })}</option>}
+            </select>
+          </label>
+          {([
+            ['echoCancellation', 'echoCancellation'],
+            ['noiseSuppression', 'noiseSuppression'],
+            ['autoGainControl', 'autoGain']
+          ] as const).map(([field, key]) => (
+            <label key={field} className="flex items-center justify-between gap-2">
+              {t(key)}
+              <input
+                type="checkbox"
+                checked={settings[field]}
+                onChange={(e) => onChange({ ...settings, [field]: e.target.checked })}
+              />
+            </label>
+          ))}
+          <fieldset className="space-y-1">
+            <legend className="mb-1">{t('talkMode')}</legend>
+            {TALK_MODES.map(mode => (
+              <label key={mode} className="flex items-center gap-2">
+                <input
+                  type="radio"
+                  name="talk-mode"
+                  checked={settings.talkMode === mode}
+                  onChange={() => onChange({ ...settings, talkMode: mode })}
+                />
+                {t(TALK_MODE_KEYS[mode])}
+              </label>
+            ))}
+          </fieldset>
+        </div>
+      )}
+    </div>
+  );
+};
+
+interface PushToTalkProps {
+  language: Language;
+  pressed: boolean;
+  onChange: (pressed: boolean) => void;
+}
+
+// Held with a pointer; the space bar does the same from App
+export const PushToTalkButton: React.FC<PushToTalkProps> = ({ language, pressed, onChange }) => (
+  <button
+    onPointerDown={(e) => {
+      e.currentTarget.setPointerCapture(e.pointerId);
+      onChange(true);
+    }}
+    onPointerUp={() => onChange(false)}
+    onPointerCancel={() => onChange(false)}
+    onContextMenu={(e) => e.preventDefault()}
+    className={`flex items-center justify-center w-12 h-12 rounded-full border shadow-lg transition-colors select-none touch-none ${pressed ? 'bg-red-600 border-red-400' : 'bg-gray-800 border-gray-600 hover:bg-gray-700'}`}
+    aria-pressed={pressed}
+    aria-label={translate(language, pressed ? 'talking' : 'holdToTalk')}
+    title={translate(language, 'pushToTalkHint')}
+  >
+    <MicrophoneIcon className="w-6 h-6" />
+  </button>
+);
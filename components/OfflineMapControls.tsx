@@ -0,0 +1,181 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import type { Map as LeafletMap } from 'leaflet';
+import { CloudArrowDownIcon, SignalSlashIcon } from '@heroicons/react/24/solid';
+import { isOfflineReady } from '../services/offlineShell';
+import { formatBytes } from '../services/fileUtils';
+import {
+  estimateArea,
+  MAX_CACHE_BYTES,
+  MAX_CACHED_TILES,
+  MAX_PREFETCH_ZOOM,
+  TileBounds,
+  tileCache,
+  TileCacheStatus
+} from '../services/tileCache';
+
+interface OfflineMapControlsProps {
+  map: LeafletMap | null; // Leaflet map instance, once the container has mounted
+}
+
+const ZOOM_LEVELS = Array.from({ length: MAX_PREFETCH_ZOOM }, (_, i) => i + 1);
+
+const useOnline = () => {
+  const [online, setOnline] = useState(navigator.onLine);
+  useEffect(() => {
+    const update = () => setOnline(navigator.onLine);
+    window.addEventListener('online', update);
+    window.addEventListener('offline', update);
+    return () => {
+      window.removeEventListener('online', update);
+      window.removeEventListener('offline', update);
+    };
+  }, []);
+  return online;
+};
+
+const boundsOf = (map: LeafletMap): TileBounds => {
+  const b = map.getBounds();
+  return { north: b.getNorth(), south: b.getSouth(), east: b.getEast(), west: b.getWest() };
+};
+
+export const OfflineMapControls: React.FC<OfflineMapControlsProps> = ({ map }) => {
+  const [open, setOpen] = useState(false);
+  const [status, setStatus] = useState<TileCacheStatus>(tileCache.getStatus());
+  const [shellReady, setShellReady] = useState(isOfflineReady());
+  const [view, setView] = useState<{ bounds: TileBounds; zoom: number } | null>(null);
+  const [zoomRange, setZoomRange] = useState<[number, number] | null>(null);
+  const [message, setMessage] = useState<string | null>(null);
+  const online = useOnline();
+
+  useEffect(() => {
+    tileCache.onStatusChange = setStatus;
+    tileCache.refresh().catch(e => console.error('Failed to read tile cache', e));
+
+    const handleController = () => setShellReady(isOfflineReady());
+    navigator.serviceWorker?.addEventListener('controllerchange', handleController);
+    return () => {
+      tileCache.onStatusChange = null;
+      navigator.serviceWorker?.removeEventListener('controllerchange', handleController);
+    };
+  }, []);
+
+  // Track the visible area so "download this area" means what's on screen
+  useEffect(() => {
+    if (!map) return;
+    const update = () => setView({ bounds: boundsOf(map), zoom: Math.round(map.getZoom()) });
+    update();
+    map.on('moveend', update);
+    return () => { map.off('moveend', update); };
+  }, [map]);
+
+  const [minZoom, maxZoom] = zoomRange ?? (view
+    ? [Math.min(view.zoom, MAX_PREFETCH_ZOOM), Math.min(view.zoom + 3, MAX_PREFETCH_ZOOM)]
+    : [12, 15]);
+
+  // Only while the panel is open; the map moves far more often than anyone reads this
+  const estimate = useMemo(
+    () => open && view ? estimateArea(view.bounds, minZoom, maxZoom) : null,
+    [open, view, minZoom, maxZoom]
+  );
+
+  const handleDownload = async () => {
+    if (!view) return;
+    setMessage(null);
+    try {
+      await tileCache.downloadArea(view.bounds, minZoom, maxZoom);
+      const { failed, error } = tileCache.getStatus();
+      setMessage(error ?? (failed > 0 ? `Done, ${failed} tiles failed` : 'Area saved for offline use'));
+    } catch (e) {
+      setMessage(e instanceof Error ? e.message : 'Download failed');
+    }
+  };
+
+  const indicator = !online ? 'bg-red-500' : shellReady ? 'bg-green-500' : 'bg-yellow-500';
+  const progress = status.total > 0 ? Math.round(status.done / status.total * 100) : 0;
+
+  return (
+    <div className="absolute top-24 right-16 z-[1000] text-xs text-white">
+      <button
+        onClick={() => setOpen(!open)}
+        className="relative ml-auto flex items-center p-2 bg-gray-800/90 rounded-full shadow-lg border border-gray-700 hover:bg-gray-700"
+        aria-label="Offline maps"
+        title={online ? (shellReady ? 'Online · offline copy ready' : 'Online · offline copy not installed yet') : 'Offline'}
+      >
+        {online ? <CloudArrowDownIcon className="w-5 h-5" /> : <SignalSlashIcon className="w-5 h-5 text-red-400" />}
+        <span className={`absolute top-0 right-0 w-2.5 h-2.5 rounded-full border border-gray-800 ${indicator}`} />
+        {status.downloading && (
+          <span className="absolute -bottom-1 -left-1 px-1 rounded-full bg-blue-600 text-[9px]">{progress}%</span>
+        )}
+      </button>
+
+      {open && (
+        <div className="mt-2 w-64 bg-gray-800/95 backdrop-blur-md rounded-xl border border-gray-700 shadow-2xl p-3 space-y-3">
+          <section className="space-y-0.5">
+            <h4 className="font-bold mb-1 text-gray-300">Offline status</h4>
+            <p>Network: <span className={online ? 'text-green-400' : 'text-red-400'}>{online ? 'Online' : 'Offline'}</span></p>
+            <p>App shell: <span className={shellReady ? 'text-green-400' : 'text-yellow-400'}>{shellReady ? 'Cached' : 'Not installed yet'}</span></p>
+            <p>
+              Map tiles: {status.tileCount} / {MAX_CACHED_TILES} ({formatBytes(status.bytes)} of {formatBytes(MAX_CACHE_BYTES)})
+            </p>
+          </section>
+
+          <section className="space-y-1">
+            <h4 className="font-bold text-gray-300">Download this area</h4>
+            <div className="flex items-center gap-1">
+              <span>Zoom</span>
+              <select
+                value={minZoom}
+                onChange={(e) => { const z = Number(e.target.value); setZoomRange([z, Math.max(z, maxZoom)]); }}
+                className="bg-gray-900/60 border border-gray-700 rounded px-1 py-0.5"
+              >
+                {ZOOM_LEVELS.map(z => <option key={z} value={z}>{z}</option>)}
+              </select>
+              <span>to</span>
+              <select
+                value={maxZoom}
+                onChange={(e) => { const z = Number(e.target.value); setZoomRange([Math.min(minZoom, z), z]); }}
+                className="bg-gray-900/60 border border-gray-700 rounded px-1 py-0.5"
+              >
+                {ZOOM_LEVELS.map(z => <option key={z} value={z}>{z}</option>)}
+              </select>
+            </div>
+            {estimate && (
+              <p className={estimate.tiles > MAX_CACHED_TILES ? 'text-red-400' : 'text-gray-400'}>
+                ~{estimate.tiles} tiles, ~{formatBytes(estimate.bytes)}
+              </p>
+            )}
+
+            {status.downloading ? (
+              <>
+                <div className="h-1.5 rounded bg-gray-700 overflow-hidden">
+                  <div className="h-full bg-blue-500 transition-all" style={{ width: `${progress}%` }} />
+                </div>
+                <button onClick={() => tileCache.cancel()} className="w-full py-1 rounded bg-gray-700 hover:bg-gray-600">
+                  Cancel ({status.done}/{status.total})
+                </button>
+              </>
+            ) : (
+              <button
+                onClick={handleDownload}
+                disabled={!online || !view || !tileCache.isSupported}
+                className="w-full py-1 rounded bg-blue-600 hover:bg-blue-500 disabled:opacity-40"
+              >
+                Download this area
+              </button>
+            )}
+            {message && <p className="text-gray-300">{message}</p>}
+          </section>
+
+          {status.tileCount > 0 && !status.downloading && (
+            <button
+              onClick={() => { tileCache.clear().catch(e => console.error('Failed to clear tile cache', e)); setMessage(null); }}
+              className="w-full py-1 rounded bg-gray-700 hover:bg-gray-600"
+            >
+              Clear offline tiles
+            </button>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
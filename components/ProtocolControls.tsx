@@ -0,0 +1,168 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { ArrowDownTrayIcon, ArrowUpTrayIcon, CheckCircleIcon, ClipboardDocumentListIcon } from '@heroicons/react/24/solid';
+import { CallChecklist, DEFAULT_PROTOCOLS, missingItems, parseProtocolSet, ProtocolSet } from '../services/callProtocols';
+import { downloadFile } from '../services/fileUtils';
+import { Language, translate, UiStringKey } from '../services/i18n';
+
+const formatOffset = (ms: number) => {
+  const seconds = Math.max(0, Math.round(ms / 1000));
+  return `${Math.floor(seconds / 60)}:${String(seconds % 60).padStart(2, '0')}`;
+};
+
+// Re-renders every second so waiting times keep counting
+const useNow = (active: boolean) => {
+  const [now, setNow] = useState(Date.now());
+  useEffect(() => {
+    if (!active) return;
+    const timer = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(timer);
+  }, [active]);
+  return now;
+};
+
+/**
+ * What the dispatcher has gathered for the emergency being handled. The
+ * first missing detail shows how long the call has been waiting on it.
+ */
+export const CallChecklistPanel: React.FC<{ checklist: CallChecklist; language: Language }> = ({ checklist, language }) => {
+  const t = (key: UiStringKey, vars?: Record<string, string | number>) => translate(language, key, vars);
+  const filed = !!checklist.ticketId;
+  const now = useNow(!filed);
+  const missing = missingItems(checklist);
+  const lastGathered = Math.max(checklist.startedAt, ...checklist.items.map(item => item.gatheredAt ?? 0));
+  const stalledOn = filed ? undefined : missing[0];
+
+  return (
+    <section className="w-72 bg-gray-800/95 backdrop-blur-md rounded-xl border border-gray-700 shadow-2xl p-3 text-xs text-gray-300 pointer-events-auto" aria-label={t('callChecklist')}>
+      <div className="flex items-center justify-between mb-2">
+        <h4 className="font-bold text-white flex items-center gap-1.5">
+          <ClipboardDocumentListIcon className="w-4 h-4 text-blue-400" />
+          {t('protocolFor', { type: checklist.emergencyType ?? t('protocolCall') })}
+        </h4>
+        <span className="text-gray-400">
+          {checklist.items.length - missing.length}/{checklist.items.length} · v{checklist.protocolVersion}
+        </span>
+      </div>
+      <ul className="space-y-1">
+        {checklist.items.map(item => {
+          const gathered = item.gatheredAt !== undefined;
+          const stalled = item === stalledOn;
+          return (
+            <li key={item.key} className={`flex items-start gap-2 ${stalled ? 'text-yellow-300' : ''}`} title={item.question}>
+              {gathered
+                ? <CheckCircleIcon className="w-4 h-4 shrink-0 text-green-400" />
+                : <span className={`w-3.5 h-3.5 m-px shrink-0 rounded-full border ${filed ? 'border-red-400' : 'border-gray-500'}`} />}
+              <span className="flex-1 min-w-0">
+                <span className={gathered ? 'text-gray-200' : ''}>{item.label}</span>
+                {item.value && <span className="block truncate text-gray-400">{item.value}</span>}
+              </span>
+              <span className="font-mono text-gray-500 shrink-0">
+                {gathered && formatOffset(item.gatheredAt! - checklist.startedAt)}
+                {stalled && <span className="text-yellow-300">{t('checklistWaiting', { time: formatOffset(now - lastGathered) })}</span>}
+                {filed && !gathered && <span className="text-red-300">{t('checklistNotGiven')}</span>}
+              </span>
+            </li>
+          );
+        })}
+      </ul>
+      {filed && <p className="mt-2 text-green-300">{t('checklistFiled', { id: checklist.ticketId })}</p>}
+    </section>
+  );
+};
+
+interface ProtocolMenuProps {
+  protocols: ProtocolSet;
+  onChange: (protocols: ProtocolSet | null) => void; // Null restores the built-in protocols
+  disabled?: boolean; // Protocols are fixed for the length of a call
+  language: Language;
+}
+
+// Supervisors export the protocols, edit the JSON and import it again
+export const ProtocolMenu: React.FC<ProtocolMenuProps> = ({ protocols, onChange, disabled, language }) => {
+  const t = (key: UiStringKey, vars?: Record<string, string | number>) => translate(language, key, vars);
+  const [open, setOpen] = useState(false);
+  const [errors, setErrors] = useState<string[]>([]);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const custom = protocols !== DEFAULT_PROTOCOLS;
+  const questionCount = protocols.protocols.reduce((sum, p) => sum + (p.questions?.length ?? 0), 0);
+
+  const handleExport = () => {
+    downloadFile(JSON.stringify(protocols, null, 2), `call-protocols-v${protocols.version}.json`, 'application/json');
+  };
+
+  const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = ''; // Allow re-importing the same file
+    if (!file) return;
+
+    let text: string;
+    try {
+      text = await file.text();
+    } catch (err) {
+      console.error('Failed to read protocol file', err);
+      setErrors([t('fileReadFailed', { file: file.name })]);
+      return;
+    }
+    const result = parseProtocolSet(text);
+    if (result.ok === false) {
+      setErrors(result.errors);
+      return;
+    }
+    setErrors([]);
+    onChange(result.value);
+  };
+
+  return (
+    <div className="relative pointer-events-auto">
+      <button
+        onClick={() => setOpen(!open)}
+        disabled={disabled}
+        title={t('callProtocols')}
+        aria-label={t('callProtocols')}
+        className={`p-2 rounded-full bg-gray-900/50 backdrop-blur-md border border-gray-700/50 shadow-lg disabled:opacity-60 ${custom ? 'text-blue-400' : 'text-gray-300'}`}
+      >
+        <ClipboardDocumentListIcon className="w-4 h-4" />
+      </button>
+      {open && !disabled && (
+        <div className="absolute right-0 mt-2 w-72 bg-gray-800/95 backdrop-blur-md border border-gray-700 rounded-xl shadow-2xl p-3 space-y-3 text-xs text-gray-300">
+          <div>
+            <p className="font-bold text-white">{t('callProtocols')}</p>
+            <p className="text-gray-400">
+              {t('protocolSummary', {
+                version: protocols.version,
+                source: t(custom ? 'protocolImported' : 'protocolBuiltIn'),
+                types: protocols.protocols.length,
+                questions: questionCount
+              })}
+            </p>
+          </div>
+          <div className="flex gap-1">
+            <button onClick={handleExport} className="flex-1 flex items-center justify-center gap-1 py-1 rounded bg-gray-700 hover:bg-gray-600">
+              <ArrowDownTrayIcon className="w-3 h-3" /> {t('export')}
+            </button>
+            <button onClick={() => fileInputRef.current?.click()} className="flex-1 flex items-center justify-center gap-1 py-1 rounded bg-gray-700 hover:bg-gray-600">
+              <ArrowUpTrayIcon className="w-3 h-3" /> {t('import')}
+            </button>
+            <input ref={fileInputRef} type="file" accept=".json" className="hidden" onChange={handleFile} />
+          </div>
+          {custom && (
+            <button onClick={() => onChange(null)} className="text-red-300 underline hover:text-red-200">
+              {t('protocolRestore')}
+            </button>
+          )}
+          {errors.length > 0 && (
+            <div className="p-2 rounded bg-red-900/30 border border-red-500/30 text-red-300">
+              <div className="flex justify-between items-center mb-1">
+                <span className="font-bold">{t('protocolNotImported')}</span>
+                <button onClick={() => setErrors([])} className="underline">{t('dismiss')}</button>
+              </div>
+              <ul className="max-h-24 overflow-y-auto space-y-0.5">
+                {errors.map(error => <li key={error}>{error}</li>)}
+              </ul>
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,122 @@
+import React, { useEffect, useState } from 'react';
+import { MicrophoneIcon } from '@heroicons/react/24/solid';
+import { Language, translate, UiStringKey } from '../services/i18n';
+import { formatBytes } from '../services/fileUtils';
+import { recordingStore, RecordingSettings, RETENTION_OPTIONS } from '../services/recordingStore';
+
+interface ConsentNoticeProps {
+  language: Language;
+  retentionDays: number;
+  onAccept: () => void;
+  onDecline: () => void;
+}
+
+// Shown before every call that may be recorded; the answer applies to that call only
+export const RecordingConsentNotice: React.FC<ConsentNoticeProps> = ({ language, retentionDays, onAccept, onDecline }) => {
+  const retention = retentionDays > 0
+    ? translate(language, 'retentionDays', { days: retentionDays })
+    : translate(language, 'retentionForever');
+
+  return (
+    <div className="absolute inset-0 z-50 flex items-center justify-center bg-gray-900/70 backdrop-blur-sm p-4">
+      <div role="dialog" aria-modal="true" aria-labelledby="recording-notice-title" className="max-w-sm w-full bg-gray-800 border border-gray-700 rounded-2xl shadow-2xl p-5 space-y-4">
+        <h2 id="recording-notice-title" className="font-bold flex items-center gap-2">
+          <MicrophoneIcon className="w-5 h-5 text-red-400" />
+          {translate(language, 'recordingNoticeTitle')}
+        </h2>
+        <p className="text-sm text-gray-300 leading-relaxed">
+          {translate(language, 'recordingNoticeBody', { retention })}
+        </p>
+        <div className="flex flex-col gap-2">
+          <button onClick={onAccept} className="w-full py-2 rounded-full bg-red-600 hover:bg-red-700 font-bold">
+            {translate(language, 'recordingAccept')}
+          </button>
+          <button onClick={onDecline} className="w-full py-2 rounded-full bg-gray-700 hover:bg-gray-600 text-gray-200">
+            {translate(language, 'recordingDecline')}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+interface SettingsMenuProps {
+  language: Language;
+  settings: RecordingSettings;
+  onChange: (settings: RecordingSettings) => void;
+  disabled?: boolean; // Locked during a call so the notice the caller saw stays true
+}
+
+export const RecordingSettingsMenu: React.FC<SettingsMenuProps> = ({ language, settings, onChange, disabled }) => {
+  const [open, setOpen] = useState(false);
+  const [usage, setUsage] = useState<{ count: number; bytes: number } | null>(null);
+  const t = (key: UiStringKey, vars?: Record<string, string | number>) => translate(language, key, vars);
+
+  const refreshUsage = () => {
+    recordingStore.getAll()
+      .then(all => setUsage({ count: all.length, bytes: all.reduce((sum, r) => sum + r.blob.size, 0) }))
+      .catch(e => console.error('Failed to read recordings', e));
+  };
+
+  useEffect(() => {
+    if (open) refreshUsage();
+  }, [open]);
+
+  const handleDeleteAll = async () => {
+    try {
+      await recordingStore.clear();
+      refreshUsage();
+    } catch (e) {
+      console.error('Failed to delete recordings', e);
+    }
+  };
+
+  return (
+    <div className="relative pointer-events-auto">
+      <button
+        onClick={() => setOpen(!open)}
+        disabled={disabled}
+        title={t('recordingSettings')}
+        aria-label={t('recordingSettings')}
+        className={`p-2 rounded-full bg-gray-900/50 backdrop-blur-md border border-gray-700/50 shadow-lg disabled:opacity-60 ${settings.consent === 'granted' ? 'text-red-400' : 'text-gray-300'}`}
+      >
+        <MicrophoneIcon className="w-4 h-4" />
+      </button>
+      {open && !disabled && (
+        <div className="absolute right-0 mt-2 w-64 bg-gray-800/95 backdrop-blur-md border border-gray-700 rounded-xl shadow-2xl p-3 space-y-3 text-xs text-gray-300">
+          <p className="font-bold text-white">{t('recordingSettings')}</p>
+          <label className="flex items-center justify-between gap-2">
+            {t('recordCalls')}
+            <input
+              type="checkbox"
+              checked={settings.consent === 'granted'}
+              onChange={(e) => onChange({ ...settings, consent: e.target.checked ? 'granted' : 'declined' })}
+            />
+          </label>
+          <label className="flex items-center justify-between gap-2">
+            {t('keepRecordings')}
+            <select
+              value={settings.retentionDays}
+              onChange={(e) => onChange({ ...settings, retentionDays: Number(e.target.value) })}
+              className="bg-gray-900/60 border border-gray-700 rounded px-1 py-0.5 text-gray-200 focus:outline-none"
+            >
+              {RETENTION_OPTIONS.map(days => (
+                <option key={days} value={days}>{days > 0 ? t('keepDays', { days }) : t('keepForever')}</option>
+              ))}
+            </select>
+          </label>
+          {usage && (
+            <div className="flex items-center justify-between gap-2 text-gray-400">
+              <span>{t('recordingsStored', { count: usage.count, size: formatBytes(usage.bytes) })}</span>
+              {usage.count > 0 && (
+                <button onClick={handleDeleteAll} className="text-red-300 underline hover:text-red-200">
+                  {t('deleteRecordings')}
+                </button>
+              )}
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
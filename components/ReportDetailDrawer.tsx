@@ -0,0 +1,313 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { DocumentIcon, PaperClipIcon, PencilSquareIcon, TrashIcon, XMarkIcon } from '@heroicons/react/24/solid';
+import { EmergencyReport, HazardZone, ReportStatus, ResponderUnit } from '../types';
+import { HazardZoneTags, LocationFlag, PriorityBadge } from './IncidentCard';
+import { StatusBadge, StatusControls } from './StatusControls';
+import { ReportTranscript } from './TranscriptView';
+import { CallRecordingPlayer } from './CallRecordingPlayer';
+import { EMERGENCY_TYPES, ReportEdits, validateReportEdits } from '../services/reportValidation';
+import { formatEditValue } from '../services/reportWorkflow';
+import { ATTACHMENT_ACCEPT, Attachment, attachmentStore, isImage } from '../services/attachmentStore';
+import { downloadFile, formatBytes } from '../services/fileUtils';
+import { UNIT_KIND_GLYPHS } from '../services/responderUnits';
+import { editFieldLabel, Language, languageName, translate, UiStringKey } from '../services/i18n';
+
+interface ReportDetailDrawerProps {
+  report: EmergencyReport;
+  hazardZones: HazardZone[]; // Zones the report falls inside
+  assignedUnit?: ResponderUnit;
+  onClose: () => void;
+  onSaveEdits: (reportId: string, edits: Partial<ReportEdits>) => void;
+  onAttach: (reportId: string, files: File[]) => Promise<void>;
+  onRemoveAttachment: (reportId: string, attachmentId: string) => void;
+  onStatusChange: (reportId: string, to: ReportStatus, reason?: string) => void;
+  language: Language;
+}
+
+type EditForm = Record<'emergencyType' | 'description' | 'peopleCount' | 'criticalNeeds' | 'latitude' | 'longitude', string>;
+
+const formFor = (report: EmergencyReport): EditForm => ({
+  emergencyType: report.emergencyType,
+  description: report.description,
+  peopleCount: report.peopleCount !== undefined ? String(report.peopleCount) : '',
+  criticalNeeds: report.criticalNeeds ?? '',
+  latitude: report.location.lat.toFixed(6),
+  longitude: report.location.lng.toFixed(6)
+});
+
+const formatTime = (ts: number) => new Date(ts).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' });
+
+const inputClass = 'w-full bg-gray-900/60 border border-gray-700 rounded px-2 py-1 text-gray-100 focus:outline-none focus:border-blue-500';
+
+// Object URLs for the thumbnails (or the images themselves when no thumbnail could be made)
+const usePreviewUrls = (attachments: Attachment[]) => {
+  const [urls, setUrls] = useState<Record<string, string>>({});
+  useEffect(() => {
+    const created: Record<string, string> = {};
+    attachments.filter(isImage).forEach(a => { created[a.id] = URL.createObjectURL(a.thumbnail ?? a.blob); });
+    setUrls(created);
+    return () => Object.values(created).forEach(url => URL.revokeObjectURL(url));
+  }, [attachments]);
+  return urls;
+};
+
+const AttachmentList: React.FC<{
+  report: EmergencyReport;
+  onAttach: (files: File[]) => Promise<void>;
+  onRemove: (attachmentId: string) => void;
+  language: Language;
+}> = ({ report, onAttach, onRemove, language }) => {
+  const t = (key: UiStringKey, vars?: Record<string, string | number>) => translate(language, key, vars);
+  const [attachments, setAttachments] = useState<Attachment[]>([]);
+  const [busy, setBusy] = useState(false);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const previews = usePreviewUrls(attachments);
+  const ids = report.attachmentIds ?? [];
+
+  useEffect(() => {
+    attachmentStore.getMany(ids)
+      .then(setAttachments)
+      .catch(e => console.error('Failed to load attachments', e));
+  }, [ids.join()]);
+
+  const handleFiles = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const files = [...(e.target.files ?? [])];
+    e.target.value = '';
+    if (files.length === 0) return;
+    setBusy(true);
+    try {
+      await onAttach(files);
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  // Images open in a new tab; anything else is downloaded
+  const open = (attachment: Attachment) => {
+    if (!isImage(attachment)) {
+      downloadFile(attachment.blob, attachment.name, attachment.type);
+      return;
+    }
+    const url = URL.createObjectURL(attachment.blob);
+    window.open(url, '_blank', 'noopener');
+    setTimeout(() => URL.revokeObjectURL(url), 60000);
+  };
+
+  return (
+    <section>
+      <div className="flex items-center justify-between mb-1">
+        <h4 className="font-bold text-gray-300">{t('attachments', { count: attachments.length })}</h4>
+        <button
+          onClick={() => fileInputRef.current?.click()}
+          disabled={busy}
+          className="flex items-center gap-1 px-2 py-0.5 rounded bg-gray-700 hover:bg-gray-600 disabled:opacity-40"
+        >
+          <PaperClipIcon className="w-3 h-3" /> {t(busy ? 'attaching' : 'attach')}
+        </button>
+        <input ref={fileInputRef} type="file" multiple accept={ATTACHMENT_ACCEPT} className="hidden" onChange={handleFiles} />
+      </div>
+      {attachments.length === 0 ? (
+        <p className="text-gray-500">{t('attachmentsEmpty')}</p>
+      ) : (
+        <ul className="grid grid-cols-3 gap-2">
+          {attachments.map(a => (
+            <li key={a.id} className="relative group">
+              <button
+                onClick={() => open(a)}
+                className="w-full aspect-square rounded border border-gray-700 bg-gray-900/60 overflow-hidden flex items-center justify-center"
+                title={t('attachmentInfo', { name: a.name, size: formatBytes(a.size), by: a.addedBy, time: formatTime(a.addedAt) })}
+              >
+                {previews[a.id]
+                  ? <img src={previews[a.id]} alt={a.name} className="w-full h-full object-cover" />
+                  : <DocumentIcon className="w-8 h-8 text-gray-500" />}
+              </button>
+              <p className="mt-0.5 truncate text-[10px] text-gray-400">{a.name}</p>
+              <button
+                onClick={() => { if (window.confirm(t('attachmentRemoveConfirm', { name: a.name }))) onRemove(a.id); }}
+                className="absolute top-1 right-1 p-0.5 rounded bg-gray-900/80 text-gray-300 hover:text-red-400 opacity-0 group-hover:opacity-100"
+                aria-label={t('attachmentRemove', { name: a.name })}
+              >
+                <TrashIcon className="w-3 h-3" />
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+    </section>
+  );
+};
+
+export const ReportDetailDrawer: React.FC<ReportDetailDrawerProps> = ({
+  report, hazardZones, assignedUnit, onClose, onSaveEdits, onAttach, onRemoveAttachment, onStatusChange, language
+}) => {
+  const t = (key: UiStringKey, vars?: Record<string, string | number>) => translate(language, key, vars);
+  const [form, setForm] = useState<EditForm | null>(null); // Null when not editing
+  const [errors, setErrors] = useState<string[]>([]);
+  const edits = [...(report.edits ?? [])].reverse();
+
+  // Switching reports drops an unsaved edit of the previous one
+  useEffect(() => {
+    setForm(null);
+    setErrors([]);
+  }, [report.id]);
+
+  const set = (field: keyof EditForm) => (e: React.ChangeEvent<HTMLInputElement | HTMLTextAreaElement | HTMLSelectElement>) =>
+    setForm(prev => prev && { ...prev, [field]: e.target.value });
+
+  const save = () => {
+    if (!form) return;
+    const validation = validateReportEdits(form);
+    if (validation.ok === false) {
+      setErrors(validation.errors);
+      return;
+    }
+    // The form shows rounded coordinates; untouched ones must not overwrite the precise location
+    const { location, ...rest } = validation.value;
+    const original = formFor(report);
+    const moved = form.latitude.trim() !== original.latitude || form.longitude.trim() !== original.longitude;
+    onSaveEdits(report.id, moved ? { ...rest, location } : rest);
+    setForm(null);
+    setErrors([]);
+  };
+
+  return (
+    <aside className="absolute top-20 bottom-4 right-4 z-20 w-96 max-w-[calc(100vw-2rem)] flex flex-col bg-gray-800/95 backdrop-blur-md rounded-xl border border-gray-700 shadow-2xl text-xs text-gray-200">
+      <div className="p-4 border-b border-gray-700 flex items-start justify-between gap-2">
+        <div>
+          <span className="font-bold text-red-400 uppercase tracking-wider">{report.emergencyType}</span>
+          <p className="text-[10px] text-gray-400 font-mono">#{report.id} · {new Date(report.timestamp).toLocaleString()}</p>
+        </div>
+        <div className="flex items-center gap-1">
+          {!form && (
+            <button onClick={() => setForm(formFor(report))} className="p-1 rounded hover:bg-gray-700" aria-label={t('editReport')}>
+              <PencilSquareIcon className="w-4 h-4" />
+            </button>
+          )}
+          <button onClick={onClose} className="p-1 rounded hover:bg-gray-700" aria-label={t('closeDetails')}>
+            <XMarkIcon className="w-4 h-4" />
+          </button>
+        </div>
+      </div>
+
+      <div className="flex-1 overflow-y-auto p-4 space-y-4">
+        <div className="flex flex-wrap gap-1">
+          <PriorityBadge report={report} language={language} />
+          <StatusBadge status={report.status} language={language} />
+          <LocationFlag report={report} language={language} />
+          <HazardZoneTags zones={hazardZones} language={language} />
+        </div>
+
+        {form ? (
+          <section className="space-y-2">
+            <label className="block">
+              <span className="text-gray-400">{editFieldLabel(language, 'emergencyType')}</span>
+              <select value={form.emergencyType} onChange={set('emergencyType')} className={inputClass}>
+                {!(EMERGENCY_TYPES as readonly string[]).includes(form.emergencyType) && <option value={form.emergencyType}>{form.emergencyType}</option>}
+                {EMERGENCY_TYPES.map(type => <option key={type} value={type}>{type}</option>)}
+              </select>
+            </label>
+            <label className="block">
+              <span className="text-gray-400">{editFieldLabel(language, 'description')}</span>
+              <textarea value={form.description} onChange={set('description')} rows={4} className={inputClass} />
+            </label>
+            <div className="grid grid-cols-2 gap-2">
+              <label className="block">
+                <span className="text-gray-400">{editFieldLabel(language, 'peopleCount')}</span>
+                <input value={form.peopleCount} onChange={set('peopleCount')} inputMode="numeric" className={inputClass} />
+              </label>
+              <label className="block">
+                <span className="text-gray-400">{editFieldLabel(language, 'criticalNeeds')}</span>
+                <input value={form.criticalNeeds} onChange={set('criticalNeeds')} className={inputClass} />
+              </label>
+              <label className="block">
+                <span className="text-gray-400">{t('latitude')}</span>
+                <input value={form.latitude} onChange={set('latitude')} inputMode="decimal" className={inputClass} />
+              </label>
+              <label className="block">
+                <span className="text-gray-400">{t('longitude')}</span>
+                <input value={form.longitude} onChange={set('longitude')} inputMode="decimal" className={inputClass} />
+              </label>
+            </div>
+            <p className="text-[10px] text-gray-500">{t('adjustPinHint')}</p>
+            {errors.length > 0 && (
+              <ul className="p-2 rounded bg-red-900/30 border border-red-500/30 text-red-300 space-y-0.5">
+                {errors.map(error => <li key={error}>{error}</li>)}
+              </ul>
+            )}
+            <div className="flex gap-2">
+              <button onClick={save} className="flex-1 py-1 rounded bg-blue-600 hover:bg-blue-500">{t('saveChanges')}</button>
+              <button onClick={() => { setForm(null); setErrors([]); }} className="flex-1 py-1 rounded bg-gray-700 hover:bg-gray-600">{t('cancel')}</button>
+            </div>
+          </section>
+        ) : (
+          <section className="space-y-1">
+            <p className="text-sm text-gray-100 whitespace-pre-line leading-relaxed">{report.description}</p>
+            {report.originalDescription && (
+              <p className="text-gray-400 italic whitespace-pre-line" lang={report.language}>
+                {languageName(report.language)}: {report.originalDescription}
+              </p>
+            )}
+            <dl className="grid grid-cols-[auto_1fr] gap-x-3 gap-y-0.5 pt-1">
+              <dt className="text-gray-400">{editFieldLabel(language, 'peopleCount')}</dt><dd>{report.peopleCount ?? t('peopleUnknown')}</dd>
+              <dt className="text-gray-400">{editFieldLabel(language, 'criticalNeeds')}</dt><dd>{report.criticalNeeds || t('needsNone')}</dd>
+              <dt className="text-gray-400">{editFieldLabel(language, 'location')}</dt>
+              <dd>
+                {formatEditValue(report.location)}
+                {report.locationInfo?.label && <span className="text-gray-400"> · {report.locationInfo.label}</span>}
+              </dd>
+              {Object.entries(report.details ?? {}).map(([label, answer]) => (
+                <React.Fragment key={label}>
+                  <dt className="text-gray-400">{label}</dt><dd>{answer}</dd>
+                </React.Fragment>
+              ))}
+              {assignedUnit && (
+                <>
+                  <dt className="text-gray-400">{t('unit')}</dt>
+                  <dd className="text-purple-300">{UNIT_KIND_GLYPHS[assignedUnit.kind]} {assignedUnit.name}</dd>
+                </>
+              )}
+            </dl>
+            {report.missingDetails && (
+              <p className="pt-1 text-yellow-300">
+                {report.protocolVersion
+                  ? t('notGivenProtocol', { version: report.protocolVersion, details: report.missingDetails.join(', ') })
+                  : t('notGiven', { details: report.missingDetails.join(', ') })}
+              </p>
+            )}
+          </section>
+        )}
+
+        <StatusControls report={report} onStatusChange={onStatusChange} language={language} />
+
+        <AttachmentList
+          report={report}
+          onAttach={(files) => onAttach(report.id, files)}
+          onRemove={(attachmentId) => onRemoveAttachment(report.id, attachmentId)}
+          language={language}
+        />
+
+        {edits.length > 0 && (
+          <section>
+            <h4 className="font-bold mb-1 text-gray-300">{t('changes', { count: edits.length })}</h4>
+            <ul className="space-y-1 text-[11px] text-gray-400">
+              {edits.map((edit, i) => (
+                <li key={`${edit.at}-${edit.field}-${i}`}>
+                  <span className="font-mono">{formatTime(edit.at)}</span>
+                  {' '}<span className="text-gray-300">{editFieldLabel(language, edit.field)}</span>
+                  {' '}<span className="line-through">{formatEditValue(edit.from, t('emptyValue'))}</span>
+                  {' → '}<span className="text-gray-200">{formatEditValue(edit.to, t('emptyValue'))}</span>
+                  {' '}{t('changedBy', { name: edit.by })}
+                </li>
+              ))}
+            </ul>
+          </section>
+        )}
+
+        <div>
+          <ReportTranscript transcript={report.transcript} />
+          <CallRecordingPlayer language={language} recordingId={report.recordingId} />
+        </div>
+      </div>
+    </aside>
+  );
+};
@@ -0,0 +1,79 @@
+import React, { useState } from 'react';
+import { EmergencyReport, ReportStatus } from '../types';
+import { allowedTransitions, STATUS_STYLES } from '../services/reportWorkflow';
+import { Language, statusLabel, translate } from '../services/i18n';
+
+interface StatusControlsProps {
+  report: EmergencyReport;
+  onStatusChange: (reportId: string, to: ReportStatus, reason?: string) => void;
+  variant?: 'dark' | 'light';
+  language: Language;
+}
+
+export const StatusBadge: React.FC<{ status: ReportStatus; language: Language }> = ({ status, language }) => (
+  <span className={`text-[10px] px-1.5 py-0.5 rounded-full border uppercase tracking-wider ${STATUS_STYLES[status].badge}`}>
+    {statusLabel(language, status)}
+  </span>
+);
+
+export const StatusControls: React.FC<StatusControlsProps> = ({ report, onStatusChange, variant = 'dark', language }) => {
+  const [showHistory, setShowHistory] = useState(false);
+  const next = allowedTransitions(report.status);
+  const history = report.history ?? [];
+
+  const buttonClass = variant === 'dark'
+    ? 'bg-gray-600/60 hover:bg-gray-500 text-gray-100'
+    : 'bg-gray-200 hover:bg-gray-300 text-gray-800';
+  const mutedClass = variant === 'dark' ? 'text-gray-400' : 'text-gray-500';
+
+  const handleClick = (to: ReportStatus) => {
+    let reason: string | undefined;
+    if (to === 'cancelled') {
+      // Cancelling needs a reason for the audit trail
+      const input = window.prompt(translate(language, 'cancelReason'));
+      if (input === null) return;
+      reason = input;
+    }
+    onStatusChange(report.id, to, reason);
+  };
+
+  return (
+    <div className="mt-2">
+      {next.length > 0 && (
+        <div className="flex flex-wrap gap-1">
+          {next.map(to => (
+            <button
+              key={to}
+              onClick={(e) => { e.stopPropagation(); handleClick(to); }}
+              className={`text-[10px] px-2 py-0.5 rounded transition-colors ${buttonClass}`}
+            >
+              {statusLabel(language, to)}
+            </button>
+          ))}
+        </div>
+      )}
+
+      {history.length > 0 && (
+        <button
+          onClick={(e) => { e.stopPropagation(); setShowHistory(!showHistory); }}
+          className={`mt-1 text-[10px] underline ${mutedClass}`}
+        >
+          {translate(language, showHistory ? 'hideHistory' : 'history', { count: history.length })}
+        </button>
+      )}
+
+      {showHistory && (
+        <ul className={`mt-1 space-y-0.5 text-[10px] ${mutedClass}`}>
+          {history.map((h, i) => (
+            <li key={i}>
+              <span className="font-mono">{new Date(h.at).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}</span>
+              {' '}{h.from ? `${statusLabel(language, h.from)} → ` : ''}{statusLabel(language, h.to)}
+              {' '}{translate(language, 'changedBy', { name: h.by })}
+              {h.reason && <span className="italic"> — {h.reason}</span>}
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,56 @@
+import React, { useState } from 'react';
+import { TranscriptEntry } from '../types';
+
+const SPEAKER_LABELS: Record<TranscriptEntry['speaker'], string> = {
+  caller: 'Caller',
+  dispatcher: 'Dispatcher'
+};
+
+const formatTime = (ts: number) =>
+  new Date(ts).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit', second: '2-digit' });
+
+// Live captions shown under the visualizer during a call
+export const LiveCaptions: React.FC<{ transcript: TranscriptEntry[]; lines?: number }> = ({ transcript, lines = 2 }) => {
+  if (transcript.length === 0) return null;
+
+  return (
+    <div className="max-w-md w-[90vw] space-y-1 bg-gray-900/80 backdrop-blur px-4 py-2 rounded-xl border border-gray-700 pointer-events-auto">
+      {transcript.slice(-lines).map((entry, i) => (
+        <p key={`${entry.timestamp}-${i}`} className="text-sm leading-snug">
+          <span className={`font-bold mr-1 ${entry.speaker === 'caller' ? 'text-blue-400' : 'text-red-400'}`}>
+            {SPEAKER_LABELS[entry.speaker]}:
+          </span>
+          <span className="text-gray-200">{entry.text}</span>
+        </p>
+      ))}
+    </div>
+  );
+};
+
+// Collapsible transcript attached to a filed report
+export const ReportTranscript: React.FC<{ transcript?: TranscriptEntry[] }> = ({ transcript }) => {
+  const [open, setOpen] = useState(false);
+  if (!transcript || transcript.length === 0) return null;
+
+  return (
+    <div className="mt-1">
+      <button
+        onClick={(e) => { e.stopPropagation(); setOpen(!open); }}
+        className="text-[10px] underline text-gray-400"
+      >
+        {open ? 'Hide transcript' : `Transcript (${transcript.length})`}
+      </button>
+      {open && (
+        <ol className="mt-1 space-y-1 max-h-40 overflow-y-auto text-[10px] text-gray-300">
+          {transcript.map((entry, i) => (
+            <li key={i}>
+              <span className="font-mono text-gray-500">{formatTime(entry.timestamp)}</span>
+              {' '}<span className={entry.speaker === 'caller' ? 'text-blue-400' : 'text-red-400'}>{SPEAKER_LABELS[entry.speaker]}</span>
+              {': '}{entry.text}
+            </li>
+          ))}
+        </ol>
+      )}
+    </div>
+  );
+};
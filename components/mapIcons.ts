@@ -0,0 +1,91 @@
+import L from 'leaflet';
+import { EmergencyReport, Incident, Priority, ResponderUnit } from '../types';
+import { normalizeEmergencyType } from '../services/reportValidation';
+import { TYPE_GLYPHS } from '../services/mapLayers';
+import { UNIT_KIND_GLYPHS } from '../services/responderUnits';
+
+// Fix for default Leaflet marker icons in webpack/react environments.
+// Served from public/ so pins still render without a network.
+const iconUrl = "/vendor/leaflet/images/marker-icon.png";
+const iconRetinaUrl = "/vendor/leaflet/images/marker-icon-2x.png";
+const shadowUrl = "/vendor/leaflet/images/marker-shadow.png";
+
+export const DefaultIcon = L.icon({
+    iconUrl,
+    iconRetinaUrl,
+    shadowUrl,
+    iconSize: [25, 41],
+    iconAnchor: [12, 41],
+    popupAnchor: [1, -34],
+    shadowSize: [41, 41]
+});
+
+L.Marker.prototype.options.icon = DefaultIcon;
+
+// Marker fill colors, coded by severity while active
+export const PRIORITY_COLORS: Record<Priority, string> = {
+    critical: '#dc2626',
+    high: '#f97316',
+    medium: '#eab308',
+    low: '#3b82f6'
+};
+
+const RESOLVED_COLOR = '#22c55e';
+const CANCELLED_COLOR = '#6b7280';
+
+const iconCache = new Map<string, L.DivIcon>();
+
+// Round pin showing the emergency type glyph on a severity-colored background
+const glyphIcon = (glyph: string, color: string): L.DivIcon => {
+    const key = `${glyph}|${color}`;
+    let icon = iconCache.get(key);
+    if (!icon) {
+        icon = L.divIcon({
+            className: '',
+            html: `<div style="width:30px;height:30px;border-radius:50%;background:${color};border:2px solid #fff;box-shadow:0 1px 4px rgba(0,0,0,.5);display:flex;align-items:center;justify-content:center;font-size:16px;line-height:1">${glyph}</div>`,
+            iconSize: [30, 30],
+            iconAnchor: [15, 15],
+            popupAnchor: [0, -15]
+        });
+        iconCache.set(key, icon);
+    }
+    return icon;
+};
+
+const glyphFor = (emergencyType: string) => TYPE_GLYPHS[normalizeEmergencyType(emergencyType || '')];
+
+export const iconForReport = (report: EmergencyReport): L.DivIcon => {
+    const glyph = glyphFor(report.emergencyType);
+    if (report.status === 'resolved') return glyphIcon(glyph, RESOLVED_COLOR);
+    if (report.status === 'cancelled') return glyphIcon(glyph, CANCELLED_COLOR);
+    return glyphIcon(glyph, PRIORITY_COLORS[report.triage?.priority ?? 'high']);
+};
+
+export const iconForIncident = (incident: Incident): L.DivIcon => {
+    const glyph = glyphFor(incident.emergencyType);
+    if (incident.activeCount === 0) return glyphIcon(glyph, RESOLVED_COLOR);
+    return glyphIcon(glyph, PRIORITY_COLORS[incident.priority ?? 'high']);
+};
+
+// Units are square so they read differently from round incident pins
+export const unitIcon = (unit: ResponderUnit): L.DivIcon => {
+    const color = unit.availability === 'available' ? '#0ea5e9' : unit.availability === 'busy' ? '#a855f7' : '#4b5563';
+    return L.divIcon({
+        className: '',
+        html: `<div style="width:28px;height:28px;border-radius:6px;background:${color};border:2px solid #fff;box-shadow:0 1px 4px rgba(0,0,0,.5);display:flex;align-items:center;justify-content:center;font-size:15px;line-height:1;opacity:${unit.availability === 'offline' ? 0.5 : 1}">${UNIT_KIND_GLYPHS[unit.kind]}</div>`,
+        iconSize: [28, 28],
+        iconAnchor: [14, 14],
+        popupAnchor: [0, -14]
+    });
+};
+
+// Bubble with the number of markers it stands in for
+export const clusterIcon = (count: number, color: string): L.DivIcon => {
+    const size = count < 10 ? 34 : count < 100 ? 42 : 50;
+    return L.divIcon({
+        className: '',
+        html: `<div style="width:${size}px;height:${size}px;border-radius:50%;background:${color};opacity:.9;border:3px solid rgba(255,255,255,.7);color:#fff;font-weight:700;font-size:13px;display:flex;align-items:center;justify-content:center">${count}</div>`,
+        iconSize: [size, size],
+        iconAnchor: [size / 2, size / 2]
+    });
+};
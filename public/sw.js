@@ -0,0 +1,148 @@
+// Service worker: keeps the app shell, CDN modules and map tiles available offline.
+// Tile cache names must match services/tileCache.ts.
+
+const SHELL_CACHE = 'app-shell-v2';
+const RUNTIME_CACHE = 'runtime-v1';
+const TILE_CACHE = 'map-tiles-v1'; // Areas downloaded on purpose; never trimmed here
+const BROWSED_TILE_CACHE = 'map-tiles-browsed-v1';
+const MAX_BROWSED_TILES = 2000;
+
+const APP_SHELL = [
+  '/',
+  '/index.html',
+  '/vendor/leaflet/leaflet.css',
+  '/vendor/leaflet/images/marker-icon.png',
+  '/vendor/leaflet/images/marker-icon-2x.png',
+  '/vendor/leaflet/images/marker-shadow.png',
+  '/vendor/leaflet/images/layers.png',
+  '/vendor/leaflet/images/layers-2x.png',
+  '/data/gazetteer.json'
+];
+
+// Written by the build (see vite.config.ts): every bundled script, style and asset
+const ASSET_MANIFEST = '/asset-manifest.json';
+// The dev server has no manifest; its entry module is the best that can be done up front
+const DEV_ENTRY = ['/index.tsx'];
+
+const TILE_HOST = 'tile.openstreetmap.org';
+
+// Modules from the import map and the Tailwind runtime
+const CDN_HOSTS = ['aistudiocdn.com', 'cdn.tailwindcss.com'];
+
+async function buildAssets() {
+  try {
+    const response = await fetch(ASSET_MANIFEST, { cache: 'no-store' });
+    if (!response.ok) return DEV_ENTRY;
+    const files = await response.json();
+    return Array.isArray(files) ? files.filter(file => typeof file === 'string') : DEV_ENTRY;
+  } catch {
+    return DEV_ENTRY;
+  }
+}
+
+// One missing file shouldn't keep the rest of the shell from installing
+async function precache(urls, { skipCached = false } = {}) {
+  const cache = await caches.open(SHELL_CACHE);
+  await Promise.all(urls.map(async url => {
+    if (skipCached && await cache.match(url)) return;
+    await cache.add(url).catch(e => console.warn(`Precache failed for ${url}`, e));
+  }));
+}
+
+self.addEventListener('install', (event) => {
+  event.waitUntil(
+    buildAssets()
+      .then(assets => precache([...APP_SHELL, ...assets]))
+      .then(() => self.skipWaiting())
+  );
+});
+
+self.addEventListener('activate', (event) => {
+  const keep = [SHELL_CACHE, RUNTIME_CACHE, TILE_CACHE, BROWSED_TILE_CACHE];
+  event.waitUntil(
+    caches.keys()
+      .then(names => Promise.all(names.filter(name => !keep.includes(name)).map(name => caches.delete(name))))
+      .then(() => self.clients.claim())
+  );
+});
+
+// Browsed tiles counted so far; read from the cache once per worker start, not on every tile
+let browsedCount = null;
+
+// Drops the oldest browsed tiles (keys come back in insertion order), leaving room
+// for a batch of new ones before the next trim
+async function trimBrowsedTiles(cache) {
+  if (browsedCount === null) browsedCount = (await cache.keys()).length;
+  if (++browsedCount <= MAX_BROWSED_TILES) return;
+  const keys = await cache.keys();
+  const excess = keys.length - Math.floor(MAX_BROWSED_TILES * 0.9);
+  for (let i = 0; i < excess; i++) await cache.delete(keys[i]);
+  browsedCount = keys.length - Math.max(0, excess);
+}
+
+async function tileFirst(request) {
+  const cached = await (await caches.open(TILE_CACHE)).match(request.url);
+  if (cached) return cached;
+  const browsed = await caches.open(BROWSED_TILE_CACHE);
+  const seen = await browsed.match(request.url);
+  if (seen) return seen;
+
+  const response = await fetch(request);
+  if (response.ok) {
+    const blob = await response.clone().blob();
+    await browsed.put(request.url, new Response(blob, {
+      headers: { 'Content-Type': blob.type || 'image/png', 'Content-Length': String(blob.size) }
+    }));
+    await trimBrowsedTiles(browsed);
+  }
+  return response;
+}
+
+async function networkFirst(request, fallbackUrl) {
+  const cache = await caches.open(RUNTIME_CACHE);
+  try {
+    const response = await fetch(request);
+    if (response.ok) await cache.put(request, response.clone());
+    return response;
+  } catch (e) {
+    const cached = await cache.match(request)
+      || await caches.match(request)
+      || (fallbackUrl && await caches.match(fallbackUrl));
+    if (cached) return cached;
+    throw e;
+  }
+}
+
+async function staleWhileRevalidate(request) {
+  const cache = await caches.open(RUNTIME_CACHE);
+  const cached = await cache.match(request);
+  const refresh = fetch(request)
+    .then(response => {
+      // Opaque responses (status 0) from no-cors script tags are still worth keeping
+      if (response.ok || response.type === 'opaque') cache.put(request, response.clone());
+      return response;
+    })
+    .catch(e => {
+      if (!cached) throw e;
+      return cached;
+    });
+  return cached || refresh;
+}
+
+self.addEventListener('fetch', (event) => {
+  const { request } = event;
+  if (request.method !== 'GET') return;
+
+  const url = new URL(request.url);
+  if (url.hostname === TILE_HOST) {
+    event.respondWith(tileFirst(request));
+  } else if (request.mode === 'navigate') {
+    event.respondWith(networkFirst(request, '/index.html'));
+    // A new build keeps this worker but changes the hashed bundles; pick them up while online
+    event.waitUntil(buildAssets().then(assets => precache(assets, { skipCached: true })));
+  } else if (CDN_HOSTS.some(host => url.hostname === host || url.hostname.endsWith(`.${host}`))) {
+    event.respondWith(staleWhileRevalidate(request));
+  } else if (url.origin === self.location.origin) {
+    event.respondWith(networkFirst(request));
+  }
+});
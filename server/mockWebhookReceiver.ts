@@ -0,0 +1,71 @@
+import type { IncomingMessage, ServerResponse } from 'node:http';
+import { SIGNATURE_HEADER, verifySignature, WebhookEvent } from './webhooks';
+
+export const MOCK_WEBHOOK_PATH = '/mock-webhook';
+const MAX_KEPT = 100;
+
+interface ReceivedDelivery {
+  receivedAt: number;
+  deliveryId?: string;
+  eventType?: string;
+  signatureValid: boolean;
+  respondedWith: number;
+  event: WebhookEvent | null;
+}
+
+const readBody = (req: IncomingMessage) => new Promise<string>((resolve, reject) => {
+  const chunks: Buffer[] = [];
+  req.on('data', (chunk: Buffer) => chunks.push(chunk));
+  req.on('end', () => resolve(Buffer.concat(chunks).toString('utf8')));
+  req.on('error', reject);
+});
+
+/**
+ * Stand-in for a pager/chat/CAD endpoint. POST stores the delivery and checks
+ * its signature against `secret`; GET lists what arrived, newest first.
+ * `?status=503` answers with that status instead, to exercise retries and the
+ * dead-letter log.
+ */
+export function createMockWebhookReceiver(secret: string) {
+  const received: ReceivedDelivery[] = [];
+
+  return async (req: IncomingMessage, res: ServerResponse) => {
+    if (req.method === 'GET') {
+      res.setHeader('Content-Type', 'application/json');
+      res.end(JSON.stringify(received, null, 2));
+      return;
+    }
+    if (req.method !== 'POST') {
+      res.statusCode = 405;
+      res.end();
+      return;
+    }
+
+    const body = await readBody(req);
+    const header = req.headers[SIGNATURE_HEADER.toLowerCase()];
+    const signatureValid = verifySignature(secret, body, Array.isArray(header) ? header[0] : header);
+    const forced = Number(new URL(req.url ?? '/', 'http://localhost').searchParams.get('status'));
+    const status = forced >= 100 && forced < 600 ? forced : (signatureValid ? 204 : 401);
+
+    let event: WebhookEvent | null = null;
+    try {
+      event = JSON.parse(body);
+    } catch {
+      // Kept as null so a malformed delivery still shows up in the list
+    }
+
+    received.unshift({
+      receivedAt: Date.now(),
+      deliveryId: req.headers['x-disasterconnect-delivery'] as string | undefined,
+      eventType: req.headers['x-disasterconnect-event'] as string | undefined,
+      signatureValid,
+      respondedWith: status,
+      event
+    });
+    received.length = Math.min(received.length, MAX_KEPT);
+    console.info(`[mock-webhook] ${event?.type ?? 'unknown'} for report ${event?.report?.id ?? '?'}, signature ${signatureValid ? 'ok' : 'INVALID'}, answered ${status}`);
+
+    res.statusCode = status;
+    res.end();
+  };
+}
@@ -0,0 +1,179 @@
+import { createHash, randomBytes, randomUUID, timingSafeEqual } from 'node:crypto';
+import type { IncomingMessage, Server } from 'node:http';
+import type { Duplex } from 'node:stream';
+import type { Connect, Plugin } from 'vite';
+import { EmergencyReport } from '../types';
+import { AUTH_FAILED_CLOSE_CODE, mergeReports, parseClientMessage, sameReportContent, ServerMessage, SYNC_PATH } from '../services/syncProtocol';
+import { acceptWebSocket, WebSocketConnection } from './webSocket';
+import { loadWebhookConfig, reportEvent, WebhookDispatcher } from './webhooks';
+import { createMockWebhookReceiver, MOCK_WEBHOOK_PATH } from './mockWebhookReceiver';
+
+interface ConnectedClient {
+  id: string | null; // Known after a hello with the right token
+  connection: WebSocketConnection;
+}
+
+export interface SyncServerAuth {
+  token: string; // Shared secret every dashboard sends in hello
+  allowedOrigins?: string[]; // Pages on other origins allowed to connect, besides the server's own
+}
+
+// Compares digests so the comparison takes the same time whatever the guess
+function sameToken(a: string, b: string): boolean {
+  const digest = (value: string) => createHash('sha256').update(value).digest();
+  return timingSafeEqual(digest(a), digest(b));
+}
+
+/**
+ * Relays report changes between dashboards. Keeps the merged copy of every
+ * report in memory and numbers each accepted change, so a reconnecting
+ * client can ask for everything after the last number it saw.
+ */
+export class SyncServer {
+  // Changes whenever the server starts empty, telling clients to upload what they have
+  private readonly epoch = randomUUID();
+  private seq = 0;
+  private reports = new Map<string, EmergencyReport>();
+  private clients = new Set<ConnectedClient>();
+
+  // Every accepted change, after it has been numbered; previous is undefined for new reports.
+  // Only clients that passed the token check in hello can cause one
+  public onReportChanged: ((report: EmergencyReport, previous: EmergencyReport | undefined) => void) | null = null;
+
+  constructor(private auth: SyncServerAuth) {}
+
+  handleUpgrade(req: IncomingMessage, socket: Duplex) {
+    const connection = acceptWebSocket(req, socket, this.auth.allowedOrigins);
+    if (!connection) return;
+
+    const client: ConnectedClient = { id: null, connection };
+    this.clients.add(client);
+    // A bad message must never take down the dev server this runs in
+    connection.onMessage = (text) => {
+      try {
+        this.handleMessage(client, text);
+      } catch (e) {
+        console.error('Sync message failed', e);
+        this.send(client, { type: 'error', message: 'Message could not be processed' });
+      }
+    };
+    connection.onClose = () => {
+      this.clients.delete(client);
+      this.broadcastPresence();
+    };
+  }
+
+  private send(client: ConnectedClient, message: ServerMessage) {
+    client.connection.send(JSON.stringify(message));
+  }
+
+  private handleMessage(client: ConnectedClient, text: string) {
+    const message = parseClientMessage(text);
+    if (!message) {
+      this.send(client, { type: 'error', message: 'Malformed message' });
+      return;
+    }
+
+    if (message.type === 'hello') {
+      if (!sameToken(message.token, this.auth.token)) {
+        this.send(client, { type: 'error', message: 'Invalid sync token' });
+        client.connection.close(AUTH_FAILED_CLOSE_CODE, 'Invalid sync token');
+        return;
+      }
+      client.id = message.clientId;
+      // A client from before a restart may hold a higher number than we have issued
+      const since = message.epoch === this.epoch ? message.since : 0;
+      const reports = [...this.reports.values()].filter(r => (r.sync?.version ?? 0) > since);
+      this.send(client, { type: 'welcome', epoch: this.epoch, seq: this.seq, reports });
+      this.broadcastPresence();
+      return;
+    }
+
+    if (!client.id) {
+      this.send(client, { type: 'error', message: 'Send hello first' });
+      return;
+    }
+
+    if (message.type === 'put') {
+      const report = message.report;
+      const previous = this.reports.get(report.id);
+      const { report: merged, conflicts } = mergeReports(previous, report);
+
+      // Re-uploads after a reconnect are common; only real changes get a number and a broadcast
+      if (previous && sameReportContent(previous, merged)) {
+        this.send(client, { type: 'ack', requestId: message.requestId, report: previous, conflicts });
+        return;
+      }
+
+      const stored: EmergencyReport = { ...merged, sync: { stamps: merged.sync?.stamps ?? {}, version: ++this.seq } };
+      this.reports.set(stored.id, stored);
+      this.onReportChanged?.(stored, previous);
+
+      this.send(client, { type: 'ack', requestId: message.requestId, report: stored, conflicts });
+      this.clients.forEach(other => {
+        if (other !== client && other.id) this.send(other, { type: 'report', report: stored, origin: client.id! });
+      });
+    }
+  }
+
+  private broadcastPresence() {
+    const joined = [...this.clients].filter(c => c.id);
+    joined.forEach(client => this.send(client, { type: 'presence', clients: joined.length }));
+  }
+
+  // Takes over upgrades on the sync path and leaves the rest (Vite's HMR socket) alone
+  attach(httpServer: Server, path = SYNC_PATH) {
+    httpServer.on('upgrade', (req: IncomingMessage, socket: Duplex) => {
+      if (new URL(req.url ?? '/', 'http://localhost').pathname !== path) return;
+      this.handleUpgrade(req, socket);
+    });
+  }
+}
+
+export interface SyncServerOptions {
+  token?: string; // Generated and printed at startup when not set
+  allowedOrigins?: string[];
+  webhookConfigPath?: string;
+  mockWebhookSecret?: string; // Mounts the mock receiver on /mock-webhook when set
+}
+
+/**
+ * Hosts the sync server, webhook dispatch and the optional mock receiver on
+ * the dev and preview servers, so `npm run dev` is all a team needs.
+ */
+export function syncServerPlugin(options: SyncServerOptions = {}): Plugin {
+  const token = options.token || randomBytes(16).toString('hex');
+  const server = new SyncServer({ token, allowedOrigins: options.allowedOrigins });
+
+  const setUp = async (httpServer: Server, middlewares: Connect.Server) => {
+    server.attach(httpServer);
+    if (!options.token) {
+      console.info(`Sync: open the dashboard with ?syncToken=${token} to join (set SYNC_TOKEN to keep it across restarts)`);
+    }
+
+    if (options.mockWebhookSecret) {
+      middlewares.use(MOCK_WEBHOOK_PATH, createMockWebhookReceiver(options.mockWebhookSecret));
+    }
+    if (options.webhookConfigPath) {
+      try {
+        const config = await loadWebhookConfig(options.webhookConfigPath);
+        if (config.endpoints.length === 0) return;
+        const dispatcher = new WebhookDispatcher(config);
+        server.onReportChanged = (report, previous) => { void dispatcher.dispatch(reportEvent(report, previous)); };
+        console.info(`Webhooks: ${config.endpoints.length} endpoint(s) from ${options.webhookConfigPath}`);
+      } catch (e) {
+        console.error(`Webhooks disabled, could not load ${options.webhookConfigPath}:`, e);
+      }
+    }
+  };
+
+  return {
+    name: 'disaster-connect-sync',
+    configureServer({ httpServer, middlewares }) {
+      if (httpServer) void setUp(httpServer as Server, middlewares);
+    },
+    configurePreviewServer({ httpServer, middlewares }) {
+      void setUp(httpServer as Server, middlewares);
+    }
+  };
+}
@@ -0,0 +1,197 @@
+import { createHash } from 'node:crypto';
+import type { IncomingMessage } from 'node:http';
+import type { Duplex } from 'node:stream';
+
+// RFC 6455 handshake constant
+const HANDSHAKE_GUID = '258EAFA5-E914-47DA-95CA-C5AB0DC85B11';
+const MAX_MESSAGE_BYTES = 8 * 1024 * 1024; // Reports carry transcripts, keep headroom
+const PING_INTERVAL_MS = 30000;
+
+const OPCODES = { continuation: 0x0, text: 0x1, binary: 0x2, close: 0x8, ping: 0x9, pong: 0xa } as const;
+
+/**
+ * Server side of one WebSocket connection. Only what the sync protocol needs:
+ * text messages (fragmented or not), ping/pong keepalive and close.
+ */
+export class WebSocketConnection {
+  private buffer = Buffer.alloc(0);
+  private fragments: Buffer[] = [];
+  private closed = false;
+  private alive = true;
+  private pingTimer: ReturnType<typeof setInterval>;
+
+  public onMessage: ((text: string) => void) | null = null;
+  public onClose: (() => void) | null = null;
+
+  constructor(private socket: Duplex) {
+    socket.on('data', (chunk: Buffer) => this.receive(chunk));
+    socket.on('close', () => this.handleClosed());
+    socket.on('error', () => this.handleClosed());
+
+    // Drops peers that vanished without a close frame (sleeping laptops, pulled cables)
+    this.pingTimer = setInterval(() => {
+      if (!this.alive) {
+        this.socket.destroy();
+        return;
+      }
+      this.alive = false;
+      this.sendFrame(OPCODES.ping, Buffer.alloc(0));
+    }, PING_INTERVAL_MS);
+  }
+
+  send(text: string) {
+    this.sendFrame(OPCODES.text, Buffer.from(text, 'utf8'));
+  }
+
+  close(code = 1000, reason = '') {
+    if (this.closed) return;
+    const payload = Buffer.alloc(2 + Buffer.byteLength(reason));
+    payload.writeUInt16BE(code, 0);
+    payload.write(reason, 2);
+    this.sendFrame(OPCODES.close, payload);
+    this.socket.end();
+    this.handleClosed();
+  }
+
+  private handleClosed() {
+    if (this.closed) return;
+    this.closed = true;
+    clearInterval(this.pingTimer);
+    this.onClose?.();
+  }
+
+  private sendFrame(opcode: number, payload: Buffer) {
+    if (this.closed || this.socket.destroyed) return;
+    let header: Buffer;
+    if (payload.length < 126) {
+      header = Buffer.from([0x80 | opcode, payload.length]);
+    } else if (payload.length < 65536) {
+      header = Buffer.alloc(4);
+      header[0] = 0x80 | opcode;
+      header[1] = 126;
+      header.writeUInt16BE(payload.length, 2);
+    } else {
+      header = Buffer.alloc(10);
+      header[0] = 0x80 | opcode;
+      header[1] = 127;
+      header.writeBigUInt64BE(BigInt(payload.length), 2);
+    }
+    this.socket.write(Buffer.concat([header, payload]));
+  }
+
+  private receive(chunk: Buffer) {
+    this.buffer = Buffer.concat([this.buffer, chunk]);
+
+    while (this.buffer.length >= 2) {
+      const first = this.buffer[0];
+      const second = this.buffer[1];
+      const fin = (first & 0x80) !== 0;
+      const opcode = first & 0x0f;
+      const masked = (second & 0x80) !== 0;
+      let length = second & 0x7f;
+      let offset = 2;
+
+      if (length === 126) {
+        if (this.buffer.length < 4) return;
+        length = this.buffer.readUInt16BE(2);
+        offset = 4;
+      } else if (length === 127) {
+        if (this.buffer.length < 10) return;
+        const big = this.buffer.readBigUInt64BE(2);
+        length = big > BigInt(MAX_MESSAGE_BYTES) ? MAX_MESSAGE_BYTES + 1 : Number(big);
+        offset = 10;
+      }
+
+      // Clients must mask every frame
+      if (!masked) {
+        this.close(1002, 'Unmasked frame');
+        return;
+      }
+      if (length > MAX_MESSAGE_BYTES) {
+        this.close(1009, 'Message too large');
+        return;
+      }
+      if (this.buffer.length < offset + 4 + length) return;
+
+      const mask = this.buffer.subarray(offset, offset + 4);
+      const payload = Buffer.from(this.buffer.subarray(offset + 4, offset + 4 + length));
+      for (let i = 0; i < payload.length; i++) payload[i] ^= mask[i % 4];
+      this.buffer = this.buffer.subarray(offset + 4 + length);
+
+      this.handleFrame(fin, opcode, payload);
+      if (this.closed) return;
+    }
+  }
+
+  private handleFrame(fin: boolean, opcode: number, payload: Buffer) {
+    switch (opcode) {
+      case OPCODES.text:
+      case OPCODES.continuation: {
+        this.fragments.push(payload);
+        const size = this.fragments.reduce((sum, part) => sum + part.length, 0);
+        if (size > MAX_MESSAGE_BYTES) {
+          this.close(1009, 'Message too large');
+          return;
+        }
+        if (fin) {
+          const text = Buffer.concat(this.fragments).toString('utf8');
+          this.fragments = [];
+          this.onMessage?.(text);
+        }
+        break;
+      }
+      case OPCODES.binary:
+        this.close(1003, 'Binary messages are not supported');
+        break;
+      case OPCODES.ping:
+        this.sendFrame(OPCODES.pong, payload);
+        break;
+      case OPCODES.pong:
+        this.alive = true;
+        break;
+      case OPCODES.close:
+        this.close(payload.length >= 2 ? payload.readUInt16BE(0) : 1000);
+        break;
+    }
+  }
+}
+
+/**
+ * Browsers always send Origin, so a page on another site opening a socket to
+ * this server is refused here. Clients that are not browsers send none and
+ * still have to pass the sync token.
+ */
+export function isAllowedOrigin(req: IncomingMessage, allowedOrigins: string[] = []): boolean {
+  const origin = req.headers.origin;
+  if (!origin) return true;
+  if (allowedOrigins.includes(origin)) return true;
+  try {
+    return new URL(origin).host === req.headers.host;
+  } catch {
+    return false;
+  }
+}
+
+// Completes the HTTP upgrade; returns null (and rejects the socket) for non-WebSocket or cross-site requests
+export function acceptWebSocket(req: IncomingMessage, socket: Duplex, allowedOrigins: string[] = []): WebSocketConnection | null {
+  const key = req.headers['sec-websocket-key'];
+  if (req.headers.upgrade?.toLowerCase() !== 'websocket' || typeof key !== 'string') {
+    socket.end('HTTP/1.1 400 Bad Request\r\n\r\n');
+    return null;
+  }
+  if (!isAllowedOrigin(req, allowedOrigins)) {
+    socket.end('HTTP/1.1 403 Forbidden\r\n\r\n');
+    return null;
+  }
+
+  const accept = createHash('sha1').update(key + HANDSHAKE_GUID).digest('base64');
+  socket.write([
+    'HTTP/1.1 101 Switching Protocols',
+    'Upgrade: websocket',
+    'Connection: Upgrade',
+    `Sec-WebSocket-Accept: ${accept}`,
+    '',
+    ''
+  ].join('\r\n'));
+  return new WebSocketConnection(socket);
+}
@@ -0,0 +1,250 @@
+import { createHash, createHmac, timingSafeEqual } from 'node:crypto';
+import { appendFile, readFile } from 'node:fs/promises';
+import { EmergencyReport, GeoLocation, Priority } from '../types';
+import { backoffDelay } from '../services/connectionState';
+import { distanceMeters } from '../services/geoUtils';
+import { normalizeEmergencyType } from '../services/reportValidation';
+import { scoreReport } from '../services/triage';
+
+export type WebhookEventType = 'report.created' | 'report.updated';
+
+// A route matches when every condition it sets holds; unset conditions match anything
+export interface WebhookRoute {
+  emergencyTypes?: string[];
+  minPriority?: Priority;
+  area?: { center: GeoLocation; radiusKm: number };
+  events?: WebhookEventType[];
+}
+
+export interface WebhookEndpoint {
+  id: string;
+  url: string;
+  secret: string;
+  enabled?: boolean;
+  routes?: WebhookRoute[]; // Any route may match; none means every report
+}
+
+export interface WebhookConfig {
+  endpoints: WebhookEndpoint[];
+  maxAttempts: number;
+  timeoutMs: number;
+  deadLetterPath: string;
+  deliveryLogPath: string; // Event IDs each endpoint has accepted, so replays are not sent twice
+}
+
+export interface WebhookEvent {
+  id: string; // Same for the same report content, so receivers can drop duplicates too
+  type: WebhookEventType;
+  occurredAt: number;
+  changedFields: string[]; // Empty for report.created
+  report: EmergencyReport; // Includes triage as scored by the server
+}
+
+interface DeadLetter {
+  endpointId: string;
+  url: string;
+  event: WebhookEvent;
+  attempts: number;
+  lastError: string;
+  failedAt: number;
+}
+
+export const SIGNATURE_HEADER = 'X-DisasterConnect-Signature';
+const PRIORITY_RANK: Record<Priority, number> = { low: 0, medium: 1, high: 2, critical: 3 };
+
+const DEFAULT_CONFIG: WebhookConfig = {
+  endpoints: [],
+  maxAttempts: 5,
+  timeoutMs: 10000,
+  deadLetterPath: 'webhook-dead-letter.jsonl',
+  deliveryLogPath: 'webhook-deliveries.jsonl'
+};
+
+// Missing file means no webhooks; a broken one is reported rather than silently ignored
+export async function loadWebhookConfig(path: string): Promise<WebhookConfig> {
+  let text: string;
+  try {
+    text = await readFile(path, 'utf8');
+  } catch {
+    return DEFAULT_CONFIG;
+  }
+  const config = { ...DEFAULT_CONFIG, ...JSON.parse(text) } as WebhookConfig;
+  config.endpoints.forEach(endpoint => {
+    if (!endpoint.id || !endpoint.url || !endpoint.secret) {
+      throw new Error(`Webhook endpoint ${endpoint.id ?? endpoint.url ?? '?'} needs an id, url and secret`);
+    }
+  });
+  return config;
+}
+
+export function matchesRoute(route: WebhookRoute, event: WebhookEvent): boolean {
+  const { report } = event;
+  if (route.events && !route.events.includes(event.type)) return false;
+  if (route.emergencyTypes) {
+    const type = normalizeEmergencyType(report.emergencyType);
+    if (!route.emergencyTypes.some(t => normalizeEmergencyType(t) === type)) return false;
+  }
+  if (route.minPriority && report.triage && PRIORITY_RANK[report.triage.priority] < PRIORITY_RANK[route.minPriority]) {
+    return false;
+  }
+  if (route.area && distanceMeters(route.area.center, report.location) > route.area.radiusKm * 1000) return false;
+  return true;
+}
+
+export function endpointWants(endpoint: WebhookEndpoint, event: WebhookEvent): boolean {
+  if (endpoint.enabled === false) return false;
+  if (!endpoint.routes || endpoint.routes.length === 0) return true;
+  return endpoint.routes.some(route => matchesRoute(route, event));
+}
+
+/**
+ * Signature header value: `t=<unix ms>,v1=<hex HMAC-SHA256 of "<t>.<body>">`.
+ * The timestamp is signed too so a captured delivery can't be replayed later.
+ */
+export function signPayload(secret: string, body: string, timestamp = Date.now()): string {
+  const digest = createHmac('sha256', secret).update(`${timestamp}.${body}`).digest('hex');
+  return `t=${timestamp},v1=${digest}`;
+}
+
+export function verifySignature(secret: string, body: string, header: string | undefined, toleranceMs = 5 * 60 * 1000): boolean {
+  const parts = Object.fromEntries((header ?? '').split(',').map(part => part.split('=', 2)));
+  const timestamp = Number(parts.t);
+  if (!parts.v1 || !Number.isFinite(timestamp) || Math.abs(Date.now() - timestamp) > toleranceMs) return false;
+
+  const expected = Buffer.from(signPayload(secret, body, timestamp).split('v1=')[1], 'hex');
+  const given = Buffer.from(parts.v1, 'hex');
+  return expected.length === given.length && timingSafeEqual(expected, given);
+}
+
+/**
+ * Derived from the report and its field stamps, which only change when
+ * someone edits it. Dashboards re-upload everything when the sync server
+ * restarts; those copies carry the same stamps and so the same event ID.
+ */
+export function eventId(report: EmergencyReport): string {
+  const stamps = report.sync?.stamps ?? {};
+  const version = Object.keys(stamps).sort().map(field => [field, stamps[field].at, stamps[field].by]);
+  return createHash('sha256').update(JSON.stringify([report.id, version])).digest('hex').slice(0, 32);
+}
+
+export function reportEvent(report: EmergencyReport, previous: EmergencyReport | undefined): WebhookEvent {
+  const changedFields = previous
+    ? Object.keys(report.sync?.stamps ?? {}).filter(field =>
+        JSON.stringify(report.sync?.stamps[field]) !== JSON.stringify(previous.sync?.stamps[field]))
+    : [];
+  return {
+    id: eventId(report),
+    type: previous ? 'report.updated' : 'report.created',
+    occurredAt: Date.now(),
+    changedFields,
+    report: { ...report, triage: scoreReport(report) }
+  };
+}
+
+/**
+ * Posts report events to every endpoint whose routes match. Each delivery is
+ * retried with backoff on network errors, timeouts, 5xx, 408 and 429; other
+ * 4xx responses and exhausted retries go to the dead-letter log.
+ */
+export class WebhookDispatcher {
+  private delivered: Promise<Set<string>> | null = null; // `${endpointId}|${eventId}`
+  private inFlight = new Set<string>(); // Same keys, still being attempted; a replay must not start a second delivery
+
+  constructor(private config: WebhookConfig) {}
+
+  private deliveryKey(endpoint: WebhookEndpoint, event: WebhookEvent) {
+    return `${endpoint.id}|${event.id}`;
+  }
+
+  // Read once; a missing or damaged log only means replays may be sent again
+  private loadDelivered(): Promise<Set<string>> {
+    this.delivered ??= readFile(this.config.deliveryLogPath, 'utf8')
+      .then(text => new Set(text.split('\n').flatMap(line => {
+        try {
+          const entry = JSON.parse(line);
+          return typeof entry?.endpointId === 'string' && typeof entry?.eventId === 'string' ? [`${entry.endpointId}|${entry.eventId}`] : [];
+        } catch {
+          return [];
+        }
+      })))
+      .catch(() => new Set<string>());
+    return this.delivered;
+  }
+
+  async dispatch(event: WebhookEvent) {
+    const delivered = await this.loadDelivered();
+    this.config.endpoints
+      .filter(endpoint => endpointWants(endpoint, event))
+      .forEach(endpoint => {
+        const key = this.deliveryKey(endpoint, event);
+        if (delivered.has(key) || this.inFlight.has(key)) return;
+        this.inFlight.add(key);
+        void this.deliver(endpoint, event).finally(() => this.inFlight.delete(key));
+      });
+  }
+
+  private async deliver(endpoint: WebhookEndpoint, event: WebhookEvent) {
+    const body = JSON.stringify(event);
+    const policy = { maxAttempts: this.config.maxAttempts, baseDelayMs: 1000, maxDelayMs: 60000 };
+    let lastError = '';
+    let attempts = 0;
+
+    while (attempts < policy.maxAttempts) {
+      attempts++;
+      try {
+        const res = await fetch(endpoint.url, {
+          method: 'POST',
+          headers: {
+            'Content-Type': 'application/json',
+            'X-DisasterConnect-Event': event.type,
+            'X-DisasterConnect-Delivery': event.id,
+            [SIGNATURE_HEADER]: signPayload(endpoint.secret, body)
+          },
+          body,
+          signal: AbortSignal.timeout(this.config.timeoutMs)
+        });
+        if (res.ok) {
+          await this.recordDelivery(endpoint, event);
+          return;
+        }
+
+        lastError = `HTTP ${res.status}`;
+        const retryable = res.status >= 500 || res.status === 408 || res.status === 429;
+        if (!retryable) break;
+      } catch (e) {
+        lastError = e instanceof Error ? e.message : String(e);
+      }
+
+      if (attempts < policy.maxAttempts) {
+        await new Promise(resolve => setTimeout(resolve, backoffDelay(attempts, policy)));
+      }
+    }
+
+    console.warn(`Webhook ${endpoint.id} gave up on ${event.type} for report ${event.report.id}: ${lastError}`);
+    await this.deadLetter({
+      endpointId: endpoint.id,
+      url: endpoint.url,
+      event,
+      attempts,
+      lastError,
+      failedAt: Date.now()
+    });
+  }
+
+  private async recordDelivery(endpoint: WebhookEndpoint, event: WebhookEvent) {
+    (await this.loadDelivered()).add(this.deliveryKey(endpoint, event));
+    try {
+      await appendFile(this.config.deliveryLogPath, JSON.stringify({ endpointId: endpoint.id, eventId: event.id, deliveredAt: Date.now() }) + '\n');
+    } catch (e) {
+      console.error('Failed to write webhook delivery log', e);
+    }
+  }
+
+  private async deadLetter(entry: DeadLetter) {
+    try {
+      await appendFile(this.config.deadLetterPath, JSON.stringify(entry) + '\n');
+    } catch (e) {
+      console.error('Failed to write webhook dead letter', e);
+    }
+  }
+}
@@ -0,0 +1,228 @@
+import { EmergencyReport, ReportStatus } from "../types";
+import { CallSession, callDuration } from "./callLog";
+import { filterReports, MapFilters } from "./mapLayers";
+import { CANONICAL_LANGUAGE, Language, statusLabel, timeRangeLabel, translate } from "./i18n";
+import { EMERGENCY_TYPES, EmergencyType, normalizeEmergencyType } from "./reportValidation";
+import { isActiveStatus } from "./reportWorkflow";
+
+// Same shape as the map filters so the two read alike, but kept separately
+export type AnalyticsFilters = MapFilters;
+
+export const TYPE_COLORS: Record<EmergencyType, string> = {
+  Flood: '#3b82f6',
+  Fire: '#ef4444',
+  Earthquake: '#a16207',
+  Storm: '#8b5cf6',
+  Landslide: '#84cc16',
+  Trapped: '#f97316',
+  Injury: '#ec4899',
+  Medical: '#14b8a6',
+  Hazmat: '#eab308',
+  Other: '#6b7280'
+};
+
+// Statuses in the order a report normally moves through them
+export const FUNNEL_STAGES: ReportStatus[] = ['pending', 'acknowledged', 'dispatched', 'en_route', 'resolved'];
+
+const MINUTE_MS = 60000;
+const BUCKET_SIZES_MS = [5, 15, 30, 60, 180, 360, 720, 1440, 10080].map(minutes => minutes * MINUTE_MS);
+const MAX_BUCKETS = 48;
+const TOP_NEEDS = 12;
+
+export type Milestone = 'firstResponse' | 'dispatch' | 'resolution';
+
+export interface VolumeBucket {
+  start: number;
+  counts: Partial<Record<EmergencyType, number>>;
+  total: number;
+}
+
+export interface DurationStats {
+  count: number;
+  medianMs?: number;
+  p90Ms?: number;
+}
+
+export interface AnalyticsSnapshot {
+  generatedAt: number;
+  filters: AnalyticsFilters;
+  from: number;
+  to: number;
+  totals: { reports: number; active: number; people: number; withoutPeopleCount: number };
+  volume: { bucketMs: number; types: EmergencyType[]; buckets: VolumeBucket[] };
+  funnel: { status: ReportStatus; count: number }[];
+  cancelled: number;
+  timeInState: ({ status: ReportStatus } & DurationStats)[];
+  milestones: ({ id: Milestone; label: string } & DurationStats)[]; // Measured from when the report was filed
+  calls: { count: number; connected: number; failed: number; withReport: number; reconnects: number; meanMs?: number; longestMs?: number } & DurationStats;
+  needs: { need: string; count: number }[];
+}
+
+// Nearest-rank percentile of an unsorted list
+export function percentile(values: number[], p: number): number | undefined {
+  if (values.length === 0) return undefined;
+  const sorted = [...values].sort((a, b) => a - b);
+  return sorted[Math.min(sorted.length - 1, Math.max(0, Math.ceil(p * sorted.length) - 1))];
+}
+
+function durationStats(values: number[]): DurationStats {
+  return { count: values.length, medianMs: percentile(values, 0.5), p90Ms: percentile(values, 0.9) };
+}
+
+export function formatDuration(ms: number | undefined): string {
+  if (ms === undefined) return '-';
+  const minutes = Math.round(ms / MINUTE_MS);
+  if (ms < MINUTE_MS) return `${Math.round(ms / 1000)}s`;
+  if (minutes < 60) return `${minutes}m`;
+  const hours = Math.floor(minutes / 60);
+  return hours < 48 ? `${hours}h ${minutes % 60}m` : `${Math.round(hours / 24)}d`;
+}
+
+// Smallest bucket that still fits the span into MAX_BUCKETS bars
+function bucketSizeFor(spanMs: number): number {
+  return BUCKET_SIZES_MS.find(size => spanMs / size <= MAX_BUCKETS) ?? BUCKET_SIZES_MS[BUCKET_SIZES_MS.length - 1];
+}
+
+export function volumeSeries(reports: EmergencyReport[], from: number, to: number): AnalyticsSnapshot['volume'] {
+  const bucketMs = bucketSizeFor(to - from);
+  const first = Math.floor(from / bucketMs) * bucketMs;
+  const buckets: VolumeBucket[] = [];
+  for (let start = first; start <= to; start += bucketMs) buckets.push({ start, counts: {}, total: 0 });
+
+  const seen = new Set<EmergencyType>();
+  reports.forEach(r => {
+    const bucket = buckets[Math.floor((r.timestamp - first) / bucketMs)];
+    if (!bucket) return;
+    const type = normalizeEmergencyType(r.emergencyType || '');
+    bucket.counts[type] = (bucket.counts[type] ?? 0) + 1;
+    bucket.total++;
+    seen.add(type);
+  });
+  return { bucketMs, types: EMERGENCY_TYPES.filter(t => seen.has(t)), buckets };
+}
+
+// Reports are counted at every stage up to the furthest one they reached, even if some were skipped
+export function statusFunnel(reports: EmergencyReport[]): { funnel: AnalyticsSnapshot['funnel']; cancelled: number } {
+  const furthest = reports.map(r => Math.max(
+    FUNNEL_STAGES.indexOf(r.status),
+    ...(r.history ?? []).map(change => FUNNEL_STAGES.indexOf(change.to)),
+    0
+  ));
+  return {
+    funnel: FUNNEL_STAGES.map((status, i) => ({ status, count: furthest.filter(reached => reached >= i).length })),
+    cancelled: reports.filter(r => r.status === 'cancelled').length
+  };
+}
+
+// Only finished stays count; a report still pending has not yet spent its time in that state
+export function timeInState(reports: EmergencyReport[]): AnalyticsSnapshot['timeInState'] {
+  const spans: Partial<Record<ReportStatus, number[]>> = {};
+  reports.forEach(r => {
+    const history = [...(r.history ?? [])].sort((a, b) => a.at - b.at);
+    history.slice(0, -1).forEach((change, i) => {
+      (spans[change.to] ??= []).push(history[i + 1].at - change.at);
+    });
+  });
+  return FUNNEL_STAGES.filter(status => status !== 'resolved')
+    .map(status => ({ status, ...durationStats(spans[status] ?? []) }));
+}
+
+function timeUntil(reports: EmergencyReport[], reached: (status: ReportStatus) => boolean): DurationStats {
+  return durationStats(reports.flatMap(r => {
+    const change = (r.history ?? []).filter(c => c.from !== null && reached(c.to)).sort((a, b) => a.at - b.at)[0];
+    return change ? [Math.max(0, change.at - r.timestamp)] : [];
+  }));
+}
+
+export function milestones(reports: EmergencyReport[]): AnalyticsSnapshot['milestones'] {
+  return [
+    { id: 'firstResponse', label: 'First response', ...timeUntil(reports, status => status !== 'pending') },
+    { id: 'dispatch', label: 'Dispatch', ...timeUntil(reports, status => status === 'dispatched') },
+    { id: 'resolution', label: 'Resolution', ...timeUntil(reports, status => status === 'resolved') }
+  ];
+}
+
+export function callStats(calls: CallSession[]): AnalyticsSnapshot['calls'] {
+  const durations = calls.map(callDuration).filter((ms): ms is number => ms !== undefined);
+  return {
+    ...durationStats(durations),
+    count: calls.length,
+    connected: durations.length,
+    failed: calls.filter(c => c.outcome === 'failed').length,
+    withReport: calls.filter(c => c.reportIds.length > 0).length,
+    reconnects: calls.reduce((sum, c) => sum + c.reconnects, 0),
+    meanMs: durations.length > 0 ? durations.reduce((sum, ms) => sum + ms, 0) / durations.length : undefined,
+    longestMs: durations.length > 0 ? Math.max(...durations) : undefined
+  };
+}
+
+// criticalNeeds is free text: "Insulin, drinking water and a boat" counts as three needs
+export function splitNeeds(text: string | undefined): string[] {
+  return (text ?? '')
+    .split(/[,;/\n]|\band\b|&/i)
+    .map(need => need.trim().replace(/^(an?|some|more)\s+/i, '').replace(/\.$/, '').toLowerCase())
+    .filter(need => need.length > 1 && need !== 'none');
+}
+
+export function needsBreakdown(reports: EmergencyReport[]): AnalyticsSnapshot['needs'] {
+  const counts = new Map<string, number>();
+  reports.forEach(r => new Set(splitNeeds(r.criticalNeeds)).forEach(need => counts.set(need, (counts.get(need) ?? 0) + 1)));
+  return [...counts.entries()]
+    .map(([need, count]) => ({ need: need.charAt(0).toUpperCase() + need.slice(1), count }))
+    .sort((a, b) => b.count - a.count || a.need.localeCompare(b.need))
+    .slice(0, TOP_NEEDS);
+}
+
+/**
+ * Everything the analytics view shows, computed from the reports and calls
+ * that pass the filters. Calls are kept when they filed a matching report,
+ * or, with no type or status filter, when they filed nothing.
+ */
+export function buildAnalytics(
+  reports: EmergencyReport[],
+  calls: CallSession[],
+  filters: AnalyticsFilters,
+  now: number = Date.now()
+): AnalyticsSnapshot {
+  const matching = filterReports(reports, filters, now);
+  const matchingIds = new Set(matching.map(r => r.id));
+  const unfiltered = filters.types.length === 0 && filters.statuses.length === 0;
+  const matchingCalls = calls.filter(call =>
+    (filters.timeRangeHours === null || now - call.startedAt <= filters.timeRangeHours * 3600000)
+    && (call.reportIds.some(id => matchingIds.has(id)) || (unfiltered && call.reportIds.length === 0)));
+
+  const from = filters.timeRangeHours !== null
+    ? now - filters.timeRangeHours * 3600000
+    : Math.min(now - 3600000, ...matching.map(r => r.timestamp));
+  const { funnel, cancelled } = statusFunnel(matching);
+
+  return {
+    generatedAt: now,
+    filters,
+    from,
+    to: now,
+    totals: {
+      reports: matching.length,
+      active: matching.filter(r => isActiveStatus(r.status)).length,
+      people: matching.reduce((sum, r) => sum + (r.peopleCount ?? 0), 0),
+      withoutPeopleCount: matching.filter(r => r.peopleCount === undefined).length
+    },
+    volume: volumeSeries(matching, from, now),
+    funnel,
+    cancelled,
+    timeInState: timeInState(matching),
+    milestones: milestones(matching),
+    calls: callStats(matchingCalls),
+    needs: needsBreakdown(matching)
+  };
+}
+
+// One line describing the filters, for exports (in English) and headings
+export function describeFilters(filters: AnalyticsFilters, language: Language = CANONICAL_LANGUAGE): string {
+  const range = timeRangeLabel(language, filters.timeRangeHours);
+  const types = filters.types.length > 0 ? filters.types.join(', ') : translate(language, 'allTypes');
+  const statuses = filters.statuses.length > 0
+    ? filters.statuses.map(s => statusLabel(language, s)).join(', ')
+    : translate(language, 'allStatuses');
+  return `${range} · ${types} · ${statuses}`;
+}
@@ -0,0 +1,204 @@
+import { AnalyticsSnapshot, describeFilters, formatDuration, TYPE_COLORS } from "./analytics";
+import { csvField } from "./reportExchange";
+import { STATUS_LABELS } from "./reportWorkflow";
+
+const CSV_COLUMNS = ['section', 'metric', 'dimension', 'value'];
+
+/**
+ * Long-format CSV of a snapshot: one row per number, so every section fits
+ * the same four columns and spreadsheets can pivot on section and metric.
+ * Durations are in minutes.
+ */
+export function analyticsToCSV(snapshot: AnalyticsSnapshot): string {
+  const rows: unknown[][] = [];
+  const minutes = (ms: number | undefined) => ms !== undefined ? (ms / 60000).toFixed(1) : '';
+  const row = (...cells: unknown[]) => rows.push(cells);
+
+  row('snapshot', 'generated_at', '', new Date(snapshot.generatedAt).toISOString());
+  row('snapshot', 'filters', '', describeFilters(snapshot.filters));
+  row('snapshot', 'from', '', new Date(snapshot.from).toISOString());
+  row('totals', 'reports', '', snapshot.totals.reports);
+  row('totals', 'active', '', snapshot.totals.active);
+  row('totals', 'people_affected', '', snapshot.totals.people);
+  row('totals', 'reports_without_people_count', '', snapshot.totals.withoutPeopleCount);
+
+  snapshot.volume.buckets.forEach(bucket => {
+    const start = new Date(bucket.start).toISOString();
+    snapshot.volume.types.forEach(type => row('volume', start, type, bucket.counts[type] ?? 0));
+  });
+
+  snapshot.funnel.forEach(stage => row('funnel', 'reached', STATUS_LABELS[stage.status], stage.count));
+  row('funnel', 'cancelled', '', snapshot.cancelled);
+
+  snapshot.timeInState.forEach(state => {
+    row('time_in_state', 'count', STATUS_LABELS[state.status], state.count);
+    row('time_in_state', 'median_minutes', STATUS_LABELS[state.status], minutes(state.medianMs));
+    row('time_in_state', 'p90_minutes', STATUS_LABELS[state.status], minutes(state.p90Ms));
+  });
+  snapshot.milestones.forEach(milestone => {
+    row('time_to', 'count', milestone.label, milestone.count);
+    row('time_to', 'median_minutes', milestone.label, minutes(milestone.medianMs));
+    row('time_to', 'p90_minutes', milestone.label, minutes(milestone.p90Ms));
+  });
+
+  const { calls } = snapshot;
+  row('calls', 'count', '', calls.count);
+  row('calls', 'connected', '', calls.connected);
+  row('calls', 'failed', '', calls.failed);
+  row('calls', 'with_report', '', calls.withReport);
+  row('calls', 'reconnects', '', calls.reconnects);
+  row('calls', 'median_minutes', '', minutes(calls.medianMs));
+  row('calls', 'mean_minutes', '', minutes(calls.meanMs));
+  row('calls', 'longest_minutes', '', minutes(calls.longestMs));
+
+  snapshot.needs.forEach(need => row('critical_needs', 'reports', need.need, need.count));
+
+  return [CSV_COLUMNS.join(','), ...rows.map(cells => cells.map(csvField).join(','))].join('\r\n') + '\r\n';
+}
+
+const PNG_WIDTH = 960;
+const PAD = 24;
+const COLORS = { background: '#111827', panel: '#1f2937', text: '#f3f4f6', muted: '#9ca3af', bar: '#3b82f6' };
+
+/**
+ * Draws the snapshot onto a canvas: the same sections as the analytics view,
+ * laid out for a report or a chat message rather than the screen.
+ */
+export async function analyticsToPNG(snapshot: AnalyticsSnapshot): Promise<Blob> {
+  const canvas = document.createElement('canvas');
+  const scale = 2; // Sharp on high-density screens
+  const height = 940;
+  canvas.width = PNG_WIDTH * scale;
+  canvas.height = height * scale;
+  const ctx = canvas.getContext('2d')!;
+  ctx.scale(scale, scale);
+  ctx.fillStyle = COLORS.background;
+  ctx.fillRect(0, 0, PNG_WIDTH, height);
+
+  const text = (value: string, x: number, y: number, options: { size?: number; color?: string; bold?: boolean; align?: CanvasTextAlign } = {}) => {
+    ctx.font = `${options.bold ? 'bold ' : ''}${options.size ?? 12}px system-ui, sans-serif`;
+    ctx.fillStyle = options.color ?? COLORS.text;
+    ctx.textAlign = options.align ?? 'left';
+    ctx.fillText(value, x, y);
+  };
+  const panel = (x: number, y: number, w: number, h: number, title: string) => {
+    ctx.fillStyle = COLORS.panel;
+    ctx.fillRect(x, y, w, h);
+    text(title, x + 12, y + 20, { bold: true, size: 13 });
+  };
+
+  text('Disaster Connect · Operations', PAD, 36, { size: 20, bold: true });
+  text(`${describeFilters(snapshot.filters)} · ${new Date(snapshot.generatedAt).toLocaleString()}`, PAD, 58, { color: COLORS.muted });
+
+  // Headline numbers
+  const tiles: [string, string][] = [
+    ['Reports', String(snapshot.totals.reports)],
+    ['Active', String(snapshot.totals.active)],
+    ['People affected', String(snapshot.totals.people)],
+    ['Median to dispatch', formatDuration(snapshot.milestones.find(m => m.id === 'dispatch')?.medianMs)],
+    ['Calls', String(snapshot.calls.count)],
+    ['Median call', formatDuration(snapshot.calls.medianMs)]
+  ];
+  const tileWidth = (PNG_WIDTH - PAD * 2 - 10 * (tiles.length - 1)) / tiles.length;
+  tiles.forEach(([label, value], i) => {
+    const x = PAD + i * (tileWidth + 10);
+    ctx.fillStyle = COLORS.panel;
+    ctx.fillRect(x, 76, tileWidth, 64);
+    text(label, x + 10, 96, { color: COLORS.muted, size: 11 });
+    text(value, x + 10, 126, { size: 22, bold: true });
+  });
+
+  // Volume by type, stacked
+  const chart = { x: PAD, y: 156, w: PNG_WIDTH - PAD * 2, h: 250 };
+  panel(chart.x, chart.y, chart.w, chart.h, 'Reports over time by type');
+  const { buckets, types } = snapshot.volume;
+  const max = Math.max(1, ...buckets.map(b => b.total));
+  const plot = { x: chart.x + 40, y: chart.y + 36, w: chart.w - 56, h: chart.h - 84 };
+  const barWidth = plot.w / Math.max(1, buckets.length);
+  text(String(max), plot.x - 6, plot.y + 8, { color: COLORS.muted, align: 'right', size: 10 });
+  text('0', plot.x - 6, plot.y + plot.h, { color: COLORS.muted, align: 'right', size: 10 });
+  buckets.forEach((bucket, i) => {
+    let top = plot.y + plot.h;
+    types.forEach(type => {
+      const h = ((bucket.counts[type] ?? 0) / max) * plot.h;
+      ctx.fillStyle = TYPE_COLORS[type];
+      ctx.fillRect(plot.x + i * barWidth + 1, top - h, Math.max(1, barWidth - 2), h);
+      top -= h;
+    });
+  });
+  const axisLabel = (ts: number) => new Date(ts).toLocaleString([], { month: 'short', day: 'numeric', hour: '2-digit', minute: '2-digit' });
+  if (buckets.length > 0) {
+    text(axisLabel(buckets[0].start), plot.x, plot.y + plot.h + 14, { color: COLORS.muted, size: 10 });
+    text(axisLabel(buckets[buckets.length - 1].start), plot.x + plot.w, plot.y + plot.h + 14, { color: COLORS.muted, size: 10, align: 'right' });
+  }
+  let legendX = plot.x;
+  types.forEach(type => {
+    ctx.fillStyle = TYPE_COLORS[type];
+    ctx.fillRect(legendX, chart.y + chart.h - 22, 10, 10);
+    text(type, legendX + 14, chart.y + chart.h - 13, { size: 11, color: COLORS.muted });
+    legendX += 24 + ctx.measureText(type).width;
+  });
+
+  // Horizontal bar list used by the funnel and the needs
+  const barList = (x: number, y: number, w: number, items: { label: string; value: number; note?: string; color?: string }[]) => {
+    const top = Math.max(1, ...items.map(item => item.value));
+    items.forEach((item, i) => {
+      const rowY = y + i * 24;
+      text(item.label, x, rowY + 12, { size: 11, color: COLORS.muted });
+      ctx.fillStyle = item.color ?? COLORS.bar;
+      ctx.fillRect(x + 130, rowY + 2, ((w - 190) * item.value) / top, 14);
+      text(item.note ?? String(item.value), x + w, rowY + 13, { size: 11, align: 'right' });
+    });
+  };
+
+  const half = (PNG_WIDTH - PAD * 2 - 16) / 2;
+  const created = snapshot.funnel[0]?.count ?? 0;
+  panel(PAD, 422, half, 200, 'Status funnel');
+  barList(PAD + 12, 440, half - 24, [
+    ...snapshot.funnel.map(stage => ({
+      label: STATUS_LABELS[stage.status],
+      value: stage.count,
+      note: created > 0 ? `${stage.count} (${Math.round((stage.count / created) * 100)}%)` : '0'
+    })),
+    { label: STATUS_LABELS.cancelled, value: snapshot.cancelled, color: '#6b7280' }
+  ]);
+
+  panel(PAD + half + 16, 422, half, 200, 'Time in state (median / p90)');
+  const rows = [
+    ...snapshot.timeInState.map(s => [STATUS_LABELS[s.status], s]),
+    ...snapshot.milestones.map(m => [`To ${m.label.toLowerCase()}`, m])
+  ] as [string, { count: number; medianMs?: number; p90Ms?: number }][];
+  rows.forEach(([label, stats], i) => {
+    const y = 456 + i * 22;
+    const x = PAD + half + 28;
+    text(label, x, y, { size: 11, color: COLORS.muted });
+    text(`${formatDuration(stats.medianMs)} / ${formatDuration(stats.p90Ms)}`, x + half - 110, y, { size: 11, align: 'right' });
+    text(`n=${stats.count}`, x + half - 24, y, { size: 11, align: 'right', color: COLORS.muted });
+  });
+
+  panel(PAD, 638, half, 286, 'Critical needs');
+  if (snapshot.needs.length === 0) text('None recorded', PAD + 12, 668, { color: COLORS.muted, size: 11 });
+  barList(PAD + 12, 656, half - 24, snapshot.needs.slice(0, 10).map(n => ({ label: n.need.slice(0, 20), value: n.count, color: '#f97316' })));
+
+  panel(PAD + half + 16, 638, half, 286, 'Calls');
+  const { calls } = snapshot;
+  ([
+    ['Calls', String(calls.count)],
+    ['Connected', String(calls.connected)],
+    ['Failed', String(calls.failed)],
+    ['Filed a report', String(calls.withReport)],
+    ['Reconnects', String(calls.reconnects)],
+    ['Median duration', formatDuration(calls.medianMs)],
+    ['Mean duration', formatDuration(calls.meanMs)],
+    ['Longest', formatDuration(calls.longestMs)]
+  ] as [string, string][]).forEach(([label, value], i) => {
+    const y = 670 + i * 24;
+    text(label, PAD + half + 28, y, { size: 12, color: COLORS.muted });
+    text(value, PAD + half * 2 - 12 + 16, y, { size: 12, align: 'right' });
+  });
+
+  return new Promise((resolve, reject) => canvas.toBlob(
+    blob => blob ? resolve(blob) : reject(new Error('Could not encode the analytics image.')),
+    'image/png'
+  ));
+}
@@ -0,0 +1,86 @@
+import { openDatabase, promisifyRequest, promisifyTransaction, STORES } from "./database";
+
+export const MAX_ATTACHMENT_BYTES = 25 * 1024 * 1024;
+const THUMBNAIL_PX = 160;
+
+// Photos are the common case; PDFs and office files are kept for reference
+export const ATTACHMENT_ACCEPT = 'image/*,application/pdf,.doc,.docx,.xls,.xlsx,.txt';
+
+export interface Attachment {
+  id: string;
+  reportId: string;
+  name: string;
+  type: string; // MIME type as reported by the browser
+  size: number;
+  addedBy: string;
+  addedAt: number;
+  blob: Blob;
+  thumbnail?: Blob; // JPEG preview, images only
+}
+
+export const isImage = (attachment: Pick<Attachment, 'type'>) => attachment.type.startsWith('image/');
+
+// Scaled-down JPEG so the detail panel doesn't decode full-size photos; undefined if the image can't be read
+export async function createThumbnail(image: Blob): Promise<Blob | undefined> {
+  try {
+    const bitmap = await createImageBitmap(image);
+    const scale = Math.min(1, THUMBNAIL_PX / Math.max(bitmap.width, bitmap.height));
+    const canvas = document.createElement('canvas');
+    canvas.width = Math.max(1, Math.round(bitmap.width * scale));
+    canvas.height = Math.max(1, Math.round(bitmap.height * scale));
+    canvas.getContext('2d')!.drawImage(bitmap, 0, 0, canvas.width, canvas.height);
+    bitmap.close();
+    return await new Promise<Blob | undefined>(resolve => canvas.toBlob(blob => resolve(blob ?? undefined), 'image/jpeg', 0.8));
+  } catch (e) {
+    console.warn('Could not create thumbnail', e);
+    return undefined;
+  }
+}
+
+// Throws for files over the size limit so the caller can tell the operator which one
+export async function createAttachment(file: File, reportId: string, addedBy: string): Promise<Attachment> {
+  if (file.size > MAX_ATTACHMENT_BYTES) {
+    throw new Error(`${file.name} is larger than ${MAX_ATTACHMENT_BYTES / (1024 * 1024)} MB`);
+  }
+  return {
+    id: `att-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`,
+    reportId,
+    name: file.name,
+    type: file.type || 'application/octet-stream',
+    size: file.size,
+    addedBy,
+    addedAt: Date.now(),
+    blob: file,
+    thumbnail: file.type.startsWith('image/') ? await createThumbnail(file) : undefined
+  };
+}
+
+/**
+ * Files attached to reports, kept in IndexedDB on this device only.
+ * Reports list their attachment IDs; the blobs never go through sync.
+ */
+export class AttachmentStore {
+  async getMany(ids: string[]): Promise<Attachment[]> {
+    const db = await openDatabase();
+    const tx = db.transaction(STORES.attachments, 'readonly');
+    const store = tx.objectStore(STORES.attachments);
+    const found = await Promise.all(ids.map(id => promisifyRequest<Attachment | undefined>(store.get(id))));
+    return found.filter((a): a is Attachment => !!a);
+  }
+
+  async save(...attachments: Attachment[]): Promise<void> {
+    const db = await openDatabase();
+    const tx = db.transaction(STORES.attachments, 'readwrite');
+    attachments.forEach(attachment => tx.objectStore(STORES.attachments).put(attachment));
+    await promisifyTransaction(tx);
+  }
+
+  async delete(id: string): Promise<void> {
+    const db = await openDatabase();
+    const tx = db.transaction(STORES.attachments, 'readwrite');
+    tx.objectStore(STORES.attachments).delete(id);
+    await promisifyTransaction(tx);
+  }
+}
+
+export const attachmentStore = new AttachmentStore();
@@ -45,3 +45,53 @@ export function float32ToInt16PCM(float32Array: Float32Array): Int16Array {
   }
   return int16Array;
 }
+
+// Linear interpolation is plenty for speech between the 16k and 24k rates used here
+export function resamplePCM(data: Int16Array, fromRate: number, toRate: number): Int16Array {
+  if (fromRate === toRate || data.length === 0) return data;
+  const length = Math.round(data.length * toRate / fromRate);
+  const out = new Int16Array(length);
+  const step = fromRate / toRate;
+  for (let i = 0; i < length; i++) {
+    const pos = i * step;
+    const index = Math.floor(pos);
+    const next = Math.min(index + 1, data.length - 1);
+    out[i] = Math.round(data[index] + (data[next] - data[index]) * (pos - index));
+  }
+  return out;
+}
+
+// 16-bit PCM WAV; channels must be the same length and are interleaved in order
+export function encodeWav(channels: Int16Array[], sampleRate: number): Blob {
+  const numChannels = channels.length;
+  const frames = channels[0]?.length ?? 0;
+  const dataSize = frames * numChannels * 2;
+  const buffer = new ArrayBuffer(44 + dataSize);
+  const view = new DataView(buffer);
+  const writeString = (offset: number, text: string) => {
+    for (let i = 0; i < text.length; i++) view.setUint8(offset + i, text.charCodeAt(i));
+  };
+
+  writeString(0, 'RIFF');
+  view.setUint32(4, 36 + dataSize, true);
+  writeString(8, 'WAVE');
+  writeString(12, 'fmt ');
+  view.setUint32(16, 16, true);
+  view.setUint16(20, 1, true); // PCM
+  view.setUint16(22, numChannels, true);
+  view.setUint32(24, sampleRate, true);
+  view.setUint32(28, sampleRate * numChannels * 2, true);
+  view.setUint16(32, numChannels * 2, true);
+  view.setUint16(34, 16, true);
+  writeString(36, 'data');
+  view.setUint32(40, dataSize, true);
+
+  let offset = 44;
+  for (let i = 0; i < frames; i++) {
+    for (let c = 0; c < numChannels; c++) {
+      view.setInt16(offset, channels[c][i], true);
+      offset += 2;
+    }
+  }
+  return new Blob([buffer], { type: 'audio/wav' });
+}
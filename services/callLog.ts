@@ -0,0 +1,36 @@
+import { openDatabase, promisifyRequest, promisifyTransaction, STORES } from "./database";
+
+// One live call from pressing the call button to hanging up or failing
+export interface CallSession {
+  id: string;
+  startedAt: number;
+  connectedAt?: number; // First time the line went live; unset if it never did
+  endedAt: number;
+  outcome: 'ended' | 'failed';
+  reconnects: number; // Times the line dropped and was picked up again
+  reportIds: string[]; // Tickets filed during the call
+}
+
+// Talk time; calls that never connected have none
+export function callDuration(call: CallSession): number | undefined {
+  return call.connectedAt !== undefined ? Math.max(0, call.endedAt - call.connectedAt) : undefined;
+}
+
+// Kept on this device for the analytics view; not sent through sync
+export class CallLogRepository {
+  async getAll(): Promise<CallSession[]> {
+    const db = await openDatabase();
+    const tx = db.transaction(STORES.calls, 'readonly');
+    const calls = await promisifyRequest<CallSession[]>(tx.objectStore(STORES.calls).getAll());
+    return calls.sort((a, b) => a.startedAt - b.startedAt);
+  }
+
+  async save(call: CallSession): Promise<void> {
+    const db = await openDatabase();
+    const tx = db.transaction(STORES.calls, 'readwrite');
+    tx.objectStore(STORES.calls).put(call);
+    await promisifyTransaction(tx);
+  }
+}
+
+export const callLogRepository = new CallLogRepository();
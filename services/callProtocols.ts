@@ -0,0 +1,333 @@
+import { EmergencyReport } from "../types";
+import { Language, LANGUAGES } from "./i18n";
+import { DetailArgs, EMERGENCY_TYPES, EmergencyType, normalizeEmergencyType, ValidationResult } from "./reportValidation";
+
+// Details asked on the tool itself; protocols choose which of them a call needs
+export type CoreDetail = 'location' | 'emergencyType' | 'description' | 'peopleCount' | 'criticalNeeds';
+
+export const CORE_DETAILS: CoreDetail[] = ['location', 'emergencyType', 'description', 'peopleCount', 'criticalNeeds'];
+
+export const CORE_DETAIL_LABELS: Record<CoreDetail, string> = {
+  location: 'Location',
+  emergencyType: 'Emergency type',
+  description: 'What is happening',
+  peopleCount: 'People involved',
+  criticalNeeds: 'Critical needs'
+};
+
+// Extra detail a protocol asks for; answered in the tool's `details` object under `key`
+export interface ProtocolQuestion {
+  key: string;
+  label: string;
+  question: string; // What the dispatcher asks, in English
+}
+
+export interface EmergencyProtocol {
+  emergencyType: EmergencyType;
+  required?: CoreDetail[]; // Replaces the set's baseRequired for this type
+  questions?: ProtocolQuestion[]; // All of them are required
+  advice?: Partial<Record<Language, string>>; // Given as soon as the type is known; English is the fallback
+}
+
+export interface ProtocolSet {
+  version: number; // Bumped by whoever edits the file; stored on every report filed with it
+  baseRequired: CoreDetail[];
+  protocols: EmergencyProtocol[];
+}
+
+export interface ChecklistItem {
+  key: string;
+  label: string;
+  kind: 'core' | 'question';
+  question?: string;
+  value?: string;
+  gatheredAt?: number;
+}
+
+// What the dispatcher has collected so far for the emergency being handled
+export interface CallChecklist {
+  protocolVersion: number;
+  emergencyType?: EmergencyType;
+  items: ChecklistItem[];
+  startedAt: number;
+  ticketId?: string; // Set once the emergency has been filed
+}
+
+// First value given for each detail key and when; later values overwrite but keep the time
+export type GatheredDetails = Record<string, { value: string; at: number }>;
+
+export const DEFAULT_PROTOCOLS: ProtocolSet = {
+  version: 1,
+  baseRequired: ['location', 'emergencyType', 'description', 'peopleCount', 'criticalNeeds'],
+  protocols: [
+    {
+      emergencyType: 'Flood',
+      questions: [{ key: 'waterLevel', label: 'Water level', question: 'How high is the water, and is it still rising?' }],
+      advice: {
+        en: 'If water is rising, move to higher ground immediately. Avoid walking through moving water - 6 inches can knock you down.',
+        es: 'Si el agua está subiendo, suba a un lugar alto de inmediato. No camine por agua en movimiento: 15 centímetros pueden derribarle.',
+        vi: 'Nếu nước đang dâng, hãy di chuyển lên chỗ cao ngay lập tức. Tránh đi qua dòng nước chảy - chỉ 15 cm nước cũng có thể làm bạn ngã.',
+        tl: 'Kung tumataas ang tubig, pumunta agad sa mataas na lugar. Huwag lumakad sa umaagos na tubig - kahit 15 sentimetro ay kaya kayong patumbahin.'
+      }
+    },
+    {
+      emergencyType: 'Fire',
+      questions: [{ key: 'peopleInside', label: 'People still inside', question: 'Is anyone still inside the burning building or area?' }],
+      advice: {
+        en: 'Stay low under smoke. If your clothes catch fire, stop-drop-and-roll. Don\'t open hot doors.',
+        es: 'Manténgase agachado por debajo del humo. Si su ropa se incendia, deténgase, tírese al suelo y ruede. No abra puertas calientes.',
+        vi: 'Cúi thấp người dưới lớp khói. Nếu quần áo bắt lửa, hãy dừng lại, nằm xuống và lăn. Không mở những cánh cửa đang nóng.',
+        tl: 'Manatiling mababa sa ilalim ng usok. Kung masunog ang damit, huminto, dumapa at gumulong. Huwag buksan ang mainit na pinto.'
+      }
+    },
+    {
+      emergencyType: 'Earthquake',
+      questions: [{ key: 'structuralDamage', label: 'Building damage', question: 'Is the building damaged, or are there signs it may collapse?' }],
+      advice: {
+        en: 'Drop, cover, and hold on. Stay away from windows. If outdoors, move away from buildings.',
+        es: 'Agáchese, cúbrase y sujétese. Aléjese de las ventanas. Si está afuera, aléjese de los edificios.',
+        vi: 'Hãy cúi xuống, tìm chỗ nấp và bám chắc. Tránh xa cửa sổ. Nếu ở ngoài trời, hãy tránh xa các tòa nhà.',
+        tl: 'Dumapa, magtago at kumapit. Lumayo sa mga bintana. Kung nasa labas, lumayo sa mga gusali.'
+      }
+    },
+    {
+      emergencyType: 'Trapped',
+      questions: [{ key: 'entrapment', label: 'What traps them', question: 'What is trapping them, and can they move or signal?' }],
+      advice: {
+        en: 'Stay calm and conserve energy. Make noise periodically to help rescuers locate you. Cover your mouth to avoid dust inhalation.',
+        es: 'Mantenga la calma y ahorre energía. Haga ruido de vez en cuando para que los rescatistas le encuentren. Cúbrase la boca para no respirar polvo.',
+        vi: 'Hãy bình tĩnh và giữ sức. Thỉnh thoảng tạo tiếng động để lực lượng cứu hộ tìm thấy bạn. Che miệng để tránh hít phải bụi.',
+        tl: 'Manatiling kalmado at magtipid ng lakas. Gumawa ng ingay paminsan-minsan para matagpuan kayo ng mga rescuer. Takpan ang bibig para hindi makalanghap ng alikabok.'
+      }
+    },
+    {
+      emergencyType: 'Injury',
+      questions: [{ key: 'injuries', label: 'Injuries', question: 'What are the injuries, and is anyone bleeding heavily or unconscious?' }],
+      advice: {
+        en: 'Apply pressure to stop bleeding. Keep the person still and warm. Don\'t move them if spinal injury is suspected.',
+        es: 'Presione la herida para detener el sangrado. Mantenga a la persona quieta y abrigada. No la mueva si sospecha una lesión de columna.',
+        vi: 'Ấn chặt vào vết thương để cầm máu. Giữ người bị thương nằm yên và ấm. Không di chuyển họ nếu nghi ngờ chấn thương cột sống.',
+        tl: 'Diinan ang sugat para tumigil ang pagdurugo. Panatilihing hindi gumagalaw at mainit ang pasyente. Huwag siyang galawin kung may hinalang pinsala sa gulugod.'
+      }
+    },
+    {
+      emergencyType: 'Medical',
+      questions: [{ key: 'consciousBreathing', label: 'Conscious and breathing', question: 'Is the patient conscious and breathing normally?' }]
+    },
+    {
+      emergencyType: 'Hazmat',
+      questions: [{ key: 'substance', label: 'Substance', question: 'What substance is involved, and is anyone feeling ill from it?' }]
+    }
+  ]
+};
+
+const PROTOCOLS_STORAGE_KEY = 'callProtocols';
+const QUESTION_KEY = /^[A-Za-z][A-Za-z0-9_]{0,39}$/;
+
+export function protocolFor(set: ProtocolSet, emergencyType: string | undefined): EmergencyProtocol | undefined {
+  if (!emergencyType) return undefined;
+  const type = normalizeEmergencyType(emergencyType);
+  return set.protocols.find(p => p.emergencyType === type);
+}
+
+// Advice in the spoken language when the protocol has it, otherwise the English text to be translated
+export function adviceFor(protocol: EmergencyProtocol, language: Language): { text: string; translated: boolean } | undefined {
+  const own = protocol.advice?.[language];
+  if (own) return { text: own, translated: true };
+  const english = protocol.advice?.en;
+  return english ? { text: english, translated: false } : undefined;
+}
+
+// Each question key once, with the emergency types that ask it
+export function allQuestions(set: ProtocolSet): { question: ProtocolQuestion; types: EmergencyType[] }[] {
+  const byKey = new Map<string, { question: ProtocolQuestion; types: EmergencyType[] }>();
+  set.protocols.forEach(protocol => protocol.questions?.forEach(question => {
+    const entry = byKey.get(question.key);
+    if (entry) entry.types.push(protocol.emergencyType);
+    else byKey.set(question.key, { question, types: [protocol.emergencyType] });
+  }));
+  return [...byKey.values()];
+}
+
+// Items a call of this type has to cover; only the base set until the type is known
+export function requiredItems(set: ProtocolSet, emergencyType?: string): Omit<ChecklistItem, 'value' | 'gatheredAt'>[] {
+  const protocol = protocolFor(set, emergencyType);
+  const core = protocol?.required ?? set.baseRequired;
+  return [
+    ...core.map(key => ({ key, label: CORE_DETAIL_LABELS[key], kind: 'core' as const })),
+    ...(protocol?.questions ?? []).map(q => ({ key: q.key, label: q.label, kind: 'question' as const, question: q.question }))
+  ];
+}
+
+/**
+ * Records the details in a recordDetails or reportEmergency call. A report
+ * without a place name is filed at the device location, so it counts as given.
+ */
+export function gatherDetails(gathered: GatheredDetails, args: DetailArgs & { filing?: boolean }, at: number): GatheredDetails {
+  const next = { ...gathered };
+  const set = (key: string, value: string | number | undefined) => {
+    if (value === undefined || value === '') return;
+    next[key] = { value: String(value), at: next[key]?.at ?? at };
+  };
+
+  const location = args.locationName
+    ?? (args.latitude !== undefined && args.longitude !== undefined ? `${args.latitude.toFixed(4)}, ${args.longitude.toFixed(4)}` : undefined);
+  set('location', location ?? (args.filing ? 'Current Location' : undefined));
+  set('emergencyType', args.emergencyType);
+  set('description', args.description);
+  set('peopleCount', args.peopleCount);
+  set('criticalNeeds', args.criticalNeeds);
+  Object.entries(args.details ?? {}).forEach(([key, value]) => set(key, value));
+  return next;
+}
+
+export function buildChecklist(set: ProtocolSet, gathered: GatheredDetails, startedAt: number): CallChecklist {
+  const emergencyType = gathered.emergencyType ? normalizeEmergencyType(gathered.emergencyType.value) : undefined;
+  return {
+    protocolVersion: set.version,
+    emergencyType,
+    startedAt,
+    items: requiredItems(set, emergencyType).map(item => ({
+      ...item,
+      value: gathered[item.key]?.value,
+      gatheredAt: gathered[item.key]?.at
+    }))
+  };
+}
+
+export function missingItems(checklist: CallChecklist): ChecklistItem[] {
+  return checklist.items.filter(item => item.gatheredAt === undefined);
+}
+
+// What a filed report keeps of its checklist: the answers and what was never given
+export function checklistReportFields(checklist: CallChecklist): Pick<EmergencyReport, 'details' | 'protocolVersion' | 'missingDetails'> {
+  const answers = checklist.items.filter(item => item.kind === 'question' && item.value !== undefined);
+  const missing = missingItems(checklist);
+  return {
+    details: answers.length > 0 ? Object.fromEntries(answers.map(item => [item.label, item.value!])) : undefined,
+    protocolVersion: checklist.protocolVersion,
+    missingDetails: missing.length > 0 ? missing.map(item => item.label) : undefined
+  };
+}
+
+function parseCoreList(value: unknown, path: string, errors: string[]): CoreDetail[] | undefined {
+  if (value === undefined) return undefined;
+  if (!Array.isArray(value)) {
+    errors.push(`${path} must be a list of ${CORE_DETAILS.join(', ')}.`);
+    return undefined;
+  }
+  const unknown = value.filter(v => !CORE_DETAILS.includes(v));
+  if (unknown.length > 0) errors.push(`${path} has unknown details: ${unknown.join(', ')}.`);
+  return value.filter((v): v is CoreDetail => CORE_DETAILS.includes(v));
+}
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+function parseQuestion(value: unknown, where: string, questions: ProtocolQuestion[], errors: string[]): ProtocolQuestion | null {
+  const q = isObject(value) ? value : {};
+  const { key, label, question } = q;
+  if (typeof key !== 'string' || !QUESTION_KEY.test(key) || (CORE_DETAILS as string[]).includes(key)) {
+    errors.push(`${where}.key must be a short identifier (letters, digits, _) that is not a core detail.`);
+  } else if (questions.some(existing => existing.key === key)) {
+    errors.push(`${where}.key "${key}" is used twice.`);
+  } else if (typeof question !== 'string' || !question.trim()) {
+    errors.push(`${where}.question is required.`);
+  } else {
+    return { key, label: typeof label === 'string' && label.trim() ? label.trim() : key, question: question.trim() };
+  }
+  return null;
+}
+
+function parseProtocol(value: unknown, index: number, errors: string[]): EmergencyProtocol | null {
+  const path = `protocols[${index}]`;
+  const raw = isObject(value) ? value : {};
+  const type = EMERGENCY_TYPES.find(t => t === raw.emergencyType);
+  if (!type) {
+    errors.push(`${path}.emergencyType must be one of ${EMERGENCY_TYPES.join(', ')}.`);
+    return null;
+  }
+
+  const questions: ProtocolQuestion[] = [];
+  if (raw.questions !== undefined && !Array.isArray(raw.questions)) errors.push(`${path}.questions must be a list.`);
+  (Array.isArray(raw.questions) ? raw.questions : []).forEach((q: unknown, i: number) => {
+    const question = parseQuestion(q, `${path}.questions[${i}]`, questions, errors);
+    if (question) questions.push(question);
+  });
+
+  let advice: EmergencyProtocol['advice'];
+  if (raw.advice !== undefined) {
+    const byLanguage = raw.advice;
+    if (!isObject(byLanguage)) {
+      errors.push(`${path}.advice must map language codes to text.`);
+    } else {
+      advice = Object.fromEntries(LANGUAGES.flatMap(code => {
+        const text = byLanguage[code];
+        return typeof text === 'string' && text.trim() ? [[code, text.trim()]] : [];
+      }));
+    }
+  }
+
+  return {
+    emergencyType: type,
+    required: parseCoreList(raw.required, `${path}.required`, errors),
+    questions: questions.length > 0 ? questions : undefined,
+    advice
+  };
+}
+
+/**
+ * Reads a protocol file as exported from the protocol menu. Any error
+ * rejects the whole file: a half-applied protocol would be worse than the
+ * one in use.
+ */
+export function parseProtocolSet(text: string): ValidationResult<ProtocolSet> {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch (e) {
+    return { ok: false, errors: [`Invalid JSON: ${e instanceof Error ? e.message : e}`] };
+  }
+
+  const root = isObject(data) ? data : {};
+  const errors: string[] = [];
+  const version = root.version;
+  if (typeof version !== 'number' || !Number.isInteger(version) || version < 1) errors.push('version must be a whole number of 1 or more.');
+  const baseRequired = parseCoreList(root.baseRequired, 'baseRequired', errors) ?? DEFAULT_PROTOCOLS.baseRequired;
+  if (!Array.isArray(root.protocols)) errors.push('protocols must be a list.');
+
+  const protocols: EmergencyProtocol[] = [];
+  (Array.isArray(root.protocols) ? root.protocols : []).forEach((raw: unknown, i: number) => {
+    const protocol = parseProtocol(raw, i, errors);
+    if (!protocol) return;
+    if (protocols.some(p => p.emergencyType === protocol.emergencyType)) {
+      errors.push(`protocols[${i}]: ${protocol.emergencyType} is defined twice.`);
+    } else {
+      protocols.push(protocol);
+    }
+  });
+
+  if (errors.length > 0) return { ok: false, errors };
+  return { ok: true, warnings: [], value: { version: version as number, baseRequired, protocols } };
+}
+
+/**
+ * Protocols in use on this dashboard: the file a supervisor imported, kept
+ * under the `callProtocols` localStorage key, or the built-in defaults.
+ */
+export function loadProtocols(): ProtocolSet {
+  const stored = localStorage.getItem(PROTOCOLS_STORAGE_KEY);
+  if (!stored) return DEFAULT_PROTOCOLS;
+  const result = parseProtocolSet(stored);
+  if (result.ok === false) {
+    console.error('Invalid stored call protocols, using defaults', result.errors);
+    return DEFAULT_PROTOCOLS;
+  }
+  return result.value;
+}
+
+// Null goes back to the built-in protocols
+export function saveProtocols(set: ProtocolSet | null) {
+  if (set) localStorage.setItem(PROTOCOLS_STORAGE_KEY, JSON.stringify(set));
+  else localStorage.removeItem(PROTOCOLS_STORAGE_KEY);
+}
@@ -0,0 +1,113 @@
+import { encodeWav, resamplePCM } from "./audioUtils";
+
+export const RECORDING_SAMPLE_RATE = 16000;
+const INPUT_SAMPLE_RATE = 16000;
+const OUTPUT_SAMPLE_RATE = 24000;
+// Keeps a runaway call from holding hundreds of MB of PCM in memory
+export const MAX_RECORDING_MS = 30 * 60 * 1000;
+
+// Stereo WAV of one call: caller on the left channel, dispatcher on the right
+export interface CallRecording {
+  id: string;
+  reportIds: string[]; // Tickets filed during the call
+  startedAt: number;
+  durationMs: number;
+  sampleRate: number;
+  truncated: boolean; // Hit MAX_RECORDING_MS before the call ended
+  blob: Blob;
+}
+
+interface OutputChunk {
+  at: number; // Seconds from the start of the recording
+  pcm: Int16Array;
+}
+
+/**
+ * Collects both sides of a call as they pass through the live service.
+ * Caller audio is a continuous stream, so its position is its sample count;
+ * dispatcher audio is placed where playback scheduled it on the output clock,
+ * which keeps the two tracks aligned across silences and reconnects.
+ */
+export class CallRecorder {
+  private readonly startedAt = Date.now();
+  private inputChunks: Int16Array[] = [];
+  private inputSamples = 0;
+  private outputChunks: OutputChunk[] = [];
+  private origin: number | null = null; // Output clock time of the first caller sample
+  private truncated = false;
+
+  constructor(private outputClock: () => number) {}
+
+  private get full(): boolean {
+    if (this.inputSamples / INPUT_SAMPLE_RATE * 1000 < MAX_RECORDING_MS) return false;
+    this.truncated = true;
+    return true;
+  }
+
+  addInput(pcm: Int16Array) {
+    if (this.full) return;
+    if (this.origin === null) this.origin = this.outputClock();
+    this.inputChunks.push(pcm.slice());
+    this.inputSamples += pcm.length;
+  }
+
+  // startTime is the output AudioContext time the chunk was scheduled at
+  addOutput(pcm: Int16Array, startTime: number) {
+    if (this.full) return;
+    if (this.origin === null) this.origin = this.outputClock();
+    this.outputChunks.push({ at: Math.max(0, startTime - this.origin), pcm: pcm.slice() });
+  }
+
+  // Barge-in: drop the part of the dispatcher's audio the caller never heard
+  cutOutput(at: number) {
+    if (this.origin === null) return;
+    const cutoff = at - this.origin;
+    this.outputChunks = this.outputChunks.flatMap(chunk => {
+      if (chunk.at >= cutoff) return [];
+      const keep = Math.floor((cutoff - chunk.at) * OUTPUT_SAMPLE_RATE);
+      return [keep < chunk.pcm.length ? { ...chunk, pcm: chunk.pcm.subarray(0, keep) } : chunk];
+    });
+  }
+
+  // Null when nothing was captured, e.g. the call failed before the microphone opened
+  finish(reportIds: string[]): CallRecording | null {
+    if (this.inputSamples === 0 && this.outputChunks.length === 0) return null;
+
+    const caller = new Int16Array(this.inputSamples);
+    let offset = 0;
+    this.inputChunks.forEach(chunk => {
+      caller.set(chunk, offset);
+      offset += chunk.length;
+    });
+    const left = resamplePCM(caller, INPUT_SAMPLE_RATE, RECORDING_SAMPLE_RATE);
+
+    const placed = this.outputChunks.map(chunk => ({
+      start: Math.round(chunk.at * RECORDING_SAMPLE_RATE),
+      pcm: resamplePCM(chunk.pcm, OUTPUT_SAMPLE_RATE, RECORDING_SAMPLE_RATE)
+    }));
+    const frames = Math.max(left.length, ...placed.map(p => p.start + p.pcm.length));
+
+    const callerTrack = new Int16Array(frames);
+    callerTrack.set(left);
+    const dispatcherTrack = new Int16Array(frames);
+    placed.forEach(({ start, pcm }) => {
+      for (let i = 0; i < pcm.length; i++) {
+        // Chunks never overlap in playback, but clamp in case rounding makes them touch
+        dispatcherTrack[start + i] = Math.max(-32768, Math.min(32767, dispatcherTrack[start + i] + pcm[i]));
+      }
+    });
+
+    this.inputChunks = [];
+    this.outputChunks = [];
+
+    return {
+      id: `rec-${this.startedAt}`,
+      reportIds: [...reportIds],
+      startedAt: this.startedAt,
+      durationMs: Math.round(frames / RECORDING_SAMPLE_RATE * 1000),
+      sampleRate: RECORDING_SAMPLE_RATE,
+      truncated: this.truncated,
+      blob: encodeWav([callerTrack, dispatcherTrack], RECORDING_SAMPLE_RATE)
+    };
+  }
+}
@@ -0,0 +1,110 @@
+import { arrayBufferToBase64 } from "./audioUtils";
+
+// The Live API samples video at about one frame per second; sending faster only costs bandwidth
+export const FRAME_INTERVAL_MS = 1000;
+const MAX_FRAME_PX = 768;
+const JPEG_QUALITY = 0.7;
+const MAX_SELECTED_FRAMES = 6;
+
+// Shown as the author of frames attached to a report
+export const CAMERA_ACTOR = 'Caller camera';
+
+export interface SceneFrame {
+  capturedAt: number;
+  blob: Blob; // JPEG
+}
+
+/**
+ * Rear camera during a call. Grabs a downscaled JPEG every FRAME_INTERVAL_MS
+ * and hands it to `onFrame`; frames the caller marks with `select` (or the
+ * latest one, if none were marked) are kept for the next filed report.
+ */
+export class CameraCapture {
+  private stream: MediaStream | null = null;
+  private video: HTMLVideoElement | null = null;
+  private canvas = document.createElement('canvas');
+  private timer: ReturnType<typeof setInterval> | null = null;
+  private capturing = false;
+  private latest: SceneFrame | null = null;
+  private selected: SceneFrame[] = [];
+
+  public onFrame: ((frame: SceneFrame, base64: string) => void) | null = null;
+
+  async start(): Promise<MediaStream> {
+    if (this.stream) return this.stream;
+
+    const stream = await navigator.mediaDevices.getUserMedia({
+      video: { facingMode: { ideal: 'environment' }, width: { ideal: 1280 }, height: { ideal: 720 } },
+      audio: false
+    });
+    const video = document.createElement('video');
+    video.muted = true;
+    video.playsInline = true;
+    video.srcObject = stream;
+    await video.play();
+
+    this.stream = stream;
+    this.video = video;
+    this.timer = setInterval(() => { void this.capture(); }, FRAME_INTERVAL_MS);
+    return stream;
+  }
+
+  stop() {
+    if (this.timer) clearInterval(this.timer);
+    this.timer = null;
+    this.stream?.getTracks().forEach(track => track.stop());
+    if (this.video) this.video.srcObject = null;
+    this.stream = null;
+    this.video = null;
+    this.latest = null;
+    this.selected = [];
+  }
+
+  getStream(): MediaStream | null {
+    return this.stream;
+  }
+
+  // Keeps the frame currently on screen for the report; returns how many are kept
+  select(): number {
+    if (this.latest && !this.selected.includes(this.latest)) {
+      this.selected = [...this.selected, this.latest].slice(-MAX_SELECTED_FRAMES);
+    }
+    return this.selected.length;
+  }
+
+  selectedCount(): number {
+    return this.selected.length;
+  }
+
+  // Frames for a report being filed now; each filed report gets its own set
+  takeFrames(): SceneFrame[] {
+    const frames = this.selected.length > 0 ? this.selected : this.latest ? [this.latest] : [];
+    this.selected = [];
+    return frames;
+  }
+
+  private async capture() {
+    const video = this.video;
+    // Skips a tick rather than queueing encodes on a slow device
+    if (!video || this.capturing || video.readyState < HTMLMediaElement.HAVE_CURRENT_DATA || video.videoWidth === 0) return;
+
+    this.capturing = true;
+    try {
+      const scale = Math.min(1, MAX_FRAME_PX / Math.max(video.videoWidth, video.videoHeight));
+      this.canvas.width = Math.round(video.videoWidth * scale);
+      this.canvas.height = Math.round(video.videoHeight * scale);
+      this.canvas.getContext('2d')!.drawImage(video, 0, 0, this.canvas.width, this.canvas.height);
+
+      const blob = await new Promise<Blob | null>(resolve => this.canvas.toBlob(resolve, 'image/jpeg', JPEG_QUALITY));
+      if (!blob || video !== this.video) return;
+
+      const frame: SceneFrame = { capturedAt: Date.now(), blob };
+      this.latest = frame;
+      this.onFrame?.(frame, arrayBufferToBase64(await blob.arrayBuffer()));
+    } catch (e) {
+      console.warn('Camera frame capture failed', e);
+    } finally {
+      this.capturing = false;
+    }
+  }
+}
@@ -0,0 +1,69 @@
+// Samples per frame posted to the main thread: 32ms at 16kHz, versus the
+// 256ms frames the old ScriptProcessor produced.
+export const CAPTURE_FRAME_SIZE = 512;
+
+const PROCESSOR_NAME = 'pcm-capture-processor';
+
+// Runs on the audio rendering thread. Collects 128-sample render quanta into
+// fixed-size frames and transfers each frame to the main thread.
+const PROCESSOR_SOURCE = `
+class PcmCaptureProcessor extends AudioWorkletProcessor {
+  constructor(options) {
+    super();
+    this.frameSize = (options.processorOptions && options.processorOptions.frameSize) || ${CAPTURE_FRAME_SIZE};
+    this.buffer = new Float32Array(this.frameSize);
+    this.offset = 0;
+  }
+
+  process(inputs) {
+    const channel = inputs[0] && inputs[0][0];
+    if (!channel) return true;
+
+    let read = 0;
+    while (read < channel.length) {
+      const count = Math.min(channel.length - read, this.frameSize - this.offset);
+      this.buffer.set(channel.subarray(read, read + count), this.offset);
+      this.offset += count;
+      read += count;
+
+      if (this.offset === this.frameSize) {
+        this.port.postMessage(this.buffer, [this.buffer.buffer]);
+        this.buffer = new Float32Array(this.frameSize);
+        this.offset = 0;
+      }
+    }
+    return true;
+  }
+}
+
+registerProcessor('${PROCESSOR_NAME}', PcmCaptureProcessor);
+`;
+
+const loadedContexts = new WeakSet<BaseAudioContext>();
+
+/**
+ * Registers the capture processor on the context (once) and returns a node
+ * whose port emits Float32Array frames of `frameSize` samples.
+ * The module is loaded from a Blob URL so it works without bundler support.
+ */
+export async function createCaptureNode(
+  ctx: AudioContext,
+  frameSize: number = CAPTURE_FRAME_SIZE
+): Promise<AudioWorkletNode> {
+  if (!loadedContexts.has(ctx)) {
+    const url = URL.createObjectURL(new Blob([PROCESSOR_SOURCE], { type: 'application/javascript' }));
+    try {
+      await ctx.audioWorklet.addModule(url);
+    } finally {
+      URL.revokeObjectURL(url);
+    }
+    loadedContexts.add(ctx);
+  }
+
+  return new AudioWorkletNode(ctx, PROCESSOR_NAME, {
+    numberOfInputs: 1,
+    numberOfOutputs: 1,
+    channelCount: 1,
+    processorOptions: { frameSize }
+  });
+}
@@ -0,0 +1,61 @@
+// Lifecycle of one dispatcher call
+export type ConnectionState =
+  | 'idle'
+  | 'initializing' // Audio contexts, microphone and worklet
+  | 'connecting'
+  | 'live'
+  | 'reconnecting' // Dropped mid-call, retrying with backoff
+  | 'failed' // Gave up; audio has been released
+  | 'ended'; // Hung up by the caller or the server
+
+const TRANSITIONS: Record<ConnectionState, ConnectionState[]> = {
+  idle: ['initializing'],
+  initializing: ['connecting', 'failed', 'ended'],
+  connecting: ['live', 'reconnecting', 'failed', 'ended'],
+  live: ['reconnecting', 'failed', 'ended'],
+  reconnecting: ['live', 'reconnecting', 'failed', 'ended'],
+  failed: ['initializing', 'ended'],
+  ended: ['initializing']
+};
+
+export interface ConnectionSnapshot {
+  state: ConnectionState;
+  attempt: number; // Reconnect attempt in progress, 0 outside 'reconnecting'
+  maxAttempts: number;
+  retryAt?: number; // When the next reconnect attempt starts
+  error?: string;
+}
+
+export const RECONNECT_POLICY = {
+  maxAttempts: 6,
+  baseDelayMs: 1000,
+  maxDelayMs: 15000
+};
+
+export function canTransitionConnection(from: ConnectionState, to: ConnectionState): boolean {
+  return TRANSITIONS[from].includes(to);
+}
+
+// States in which the call UI stays up and the microphone is held
+export function isInCall(state: ConnectionState): boolean {
+  return state === 'initializing' || state === 'connecting' || state === 'live' || state === 'reconnecting';
+}
+
+// Exponential backoff with jitter so many clients don't retry in lockstep
+export function backoffDelay(attempt: number, policy = RECONNECT_POLICY): number {
+  const exponential = Math.min(policy.maxDelayMs, policy.baseDelayMs * 2 ** (attempt - 1));
+  return Math.round(exponential * (0.75 + Math.random() * 0.5));
+}
+
+// Close codes that mean the request itself was refused; retrying would fail the same way
+const PERMANENT_CLOSE_CODES = [1002, 1003, 1007, 1008, 1009, 1010];
+
+/**
+ * Whether a closed socket is worth reconnecting. A normal closure only
+ * counts when the server warned it was going away (session time limit).
+ */
+export function isTransientClose(event: { code?: number } | undefined, serverRequestedMove: boolean): boolean {
+  const code = event?.code ?? 1006;
+  if (code === 1000) return serverRequestedMove;
+  return !PERMANENT_CLOSE_CODES.includes(code);
+}
@@ -0,0 +1,65 @@
+const DB_NAME = 'disaster-connect';
+const DB_VERSION = 6;
+
+export const STORES = {
+  reports: 'reports',
+  outbox: 'outbox',
+  units: 'units',
+  recordings: 'recordings',
+  hazardZones: 'hazardZones',
+  attachments: 'attachments',
+  calls: 'calls'
+} as const;
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+// Shared connection; every store is created here so versions stay in one place
+export function openDatabase(): Promise<IDBDatabase> {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains(STORES.reports)) {
+          db.createObjectStore(STORES.reports, { keyPath: 'id' });
+        }
+        if (!db.objectStoreNames.contains(STORES.outbox)) {
+          db.createObjectStore(STORES.outbox, { keyPath: 'reportId' });
+        }
+        if (!db.objectStoreNames.contains(STORES.units)) {
+          db.createObjectStore(STORES.units, { keyPath: 'id' });
+        }
+        if (!db.objectStoreNames.contains(STORES.recordings)) {
+          db.createObjectStore(STORES.recordings, { keyPath: 'id' });
+        }
+        if (!db.objectStoreNames.contains(STORES.hazardZones)) {
+          db.createObjectStore(STORES.hazardZones, { keyPath: 'id' });
+        }
+        if (!db.objectStoreNames.contains(STORES.attachments)) {
+          db.createObjectStore(STORES.attachments, { keyPath: 'id' });
+        }
+        if (!db.objectStoreNames.contains(STORES.calls)) {
+          db.createObjectStore(STORES.calls, { keyPath: 'id' });
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+  }
+  return dbPromise;
+}
+
+export function promisifyRequest<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+export function promisifyTransaction(tx: IDBTransaction): Promise<void> {
+  return new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+}
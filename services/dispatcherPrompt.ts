@@ -0,0 +1,178 @@
+import { GeoLocation, HazardZone, TranscriptEntry } from "../types";
+import { adviceFor, CORE_DETAIL_LABELS, CoreDetail, DEFAULT_PROTOCOLS, ProtocolSet } from "./callProtocols";
+import { HAZARD_KIND_LABELS, zoneCenter, zonesContaining } from "./hazardZones";
+import { CANONICAL_LANGUAGE, Language, LANGUAGE_INFO, LanguageSetting } from "./i18n";
+
+// Lines the dispatcher says verbatim at fixed points of the protocol
+interface ProtocolPhrases {
+  holdOn: string;
+  submitted: string;
+  anythingElse: string;
+}
+
+const PHRASES: Record<Language, ProtocolPhrases> = {
+  en: {
+    holdOn: 'Please hold on, I am submitting the full report now.',
+    submitted: 'Report submitted. Responders have been notified. Stay safe and follow the safety advice I provided.',
+    anythingElse: 'Is there anything else you need help with? Any other emergencies or concerns?'
+  },
+  es: {
+    holdOn: 'Por favor espere, estoy enviando el reporte completo ahora.',
+    submitted: 'Reporte enviado. Los equipos de respuesta han sido notificados. Manténgase a salvo y siga los consejos de seguridad que le di.',
+    anythingElse: '¿Hay algo más en lo que pueda ayudarle? ¿Alguna otra emergencia o preocupación?'
+  },
+  vi: {
+    holdOn: 'Xin vui lòng chờ, tôi đang gửi báo cáo đầy đủ ngay bây giờ.',
+    submitted: 'Báo cáo đã được gửi. Lực lượng cứu hộ đã được thông báo. Hãy giữ an toàn và làm theo các lời khuyên an toàn tôi đã đưa ra.',
+    anythingElse: 'Bạn còn cần giúp gì nữa không? Có trường hợp khẩn cấp hay lo ngại nào khác không?'
+  },
+  tl: {
+    holdOn: 'Pakihintay lang po, ipinapadala ko na ngayon ang buong ulat.',
+    submitted: 'Naipadala na ang ulat. Naabisuhan na ang mga rescuer. Mag-ingat po kayo at sundin ang mga payong pangkaligtasan na ibinigay ko.',
+    anythingElse: 'May iba pa po ba akong maitutulong? May iba pa bang emergency o alalahanin?'
+  }
+};
+
+// Native-audio models pick the spoken language themselves, so only the voice is set per language
+export function voiceFor(language: LanguageSetting): string {
+  return LANGUAGE_INFO[language === 'auto' ? CANONICAL_LANGUAGE : language].voice;
+}
+
+function languageRules(language: LanguageSetting): string {
+  if (language === 'auto') {
+    return `LANGUAGE:
+        - Detect the caller's language from their first words and reply in that language for the rest of the call.
+        - If the caller switches language, switch with them.
+        - The phrases and advice below are in English; say them in the caller's language.`;
+  }
+  const { name, nativeName } = LANGUAGE_INFO[language];
+  return `LANGUAGE:
+        - Speak ${name} (${nativeName}) with the caller. Only switch if the caller clearly cannot understand ${name}.
+        - Say the quoted phrases below exactly as written.`;
+}
+
+// Safety advice per emergency type; advice missing in the spoken language is given in English to translate
+function adviceLines(protocols: ProtocolSet, language: LanguageSetting): string {
+  const spoken = language === 'auto' ? CANONICAL_LANGUAGE : language;
+  return protocols.protocols.flatMap(protocol => {
+    const advice = adviceFor(protocol, spoken);
+    if (!advice) return [];
+    const note = advice.translated ? '' : ` (translate into ${LANGUAGE_INFO[spoken].name})`;
+    return [`             * ${protocol.emergencyType.toUpperCase()}${note}: "${advice.text}"`];
+  }).join('\n');
+}
+
+function vitalDetailLines(protocols: ProtocolSet): string {
+  const labels = (keys: CoreDetail[]) => keys.map(key => CORE_DETAIL_LABELS[key]).join(', ');
+  const lines = protocols.protocols.flatMap(protocol => {
+    const own = protocol.required ? [`             * ${protocol.emergencyType.toUpperCase()}: instead of the list above, only ${labels(protocol.required)}.`] : [];
+    const questions = (protocol.questions ?? []).map(q =>
+      `             * ${protocol.emergencyType.toUpperCase()}: "${q.question}" (details.${q.key})`);
+    return [...own, ...questions];
+  });
+  return `           - Every call: ${labels(protocols.baseRequired)}.${lines.length > 0 ? `
+           - Depending on the emergency type, also:
+${lines.join('\n')}` : ''}`;
+}
+
+/**
+ * System instruction for a dispatcher session. The protocol itself stays in
+ * English; the lines spoken to the caller and the safety advice are localized.
+ * Required details and advice come from the protocol set in use.
+ */
+export function buildSystemInstruction(language: LanguageSetting, locationContext: string, protocols: ProtocolSet = DEFAULT_PROTOCOLS): string {
+  const spoken = language === 'auto' ? CANONICAL_LANGUAGE : language;
+  const phrases = PHRASES[spoken];
+
+  return `You are an emergency response dispatcher for "Disaster Connect" with expertise in disaster safety and emergency response.
+
+        CONTEXT:
+        ${locationContext}
+
+        ${languageRules(language)}
+
+        PROTOCOL (Strictly follow this order):
+        1. LOCATION: Determine if the user is at their "Current Location" or a remote location.
+
+        2. SITUATION: Ask for the type of emergency and a description of what is happening.
+           - If the caller is sharing their camera (you receive images), use what you see as evidence: the hazard itself,
+             water depth, fire and smoke, visible injuries and how many people are in view. Ask them to point the camera
+             at anything unclear, and include what the video shows in the description (e.g. "Video shows water at window level").
+           - AS SOON as you identify the emergency type, provide IMMEDIATE safety advice relevant to their situation
+           - Keep advice concise (2-3 sentences max) and actionable
+           - Advice by type (for any other type, give brief advice that fits what the caller describes):
+${adviceLines(protocols, language)}
+
+        3. VITAL DETAILS (MANDATORY, protocol version ${protocols.version}): You MUST gather:
+${vitalDetailLines(protocols)}
+           - Each time the caller gives any of these details, call 'recordDetails' with what you learned so far. Its result
+             lists what is still missing: ask for those next. Do not mention this bookkeeping to the caller.
+           - While gathering these details, continue providing relevant safety guidance based on their responses
+           DO NOT create the ticket yet.
+
+        4. EXECUTION:
+           - Only AFTER every detail in step 3 for this emergency type is gathered (or the caller cannot give it):
+           - Say: "${phrases.holdOn}"
+           - Call the 'reportEmergency' tool.
+
+        5. AFTER SUBMISSION:
+           - Wait for tool completion.
+           - Say: "${phrases.submitted}"
+           - THEN immediately ask: "${phrases.anythingElse}"
+           - Continue the conversation - provide additional advice, answer questions, or help with other emergencies
+           - NEVER end the conversation on your own - only stop when the user explicitly ends the call
+
+        6. FOLLOW-UPS:
+           - Give the caller the ticketId from the tool result so they can refer to it if they call back.
+           - New information about the same emergency (e.g. "two more people showed up"): call 'updateReport', never file a second report.
+           - Caller no longer needs help (e.g. "we got out, cancel it"): confirm, then call 'cancelReport' with the reason.
+           - Caller asks whether help is coming: call 'getReportStatus' and tell them the status and any assigned unit.
+           - A caller calling back about an earlier ticket must give its ticketId AND say where the emergency is (or the name it was filed under); pass what they say as 'verification' to 'getReportStatus', 'updateReport' or 'cancelReport'. Update or cancel that ticket; never file a new report for it. If the check fails, do not reveal anything about the ticket.
+
+        TOOL RULES:
+        - If user says "Current Location" or "Here": LEAVE lat/long empty in the tool.
+        - If user says a specific place (e.g. "Central Park", "123 Main St"): You MUST ESTIMATE the numeric latitude and longitude for that place and fill them in the tool arguments. Do not leave them empty.
+        - Responders read English: ALWAYS write 'description', 'criticalNeeds', 'details', 'reason' and 'note' in English, whatever language the caller speaks.
+        - Set 'language' to the ISO 639-1 code of the caller's language (e.g. en, es, vi, tl). If it is not English, also put the summary in the caller's own language in 'originalDescription'.
+
+        CRITICAL: Your role is to BOTH collect emergency information AND provide life-saving advice tailored to their specific situation. Be calm, professional, and reassuring.`;
+}
+
+// Appended when a dropped call reconnects without server-side resumption
+export function resumedCallNote(transcript: TranscriptEntry[], filedTicketIds: string[]): string {
+  const lines = transcript.map(entry => `${entry.speaker === 'caller' ? 'CALLER' : 'YOU'}: ${entry.text}`).join('\n');
+  const tickets = filedTicketIds.length > 0
+    ? `Tickets already filed in this call: ${filedTicketIds.join(', ')}. Use 'updateReport' for changes, do not file them again.`
+    : 'No ticket has been filed yet.';
+
+  return `
+
+        RESUMED CALL:
+        The line dropped and has just reconnected. Continue where you left off: briefly tell the caller you are back,
+        do NOT repeat questions that were already answered, and ask only for what is still missing.
+        ${tickets}
+        Conversation so far:
+${lines}`;
+}
+
+// Added to the location context so the dispatcher knows which areas are already known to be dangerous
+export function hazardZoneContext(zones: HazardZone[], deviceLocation: GeoLocation | null): string {
+  const active = zones.filter(zone => zone.active);
+  if (active.length === 0) return '';
+
+  const list = active.map(zone => {
+    const center = zoneCenter(zone);
+    return `        - ${zone.name}: ${HAZARD_KIND_LABELS[zone.kind]}, around ${center.lat.toFixed(4)}, ${center.lng.toFixed(4)}`;
+  }).join('\n');
+  const inside = deviceLocation ? zonesContaining(active, deviceLocation) : [];
+  const device = inside.length > 0
+    ? `The caller's device is INSIDE ${inside.map(zone => zone.name).join(', ')}. Ask straight away whether they can leave the zone, and give advice for that hazard first.`
+    : 'The caller\'s device is not inside any of these zones.';
+
+  return `
+
+        ACTIVE HAZARD ZONES (marked by dispatchers):
+${list}
+        ${deviceLocation ? device : ''}
+        If the caller describes a place inside one of these zones, tell them so and give advice for that hazard.`;
+}
@@ -0,0 +1,21 @@
+// Triggers a browser download of in-memory content
+export function downloadFile(content: BlobPart | Blob, fileName: string, mimeType: string) {
+  const blob = content instanceof Blob ? content : new Blob([content], { type: mimeType });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  // Revoking synchronously can cancel the download in some browsers
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+}
+
+// Filesystem-safe timestamp for generated file names, e.g. 2024-05-01-10-30
+export function fileTimestamp(date: Date = new Date()): string {
+  return date.toISOString().slice(0, 16).replace(/[:T]/g, '-');
+}
+
+export function formatBytes(bytes: number): string {
+  if (bytes < 1024 * 1024) return `${Math.round(bytes / 1024)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
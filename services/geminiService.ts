@@ -1,205 +1,621 @@
-import { GoogleGenAI, LiveServerMessage, Modality, Type, FunctionDeclaration } from "@google/genai";
+import { LiveConnectConfig, LiveServerMessage, Modality, Type, FunctionCall, FunctionDeclaration, FunctionResponse } from "@google/genai";
 import { arrayBufferToBase64, decodeAudioData, float32ToInt16PCM, base64ToUint8Array } from "./audioUtils";
-import { GeoLocation } from "../types";
+import { createCaptureNode } from "./captureWorklet";
+import { CallRecorder, CallRecording } from "./callRecorder";
+import { CameraCapture, SceneFrame } from "./cameraCapture";
+import { CallSession } from "./callLog";
+import {
+  allQuestions,
+  buildChecklist,
+  CallChecklist,
+  CORE_DETAIL_LABELS,
+  DEFAULT_PROTOCOLS,
+  gatherDetails,
+  GatheredDetails,
+  missingItems,
+  ProtocolSet
+} from "./callProtocols";
+import {
+  EMERGENCY_TYPES,
+  ReportArgs,
+  ReportUpdateArgs,
+  validateDetailArgs,
+  validateReportArgs,
+  validateTicketArgs,
+  validateUpdateArgs,
+  ValidationResult
+} from "./reportValidation";
+import { TicketSummary } from "./reportWorkflow";
+import { buildSystemInstruction, hazardZoneContext, resumedCallNote, voiceFor } from "./dispatcherPrompt";
+import {
+  backoffDelay,
+  canTransitionConnection,
+  ConnectionSnapshot,
+  ConnectionState,
+  isInCall,
+  isTransientClose,
+  RECONNECT_POLICY
+} from "./connectionState";
+import { LanguageSetting } from "./i18n";
+import { createLiveTransport, LiveSession, LiveTransport } from "./liveTransport";
+import { DEFAULT_MIC_SETTINGS, MicSettings, openMicrophone } from "./micSettings";
+import { VoiceActivity, VoiceActivityDetector } from "./voiceActivity";
+import { GeoLocation, HazardZone, TranscriptEntry } from "../types";
 
-const API_KEY = process.env.API_KEY || '';
 const MODEL_NAME = 'gemini-2.5-flash-native-audio-preview-09-2025';
+const PRE_ROLL_FRAMES = 8; // ~250 ms kept from before the detector fired, so first syllables aren't clipped
 
-// Define the function tool
-const reportEmergencyTool: FunctionDeclaration = {
-  name: 'reportEmergency',
-  description: 'Create an emergency ticket. Use this ONLY after you have gathered all necessary information (Location, Type, Description, People Count, and Critical Needs).',
+export interface CallOptions {
+  record?: boolean; // Caller has seen the recording notice and agreed
+  hazardZones?: HazardZone[]; // Briefed to the dispatcher at the start of the call
+  camera?: boolean; // Start with the camera on; it can also be switched during the call
+  protocols?: ProtocolSet; // Required details and advice; the built-in set when not given
+  mic?: MicSettings; // Input device, processing and talk mode; the defaults when not given
+}
+
+// One property per protocol question, so the model can only answer questions that exist
+function detailsProperty(protocols: ProtocolSet) {
+  const questions = allQuestions(protocols);
+  if (questions.length === 0) return {};
+  return {
+    details: {
+      type: Type.OBJECT,
+      description: 'Answers to the protocol questions for this emergency type, in English.',
+      properties: Object.fromEntries(questions.map(({ question, types }) => [question.key, {
+        type: Type.STRING,
+        description: `${types.join(', ')}: ${question.question}`
+      }]))
+    }
+  };
+}
+
+// Fields shared by recordDetails and reportEmergency
+function detailProperties(protocols: ProtocolSet) {
+  return {
+    emergencyType: {
+      type: Type.STRING,
+      description: `Type of disaster. One of: ${EMERGENCY_TYPES.join(', ')}.`
+    },
+    description: {
+      type: Type.STRING,
+      description: 'A concise summary of the situation, in English.'
+    },
+    peopleCount: {
+      type: Type.NUMBER,
+      description: 'Estimated number of people involved.'
+    },
+    criticalNeeds: {
+      type: Type.STRING,
+      description: 'Specific assistance needed (e.g., Water, Boat, Medical).'
+    },
+    locationName: {
+      type: Type.STRING,
+      description: 'The specific address, city, or place name if provided by user.'
+    },
+    latitude: {
+      type: Type.NUMBER,
+      description: 'The estimated latitude of the locationName. REQUIRED if locationName is provided (unless it is Current Location).'
+    },
+    longitude: {
+      type: Type.NUMBER,
+      description: 'The estimated longitude of the locationName. REQUIRED if locationName is provided (unless it is Current Location).'
+    },
+    ...detailsProperty(protocols)
+  };
+}
+
+// Generated per call from the protocol set, so edited protocols reach the model without code changes
+function reportEmergencyTool(protocols: ProtocolSet): FunctionDeclaration {
+  const required = protocols.baseRequired.map(key => CORE_DETAIL_LABELS[key]).join(', ');
+  return {
+    name: 'reportEmergency',
+    description: `Create an emergency ticket. Use this ONLY after you have gathered all necessary information (${required}, and the protocol questions for the emergency type).`,
+    parameters: {
+      type: Type.OBJECT,
+      properties: {
+        ...detailProperties(protocols),
+        language: {
+          type: Type.STRING,
+          description: 'ISO 639-1 code of the language the caller speaks (e.g. en, es, vi, tl).'
+        },
+        originalDescription: {
+          type: Type.STRING,
+          description: 'The summary in the caller\'s own language. Only when the caller does not speak English.'
+        }
+      },
+      required: ['emergencyType', 'description']
+    }
+  };
+}
+
+function recordDetailsTool(protocols: ProtocolSet): FunctionDeclaration {
+  return {
+    name: 'recordDetails',
+    description: 'Record details the caller has given so far, before the ticket is filed. Give only what you learned; use locationName "Current Location" if they are where they are. Returns the details still missing.',
+    parameters: {
+      type: Type.OBJECT,
+      properties: detailProperties(protocols)
+    }
+  };
+}
+
+const reportIdProperty = {
+  type: Type.STRING,
+  description: 'The ticketId returned when the report was filed. Leave empty to use the report filed earlier in this call.'
+};
+
+const verificationProperty = {
+  type: Type.STRING,
+  description: 'Only for a ticket filed in an earlier call: the address or place of the emergency, or the name the ticket was filed under, exactly as the caller says it now. Ask the caller; never take it from the ticket.'
+};
+
+const updateReportTool: FunctionDeclaration = {
+  name: 'updateReport',
+  description: 'Update an emergency ticket, from this call or an earlier one, when the caller gives new information (more people, new needs, changed situation). Do NOT file a new report for the same emergency.',
   parameters: {
     type: Type.OBJECT,
     properties: {
-      emergencyType: {
-        type: Type.STRING,
-        description: 'Type of disaster (e.g., Flood, Fire, Injury, Trapped, Storm).'
-      },
-      description: {
-        type: Type.STRING,
-        description: 'A concise summary of the situation.'
-      },
+      reportId: reportIdProperty,
+      verification: verificationProperty,
       peopleCount: {
         type: Type.NUMBER,
-        description: 'Estimated number of people involved.'
+        description: 'The NEW TOTAL number of people involved (e.g. 4 people plus "two more showed up" is 6).'
       },
       criticalNeeds: {
         type: Type.STRING,
-        description: 'Specific assistance needed (e.g., Water, Boat, Medical).'
+        description: 'The full, updated list of critical needs.'
       },
-      locationName: {
+      emergencyType: {
         type: Type.STRING,
-        description: 'The specific address, city, or place name if provided by user.'
+        description: 'Only if the type of emergency has changed.'
       },
-      latitude: {
-        type: Type.NUMBER,
-        description: 'The estimated latitude of the locationName. REQUIRED if locationName is provided (unless it is Current Location).'
-      },
-      longitude: {
-        type: Type.NUMBER,
-        description: 'The estimated longitude of the locationName. REQUIRED if locationName is provided (unless it is Current Location).'
+      note: {
+        type: Type.STRING,
+        description: 'A short summary of what changed, added to the ticket for responders.'
+      }
+    }
+  }
+};
+
+const cancelReportTool: FunctionDeclaration = {
+  name: 'cancelReport',
+  description: 'Cancel an emergency ticket, from this call or an earlier one, because help is no longer needed (e.g. the caller got out safely). Confirm with the caller before calling.',
+  parameters: {
+    type: Type.OBJECT,
+    properties: {
+      reportId: reportIdProperty,
+      verification: verificationProperty,
+      reason: {
+        type: Type.STRING,
+        description: 'Why the caller no longer needs help.'
       }
     },
-    required: ['emergencyType', 'description']
+    required: ['reason']
+  }
+};
+
+const getReportStatusTool: FunctionDeclaration = {
+  name: 'getReportStatus',
+  description: 'Look up the current status of an emergency ticket, including whether a responder unit has been assigned.',
+  parameters: {
+    type: Type.OBJECT,
+    properties: {
+      reportId: reportIdProperty,
+      verification: verificationProperty
+    }
   }
 };
 
 export class GeminiLiveService {
-  private ai: GoogleGenAI;
+  private transport: LiveTransport;
   private inputAudioContext: AudioContext | null = null;
   private outputAudioContext: AudioContext | null = null;
   private stream: MediaStream | null = null;
-  private processor: ScriptProcessorNode | null = null;
+  private processor: AudioWorkletNode | null = null;
   private source: MediaStreamAudioSourceNode | null = null;
   private nextStartTime = 0;
-  private sessionPromise: Promise<any> | null = null;
-  private currentSession: any = null; // Stored reference to session for closing
+  private playbackSources = new Set<AudioBufferSourceNode>(); // Scheduled or playing output chunks
+  private playbackEpoch = 0; // Bumped on interruption so in-flight chunks are dropped
+  private sessionPromise: Promise<LiveSession> | null = null;
+  private currentSession: LiveSession | null = null; // Stored reference to session for closing
+  private transcript: TranscriptEntry[] = [];
+  private transcriptOpen = false; // Whether the last entry is still receiving fragments
+  private filedReportIds: string[] = []; // Tickets created during this call, newest last
+  private verifiedReportIds: string[] = []; // Earlier tickets the caller proved they know about
+  private connection: ConnectionSnapshot = { state: 'idle', attempt: 0, maxAttempts: RECONNECT_POLICY.maxAttempts };
+  private callContext: { userLocation: GeoLocation | null; language: LanguageSetting; hazardZones: HazardZone[]; protocols: ProtocolSet } | null = null;
+  private resumptionHandle: string | null = null; // Latest handle from the server, lets a new socket continue this conversation
+  private serverRequestedMove = false; // goAway received; the coming close is expected
+  private sessionGeneration = 0; // Bumped per socket so callbacks from a dropped one are ignored
+  private reconnectTimer: ReturnType<typeof setTimeout> | null = null;
+  private recorder: CallRecorder | null = null; // Only set when the caller agreed to recording
+  private camera: CameraCapture | null = null;
+  private gathered: GatheredDetails = {}; // Details of the emergency not yet filed
+  private checklist: CallChecklist | null = null;
+  private session: Omit<CallSession, 'endedAt' | 'outcome' | 'reportIds'> | null = null; // Timing of the call in progress
+  private mic: MicSettings = DEFAULT_MIC_SETTINGS;
+  private vad = new VoiceActivityDetector();
+  private voiceActivity: VoiceActivity = 'silence';
+  private pushToTalk = false; // Talk button held
+  private preRoll: string[] = []; // Recent unsent frames, base64
+  private activityOpen = false; // activityStart sent on the current socket without its activityEnd
   
-  public onReportSubmitted: ((report: any) => void) | null = null;
+  // Ticket handlers return the real report so the model can refer back to it; throwing rejects the call
+  public onReportSubmitted: ((report: ReportArgs, transcript: TranscriptEntry[], frames: SceneFrame[], checklist: CallChecklist) => Promise<TicketSummary>) | null = null;
+  public onReportUpdated: ((reportId: string, changes: ReportUpdateArgs) => Promise<TicketSummary> | TicketSummary) | null = null;
+  public onReportCancelled: ((reportId: string, reason?: string) => Promise<TicketSummary> | TicketSummary) | null = null;
+  public onReportLookup: ((reportId: string) => TicketSummary | undefined) | null = null;
+  public onReportVerify: ((reportId: string, stated: string) => boolean) | null = null;
   public onAudioLevel: ((level: number) => void) | null = null;
-  public onStatusChange: ((status: string) => void) | null = null;
+  public onStateChange: ((connection: ConnectionSnapshot) => void) | null = null;
+  public onTranscriptUpdate: ((transcript: TranscriptEntry[]) => void) | null = null;
+  public onRecordingReady: ((recording: CallRecording) => void) | null = null;
+  public onCameraChange: ((stream: MediaStream | null) => void) | null = null;
+  public onChecklistChange: ((checklist: CallChecklist) => void) | null = null;
+  public onCallFinished: ((call: CallSession) => void) | null = null;
+  public onVoiceActivity: ((activity: VoiceActivity) => void) | null = null;
 
-  constructor() {
-    this.ai = new GoogleGenAI({ apiKey: API_KEY });
+  constructor(transport: LiveTransport = createLiveTransport()) {
+    this.transport = transport;
   }
 
-  async connect(userLocation: GeoLocation | null) {
-    this.onStatusChange?.('Initializing Audio...');
-    
-    this.inputAudioContext = new (window.AudioContext || (window as any).webkitAudioContext)({ sampleRate: 16000 });
-    this.outputAudioContext = new (window.AudioContext || (window as any).webkitAudioContext)({ sampleRate: 24000 });
-    
-    // Resume audio contexts if suspended
-    if (this.inputAudioContext.state === 'suspended') await this.inputAudioContext.resume();
-    if (this.outputAudioContext.state === 'suspended') await this.outputAudioContext.resume();
+  getTranscript(): TranscriptEntry[] {
+    return [...this.transcript];
+  }
 
-    this.onStatusChange?.('Requesting Mic...');
-    this.stream = await navigator.mediaDevices.getUserMedia({ audio: true });
+  getConnection(): ConnectionSnapshot {
+    return this.connection;
+  }
+
+  private setConnection(state: ConnectionState, details: Partial<Omit<ConnectionSnapshot, 'state'>> = {}): boolean {
+    if (!canTransitionConnection(this.connection.state, state)) {
+      console.warn(`Ignoring connection transition ${this.connection.state} -> ${state}`);
+      return false;
+    }
+    const previous = this.connection.state;
+    this.connection = { state, attempt: 0, maxAttempts: RECONNECT_POLICY.maxAttempts, ...details };
+    this.trackSession(previous, state);
+    this.onStateChange?.(this.connection);
+    return true;
+  }
 
-    this.onStatusChange?.('Connecting to HQ...');
+  // Call timings for the analytics view, reported once when the call is over
+  private trackSession(from: ConnectionState, to: ConnectionState) {
+    const now = Date.now();
+    if (to === 'initializing') {
+      this.session = { id: `call-${now}`, startedAt: now, reconnects: 0 };
+      return;
+    }
+    const session = this.session;
+    if (!session) return;
+    if (to === 'live' && session.connectedAt === undefined) session.connectedAt = now;
+    if (to === 'reconnecting' && from === 'live') session.reconnects++;
+    if (to === 'ended' || to === 'failed') {
+      this.session = null;
+      this.onCallFinished?.({ ...session, endedAt: now, outcome: to, reportIds: [...this.filedReportIds] });
+    }
+  }
+
+  async connect(userLocation: GeoLocation | null, language: LanguageSetting = 'auto', options: CallOptions = {}) {
+    this.setConnection('initializing');
+    // Hanging up tears the call down while the awaits below are pending; bumps the generation
+    const generation = this.sessionGeneration;
+    const hungUp = () => generation !== this.sessionGeneration;
+    this.callContext = { userLocation, language, hazardZones: options.hazardZones ?? [], protocols: options.protocols ?? DEFAULT_PROTOCOLS };
+    this.resumptionHandle = null;
+    this.serverRequestedMove = false;
+    this.transcript = [];
+    this.transcriptOpen = false;
+    this.filedReportIds = [];
+    this.verifiedReportIds = [];
+    this.onTranscriptUpdate?.([]);
+    this.resetChecklist();
+    this.mic = options.mic ?? DEFAULT_MIC_SETTINGS;
+    this.vad.reset();
+    this.pushToTalk = false;
+    this.preRoll = [];
+    this.setVoiceActivity('silence');
     
+    try {
+      this.inputAudioContext = new (window.AudioContext || (window as any).webkitAudioContext)({ sampleRate: 16000, latencyHint: 'interactive' });
+      this.outputAudioContext = new (window.AudioContext || (window as any).webkitAudioContext)({ sampleRate: 24000, latencyHint: 'interactive' });
+      this.nextStartTime = 0;
+      
+      // Resume audio contexts if suspended
+      if (this.inputAudioContext.state === 'suspended') await this.inputAudioContext.resume();
+      if (this.outputAudioContext.state === 'suspended') await this.outputAudioContext.resume();
+
+      const stream = await openMicrophone(this.mic);
+      if (hungUp()) {
+        // Teardown ran before this stream existed, so it has to be released here
+        stream.getTracks().forEach(track => track.stop());
+        return;
+      }
+      this.stream = stream;
+
+      // Worklet must be registered before the socket opens, handleOpen is synchronous
+      this.processor = await createCaptureNode(this.inputAudioContext);
+
+      if (options.record) {
+        const output = this.outputAudioContext;
+        this.recorder = new CallRecorder(() => output.currentTime);
+      }
+
+      if (!this.setConnection('connecting')) return; // Hung up while the worklet was loading
+      if (options.camera) {
+        // A refused or missing camera leaves an audio-only call
+        await this.setCamera(true).catch(e => console.warn('Camera unavailable, continuing with audio only', e));
+      }
+      await this.openSession();
+    } catch (e) {
+      this.fail(e);
+      throw e;
+    }
+  }
+
+  private buildConfig(): LiveConnectConfig {
+    const { userLocation, language, hazardZones, protocols } = this.callContext!;
+
     // Format location for system instruction
     const locContext = userLocation 
       ? `DEVICE_GPS_COORDINATES: ${userLocation.lat.toFixed(6)}, ${userLocation.lng.toFixed(6)}`
       : "DEVICE_GPS_COORDINATES: Unavailable (User must provide voice location)";
+    const zoneContext = hazardZoneContext(hazardZones, userLocation);
 
-    this.sessionPromise = this.ai.live.connect({
+    // Without a resumption handle the new session starts blank, so brief it on the call so far
+    const recap = !this.resumptionHandle && this.transcript.length > 0
+      ? resumedCallNote(this.transcript, this.filedReportIds)
+      : '';
+
+    return {
+      responseModalities: [Modality.AUDIO],
+      inputAudioTranscription: {},
+      outputAudioTranscription: {},
+      sessionResumption: this.resumptionHandle ? { handle: this.resumptionHandle } : {},
+      // With its own detector or a talk button the client marks each turn itself
+      ...(this.mic.talkMode !== 'open' ? { realtimeInputConfig: { automaticActivityDetection: { disabled: true } } } : {}),
+      speechConfig: {
+        voiceConfig: { prebuiltVoiceConfig: { voiceName: voiceFor(language) } }
+      },
+      systemInstruction: buildSystemInstruction(language, locContext + zoneContext, protocols) + recap,
+      tools: [{
+        functionDeclarations: [recordDetailsTool(protocols), reportEmergencyTool(protocols), updateReportTool, cancelReportTool, getReportStatusTool]
+      }]
+    };
+  }
+
+  private async openSession() {
+    const generation = ++this.sessionGeneration;
+    const isCurrent = () => generation === this.sessionGeneration;
+
+    this.sessionPromise = this.transport.connect({
       model: MODEL_NAME,
       callbacks: {
-        onopen: this.handleOpen.bind(this),
-        onmessage: this.handleMessage.bind(this),
-        onclose: () => {
-             this.onStatusChange?.('Disconnected');
-             this.stop();
-        },
+        onopen: () => { if (isCurrent()) this.handleOpen(); },
+        onmessage: (message) => { if (isCurrent()) void this.handleMessage(message); },
+        onclose: (event) => { if (isCurrent()) this.handleClose(event); },
         onerror: (err) => {
+            // A close always follows; that is where recovery is decided
             console.error('Live API Error:', err);
-            this.onStatusChange?.('Connection Error');
         },
       },
-      config: {
-        responseModalities: [Modality.AUDIO],
-        speechConfig: {
-          voiceConfig: { prebuiltVoiceConfig: { voiceName: 'Kore' } }
-        },
-        systemInstruction: `You are an emergency response dispatcher for "Disaster Connect" with expertise in disaster safety and emergency response.
-
-        CONTEXT:
-        ${locContext}
-        
-        PROTOCOL (Strictly follow this order):
-        1. LOCATION: Determine if the user is at their "Current Location" or a remote location.
-        
-        2. SITUATION: Ask for the type of emergency and a description of what is happening.
-           - AS SOON as you identify the emergency type, provide IMMEDIATE safety advice relevant to their situation
-           - Keep advice concise (2-3 sentences max) and actionable
-           - Examples:
-             * FLOOD: "If water is rising, move to higher ground immediately. Avoid walking through moving water - 6 inches can knock you down."
-             * FIRE: "Stay low under smoke. If your clothes catch fire, stop-drop-and-roll. Don't open hot doors."
-             * EARTHQUAKE: "Drop, cover, and hold on. Stay away from windows. If outdoors, move away from buildings."
-             * TRAPPED: "Stay calm and conserve energy. Make noise periodically to help rescuers locate you. Cover your mouth to avoid dust inhalation."
-             * INJURY: "Apply pressure to stop bleeding. Keep the person still and warm. Don't move them if spinal injury is suspected."
-        
-        3. VITAL DETAILS (MANDATORY): You MUST ask specifically for:
-           - The number of people involved/trapped.
-           - Any critical needs (injuries, medical aid, food, water).
-           - While gathering these details, continue providing relevant safety guidance based on their responses
-           DO NOT create the ticket yet.
-        
-        4. EXECUTION:
-           - Only AFTER gathering Location, Situation, People Count, and Needs:
-           - Say: "Please hold on, I am submitting the full report now."
-           - Call the 'reportEmergency' tool.
-        
-        5. AFTER SUBMISSION:
-           - Wait for tool completion.
-           - Say: "Report submitted. Responders have been notified. Stay safe and follow the safety advice I provided."
-           - THEN immediately ask: "Is there anything else you need help with? Any other emergencies or concerns?"
-           - Continue the conversation - provide additional advice, answer questions, or help with other emergencies
-           - NEVER end the conversation on your own - only stop when the user explicitly ends the call
-        
-        TOOL RULES:
-        - If user says "Current Location" or "Here": LEAVE lat/long empty in the tool.
-        - If user says a specific place (e.g. "Central Park", "123 Main St"): You MUST ESTIMATE the numeric latitude and longitude for that place and fill them in the tool arguments. Do not leave them empty.
-        
-        CRITICAL: Your role is to BOTH collect emergency information AND provide life-saving advice tailored to their specific situation. Be calm, professional, and reassuring.`,
-        tools: [{ functionDeclarations: [reportEmergencyTool] }]
-      }
+      config: this.buildConfig()
     });
 
-    this.currentSession = await this.sessionPromise;
+    const session = await this.sessionPromise;
+    if (!isCurrent()) {
+      // Hung up, or superseded, while the socket was opening
+      session.close();
+      return;
+    }
+    this.currentSession = session;
+    this.activityOpen = false;
+  }
+
+  private handleClose(event?: CloseEvent) {
+    this.currentSession = null;
+    if (!isInCall(this.connection.state)) return;
+
+    if (isTransientClose(event, this.serverRequestedMove)) {
+      this.scheduleReconnect(event?.reason || 'Connection lost');
+    } else if (event?.code === 1000) {
+      this.releaseAudio();
+      this.releaseCamera();
+      this.setConnection('ended');
+    } else {
+      this.fail(new Error(event?.reason || `Connection closed (${event?.code})`));
+    }
+  }
+
+  private scheduleReconnect(reason: string) {
+    const attempt = this.connection.state === 'reconnecting' ? this.connection.attempt + 1 : 1;
+    if (attempt > RECONNECT_POLICY.maxAttempts) {
+      this.fail(new Error(`Could not reconnect after ${RECONNECT_POLICY.maxAttempts} attempts: ${reason}`));
+      return;
+    }
+
+    // Whatever the dispatcher was saying is lost with the socket
+    this.flushPlayback();
+    this.transcriptOpen = false;
+
+    const delay = backoffDelay(attempt);
+    this.setConnection('reconnecting', { attempt, retryAt: Date.now() + delay, error: reason });
+    this.reconnectTimer = setTimeout(async () => {
+      this.reconnectTimer = null;
+      this.serverRequestedMove = false;
+      try {
+        await this.openSession();
+      } catch (e) {
+        console.error('Reconnect attempt failed', e);
+        if (this.connection.state === 'reconnecting') this.scheduleReconnect(e instanceof Error ? e.message : String(e));
+      }
+    }, delay);
+  }
+
+  private fail(error: unknown) {
+    console.error('Live session failed', error);
+    this.teardown();
+    this.setConnection('failed', { error: error instanceof Error ? error.message : String(error) });
   }
 
   private handleOpen() {
-    this.onStatusChange?.('Live');
-    if (!this.inputAudioContext || !this.stream) return;
+    this.setConnection('live');
+    // Audio stays wired across reconnects; only the socket is replaced
+    if (this.source || !this.inputAudioContext || !this.stream || !this.processor) return;
 
     this.source = this.inputAudioContext.createMediaStreamSource(this.stream);
-    this.processor = this.inputAudioContext.createScriptProcessor(4096, 1, 1);
 
-    this.processor.onaudioprocess = (e) => {
-      const inputData = e.inputBuffer.getChannelData(0);
-      
-      let sum = 0;
-      for (let i = 0; i < inputData.length; i++) {
-        sum += inputData[i] * inputData[i];
-      }
-      const rms = Math.sqrt(sum / inputData.length);
-      this.onAudioLevel?.(rms);
-
-      const pcmData = float32ToInt16PCM(inputData);
-      const uint8Params = new Uint8Array(pcmData.buffer);
-      const base64Data = arrayBufferToBase64(uint8Params.buffer);
-
-      if (this.currentSession) {
-        this.currentSession.sendRealtimeInput({
-          media: {
-            mimeType: 'audio/pcm;rate=16000',
-            data: base64Data
-          }
-        });
-      }
-    };
+    this.processor.port.onmessage = (e: MessageEvent<Float32Array>) => this.handleInputFrame(e.data);
 
     this.source.connect(this.processor);
     this.processor.connect(this.inputAudioContext.destination);
   }
 
+  private handleInputFrame(inputData: Float32Array) {
+    let sum = 0;
+    for (let i = 0; i < inputData.length; i++) {
+      sum += inputData[i] * inputData[i];
+    }
+    const rms = Math.sqrt(sum / inputData.length);
+    this.onAudioLevel?.(rms);
+    const { activity, speaking } = this.vad.process(rms);
+    this.setVoiceActivity(activity);
+
+    // The recording keeps everything, including what was not sent
+    const pcmData = float32ToInt16PCM(inputData);
+    this.recorder?.addInput(pcmData);
+    const uint8Params = new Uint8Array(pcmData.buffer);
+    const base64Data = arrayBufferToBase64(uint8Params.buffer);
+
+    const { talkMode } = this.mic;
+    const sending = talkMode === 'open' || (talkMode === 'push' ? this.pushToTalk : speaking);
+    if (!sending) {
+      this.endActivity();
+      if (talkMode === 'voice') this.preRoll = [...this.preRoll, base64Data].slice(-PRE_ROLL_FRAMES);
+      return;
+    }
+
+    // Dropped while reconnecting; the caller can repeat once the line is back
+    const session = this.currentSession;
+    if (!session) return;
+    const send = (data: string) => session.sendRealtimeInput({
+      media: {
+        mimeType: 'audio/pcm;rate=16000',
+        data
+      }
+    });
+    if (talkMode !== 'open' && !this.activityOpen) {
+      session.sendRealtimeInput({ activityStart: {} });
+      this.activityOpen = true;
+      this.preRoll.forEach(send);
+    }
+    this.preRoll = [];
+    send(base64Data);
+  }
+
+  // Closes the caller's turn so the dispatcher can answer
+  private endActivity() {
+    if (!this.activityOpen) return;
+    this.activityOpen = false;
+    this.currentSession?.sendRealtimeInput({ activityEnd: {} });
+  }
+
+  private setVoiceActivity(activity: VoiceActivity) {
+    if (activity === this.voiceActivity) return;
+    this.voiceActivity = activity;
+    this.onVoiceActivity?.(activity);
+  }
+
+  /**
+   * Talk button held or released, in push-to-talk mode. Releasing ends the
+   * caller's turn straight away rather than on the next audio frame.
+   */
+  setPushToTalk(pressed: boolean) {
+    this.pushToTalk = pressed;
+    if (!pressed && this.mic.talkMode === 'push') this.endActivity();
+  }
+
+  // Transcription arrives in fragments; merge them into one entry per speaker turn
+  private appendTranscript(speaker: TranscriptEntry['speaker'], text: string | undefined, finished?: boolean) {
+    if (text) {
+      const last = this.transcript[this.transcript.length - 1];
+      if (this.transcriptOpen && last && last.speaker === speaker) {
+        this.transcript[this.transcript.length - 1] = { ...last, text: last.text + text };
+      } else {
+        this.transcript.push({ speaker, text: text.trimStart(), timestamp: Date.now() });
+      }
+      this.transcriptOpen = true;
+    }
+    if (finished) this.transcriptOpen = false;
+    if (text || finished) this.onTranscriptUpdate?.(this.getTranscript());
+  }
+
+  // Barge-in: silence everything already queued and start scheduling afresh
+  private flushPlayback() {
+    this.playbackEpoch++;
+    if (this.outputAudioContext) this.recorder?.cutOutput(this.outputAudioContext.currentTime);
+    this.playbackSources.forEach(source => {
+      try {
+        source.stop();
+      } catch {
+        // Already stopped
+      }
+      source.disconnect();
+    });
+    this.playbackSources.clear();
+    this.nextStartTime = 0;
+  }
+
   private async handleMessage(message: LiveServerMessage) {
+    // Session resumption bookkeeping
+    const resumption = message.sessionResumptionUpdate;
+    if (resumption?.resumable && resumption.newHandle) {
+      this.resumptionHandle = resumption.newHandle;
+    }
+    if (message.goAway) {
+      console.info(`Server will close the session in ${message.goAway.timeLeft}, resuming afterwards`);
+      this.serverRequestedMove = true;
+    }
+
+    // Handle Transcription
+    const content = message.serverContent;
+    if (content?.inputTranscription) {
+      this.appendTranscript('caller', content.inputTranscription.text, content.inputTranscription.finished);
+    }
+    if (content?.outputTranscription) {
+      this.appendTranscript('dispatcher', content.outputTranscription.text, content.outputTranscription.finished);
+    }
+    if (content?.turnComplete) {
+      this.transcriptOpen = false;
+    }
+
+    // Handle Interruption (caller spoke over the dispatcher)
+    if (content?.interrupted) {
+      this.flushPlayback();
+      this.transcriptOpen = false;
+    }
+
     // Handle Audio Output
     const base64Audio = message.serverContent?.modelTurn?.parts?.[0]?.inlineData?.data;
     if (base64Audio && this.outputAudioContext) {
       const audioData = base64ToUint8Array(base64Audio);
-      this.nextStartTime = Math.max(this.nextStartTime, this.outputAudioContext.currentTime);
+      const epoch = this.playbackEpoch;
       
       try {
         const buffer = await decodeAudioData(audioData, this.outputAudioContext);
-        const source = this.outputAudioContext.createBufferSource();
-        source.buffer = buffer;
-        source.connect(this.outputAudioContext.destination);
-        source.start(this.nextStartTime);
-        this.nextStartTime += buffer.duration;
+
+        // Skip chunks that were in flight when the caller interrupted
+        if (epoch === this.playbackEpoch && this.outputAudioContext) {
+          this.nextStartTime = Math.max(this.nextStartTime, this.outputAudioContext.currentTime);
+          const source = this.outputAudioContext.createBufferSource();
+          source.buffer = buffer;
+          source.connect(this.outputAudioContext.destination);
+          source.onended = () => this.playbackSources.delete(source);
+          source.start(this.nextStartTime);
+          this.playbackSources.add(source);
+          this.recorder?.addOutput(new Int16Array(audioData.buffer), this.nextStartTime);
+          this.nextStartTime += buffer.duration;
+        }
       } catch (e) {
         console.error("Error decoding audio", e);
       }
@@ -207,18 +623,7 @@ export class GeminiLiveService {
 
     // Handle Tool Calls
     if (message.toolCall) {
-      const responses = [];
-      for (const fc of message.toolCall.functionCalls) {
-        if (fc.name === 'reportEmergency') {
-          // Trigger the frontend callback
-          this.onReportSubmitted?.(fc.args);
-          responses.push({
-            id: fc.id,
-            name: fc.name,
-            response: { result: { status: 'success', ticketId: Date.now().toString() } }
-          });
-        }
-      }
+      const responses = await Promise.all((message.toolCall.functionCalls ?? []).map(fc => this.handleToolCall(fc)));
       
       if (responses.length > 0 && this.currentSession) {
          this.currentSession.sendToolResponse({
@@ -228,10 +633,107 @@ export class GeminiLiveService {
     }
   }
 
-  stop() {
+  // Empty checklist at the start of a call, listing the base details
+  private resetChecklist() {
+    this.gathered = {};
+    this.checklist = buildChecklist(this.callContext!.protocols, {}, Date.now());
+    this.onChecklistChange?.(this.checklist);
+  }
+
+  private updateChecklist(gathered: GatheredDetails): CallChecklist {
+    // A filed checklist stays on screen until the dispatcher starts on the next emergency
+    const startedAt = this.checklist && !this.checklist.ticketId ? this.checklist.startedAt : Date.now();
+    this.gathered = gathered;
+    this.checklist = buildChecklist(this.callContext!.protocols, gathered, startedAt);
+    this.onChecklistChange?.(this.checklist);
+    return this.checklist;
+  }
+
+  // Falls back to the ticket filed earlier in this call when the model gives no ID
+  private resolveTicketId(reportId: string | undefined): string {
+    const id = reportId ?? this.filedReportIds[this.filedReportIds.length - 1];
+    if (!id) throw new Error('No ticketId given and no report was filed during this call. Ask the caller for their ticket ID.');
+    return id;
+  }
+
+  // Ticket IDs are easy to guess; one from an earlier call needs a detail only its caller would know
+  private checkedTicketId(reportId: string | undefined, verification: string | undefined): string {
+    const id = this.resolveTicketId(reportId);
+    if (this.filedReportIds.includes(id) || this.verifiedReportIds.includes(id)) return id;
+    if (!verification) {
+      throw new Error(`Ticket ${id} was filed in an earlier call. Ask the caller for the address or place of the emergency, or the name it was filed under, and pass it as verification.`);
+    }
+    if (!this.onReportVerify?.(id, verification)) {
+      throw new Error(`Ticket ${id} does not match what the caller said. Do not share or change it; ask them to check the ticket ID and address.`);
+    }
+    this.verifiedReportIds.push(id);
+    return id;
+  }
+
+  private async handleToolCall(fc: FunctionCall): Promise<FunctionResponse> {
+    const reply = (response: Record<string, unknown>): FunctionResponse => ({ id: fc.id, name: fc.name, response });
+    // Reject so the model re-asks the caller instead of acting on bad arguments
+    const reject = (message: string) => reply({ error: { message } });
+    const validated = <T,>(validation: ValidationResult<T>): T => {
+      if (validation.ok === false) throw new Error(`Ask the caller to clarify: ${validation.errors.join(' ')}`);
+      if (validation.warnings.length > 0) console.warn(`Normalized ${fc.name} call`, validation.warnings);
+      return validation.value;
+    };
+
+    try {
+      switch (fc.name) {
+        case 'recordDetails': {
+          const args = validated(validateDetailArgs(fc.args));
+          const gathered = this.checklist?.ticketId ? {} : this.gathered;
+          const missing = missingItems(this.updateChecklist(gatherDetails(gathered, args, Date.now())));
+          return reply({ result: { missing: missing.map(item => item.question ?? item.label) } });
+        }
+        case 'reportEmergency': {
+          const args = validated(validateReportArgs(fc.args));
+          if (!this.onReportSubmitted) throw new Error('Reports cannot be filed right now.');
+          const gathered = this.checklist?.ticketId ? {} : this.gathered;
+          const checklist = this.updateChecklist(gatherDetails(gathered, { ...args, filing: true }, Date.now()));
+          const ticket = await this.onReportSubmitted(args, this.getTranscript(), this.camera?.takeFrames() ?? [], checklist);
+          this.filedReportIds.push(ticket.ticketId);
+          this.checklist = { ...checklist, ticketId: ticket.ticketId };
+          this.onChecklistChange?.(this.checklist);
+          return reply({ result: { status: 'success', ...ticket } });
+        }
+        case 'updateReport': {
+          const args = validated(validateUpdateArgs(fc.args));
+          if (!this.onReportUpdated) throw new Error('Reports cannot be updated right now.');
+          const ticket = await this.onReportUpdated(this.checkedTicketId(args.reportId, args.verification), args);
+          return reply({ result: { status: 'updated', ...ticket } });
+        }
+        case 'cancelReport': {
+          const args = validated(validateTicketArgs(fc.args));
+          if (!this.onReportCancelled) throw new Error('Reports cannot be cancelled right now.');
+          const ticket = await this.onReportCancelled(this.checkedTicketId(args.reportId, args.verification), args.reason);
+          return reply({ result: { status: 'cancelled', ...ticket } });
+        }
+        case 'getReportStatus': {
+          const args = validated(validateTicketArgs(fc.args));
+          const id = this.checkedTicketId(args.reportId, args.verification);
+          const ticket = this.onReportLookup?.(id);
+          if (!ticket) throw new Error(`No ticket found with ID ${id}. Ask the caller to repeat the ticket ID.`);
+          return reply({ result: ticket });
+        }
+        default:
+          return reject(`Unknown tool ${fc.name}`);
+      }
+    } catch (e) {
+      console.warn(`Rejected ${fc.name} call`, e);
+      return reject(e instanceof Error ? e.message : String(e));
+    }
+  }
+
+  // Releases the microphone and audio graph, handing over the recording if there is one
+  private releaseAudio() {
+    this.flushPlayback();
+    this.finishRecording();
     if (this.processor) {
       this.processor.disconnect();
-      this.processor.onaudioprocess = null;
+      this.processor.port.onmessage = null;
     }
     if (this.source) {
       this.source.disconnect();
@@ -248,10 +750,81 @@ export class GeminiLiveService {
     
     this.processor = null;
     this.source = null;
+    this.pushToTalk = false;
+    this.preRoll = [];
+    this.setVoiceActivity('silence');
     this.stream = null;
     this.inputAudioContext = null;
     this.outputAudioContext = null;
+  }
+
+  /**
+   * Turns the caller's camera on or off. Frames go out as realtime video
+   * input next to the audio; while reconnecting they are dropped like audio.
+   */
+  async setCamera(enabled: boolean) {
+    if (!enabled) {
+      this.releaseCamera();
+      return;
+    }
+    if (this.camera || !isInCall(this.connection.state)) return;
+
+    const camera = new CameraCapture();
+    camera.onFrame = (_frame, data) => {
+      this.currentSession?.sendRealtimeInput({ video: { mimeType: 'image/jpeg', data } });
+    };
+    const stream = await camera.start();
+    if (!isInCall(this.connection.state)) {
+      // Hung up while the camera prompt was open
+      camera.stop();
+      return;
+    }
+    this.camera = camera;
+    this.onCameraChange?.(stream);
+  }
+
+  // Marks the current camera frame for the next report; returns how many are marked
+  selectCameraFrame(): number {
+    return this.camera?.select() ?? 0;
+  }
+
+  private releaseCamera() {
+    if (!this.camera) return;
+    this.camera.stop();
+    this.camera = null;
+    this.onCameraChange?.(null);
+  }
+
+  private finishRecording() {
+    const recorder = this.recorder;
+    this.recorder = null;
+    if (!recorder) return;
+    try {
+      const recording = recorder.finish(this.filedReportIds);
+      if (recording) this.onRecordingReady?.(recording);
+    } catch (e) {
+      console.error('Failed to encode call recording', e);
+    }
+  }
+
+  private teardown() {
+    if (this.reconnectTimer) {
+      clearTimeout(this.reconnectTimer);
+      this.reconnectTimer = null;
+    }
+    this.releaseAudio();
+    this.releaseCamera();
+
+    // Invalidated before closing so the resulting onclose is ignored
+    this.sessionGeneration++;
+    const session = this.currentSession;
     this.currentSession = null;
-    this.onStatusChange?.('Disconnected');
+    session?.close();
+  }
+
+  // Caller hung up
+  stop() {
+    this.teardown();
+    if (isInCall(this.connection.state) || this.connection.state === 'failed') this.setConnection('ended');
   }
-}
\ No newline at end of file
+}
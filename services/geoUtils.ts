@@ -0,0 +1,27 @@
+import { GeoLocation } from "../types";
+
+const EARTH_RADIUS_METERS = 6371000;
+
+// Map center and last-resort report location when nothing better is known (Los Angeles)
+export const DEFAULT_CENTER: GeoLocation = { lat: 34.0522, lng: -118.2437 };
+
+const toRadians = (degrees: number) => degrees * Math.PI / 180;
+
+// Great-circle distance using the haversine formula
+export function distanceMeters(a: GeoLocation, b: GeoLocation): number {
+  const dLat = toRadians(b.lat - a.lat);
+  const dLng = toRadians(b.lng - a.lng);
+  const h = Math.sin(dLat / 2) ** 2
+    + Math.cos(toRadians(a.lat)) * Math.cos(toRadians(b.lat)) * Math.sin(dLng / 2) ** 2;
+  return 2 * EARTH_RADIUS_METERS * Math.asin(Math.min(1, Math.sqrt(h)));
+}
+
+export function centroid(points: GeoLocation[]): GeoLocation {
+  if (points.length === 0) throw new Error('Cannot take the centroid of no points');
+  const sum = points.reduce((acc, p) => ({ lat: acc.lat + p.lat, lng: acc.lng + p.lng }), { lat: 0, lng: 0 });
+  return { lat: sum.lat / points.length, lng: sum.lng / points.length };
+}
+
+export function formatDistance(meters: number): string {
+  return meters < 1000 ? `${Math.round(meters)} m` : `${(meters / 1000).toFixed(1)} km`;
+}
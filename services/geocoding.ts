@@ -0,0 +1,133 @@
+import { GeoLocation } from "../types";
+import { distanceMeters } from "./geoUtils";
+
+const DEFAULT_GAZETTEER_URL = '/data/gazetteer.json';
+
+export interface GeocodeResult {
+  location: GeoLocation;
+  label: string;
+  confidence: number; // 0 to 1
+  provider: string;
+}
+
+// Implement this to plug in another lookup (a hosted service, a regional dataset, ...)
+export interface GeocoderProvider {
+  readonly name: string;
+  geocode(query: string, near?: GeoLocation | null): Promise<GeocodeResult[]>;
+}
+
+export interface GazetteerEntry {
+  name: string;
+  aliases?: string[];
+  lat: number;
+  lng: number;
+}
+
+const normalize = (text: string) =>
+  text.toLowerCase().normalize('NFD').replace(/[\u0300-\u036f]/g, '').replace(/[^a-z0-9\s]/g, ' ').replace(/\s+/g, ' ').trim();
+
+// Recognizes spoken or typed coordinates such as "34.05, -118.24"
+export class CoordinateGeocoder implements GeocoderProvider {
+  readonly name = 'coordinates';
+
+  // The whole query must be the pair, so house and unit numbers in an address never match
+  async geocode(query: string): Promise<GeocodeResult[]> {
+    const match = query.match(/^\s*(-?\d{1,2}(\.\d+)?)\s*(,|\s)\s*(-?\d{1,3}(\.\d+)?)\s*$/);
+    if (!match) return [];
+    // "12 140" is more likely a street number than a place; need a comma or decimals
+    const [, latText, latDecimals, separator, lngText, lngDecimals] = match;
+    if (separator !== ',' && !(latDecimals && lngDecimals)) return [];
+
+    const lat = Number(latText);
+    const lng = Number(lngText);
+    if (lat < -90 || lat > 90 || lng < -180 || lng > 180) return [];
+    return [{ location: { lat, lng }, label: `${lat}, ${lng}`, confidence: 1, provider: this.name }];
+  }
+}
+
+/**
+ * Offline lookup against a bundled JSON list of named places.
+ * Exact and alias matches score highest; partial and word-overlap matches
+ * score low enough that the operator is asked to check the pin.
+ */
+export class GazetteerGeocoder implements GeocoderProvider {
+  readonly name = 'gazetteer';
+  private entriesPromise: Promise<GazetteerEntry[]> | null = null;
+
+  constructor(private source: string | GazetteerEntry[] = DEFAULT_GAZETTEER_URL) {}
+
+  private load(): Promise<GazetteerEntry[]> {
+    if (!this.entriesPromise) {
+      this.entriesPromise = typeof this.source !== 'string'
+        ? Promise.resolve(this.source)
+        : fetch(this.source).then(res => {
+          if (!res.ok) throw new Error(`Failed to load gazetteer ${this.source}: ${res.status}`);
+          return res.json();
+        });
+      // Allow a retry on the next lookup if loading failed
+      this.entriesPromise.catch(() => { this.entriesPromise = null; });
+    }
+    return this.entriesPromise;
+  }
+
+  private score(query: string, entry: GazetteerEntry): number {
+    const names = [entry.name, ...(entry.aliases ?? [])].map(normalize);
+    if (names[0] === query) return 0.95;
+    if (names.includes(query)) return 0.9;
+    // Whole-word containment, so the alias "la" does not match "island". Still only a
+    // guess ("calle de la paz" contains "la"), so it stays below the confidence threshold
+    const padded = ` ${query} `;
+    if (names.some(n => padded.includes(` ${n} `) || ` ${n} `.includes(padded))) return 0.5;
+
+    const queryWords = new Set(query.split(' ').filter(w => w.length > 2));
+    if (queryWords.size === 0) return 0;
+    const best = Math.max(...names.map(n => {
+      const words = n.split(' ').filter(w => w.length > 2);
+      return words.filter(w => queryWords.has(w)).length / Math.max(words.length, queryWords.size);
+    }));
+    return best * 0.45;
+  }
+
+  async geocode(query: string, near?: GeoLocation | null): Promise<GeocodeResult[]> {
+    const normalized = normalize(query);
+    if (!normalized) return [];
+
+    const entries = await this.load();
+    return entries
+      .map(entry => ({ entry, confidence: this.score(normalized, entry) }))
+      .filter(m => m.confidence > 0)
+      .sort((a, b) => b.confidence - a.confidence
+        // Prefer the nearer of equally good matches ("Main St" exists everywhere)
+        || (near ? distanceMeters(near, a.entry) - distanceMeters(near, b.entry) : 0))
+      .slice(0, 5)
+      .map(({ entry, confidence }) => ({
+        location: { lat: entry.lat, lng: entry.lng },
+        label: entry.name,
+        confidence,
+        provider: this.name
+      }));
+  }
+}
+
+// Tries each provider in order and returns the first non-empty answer
+export class ChainedGeocoder implements GeocoderProvider {
+  readonly name = 'chain';
+
+  constructor(private providers: GeocoderProvider[]) {}
+
+  async geocode(query: string, near?: GeoLocation | null): Promise<GeocodeResult[]> {
+    for (const provider of this.providers) {
+      try {
+        const results = await provider.geocode(query, near);
+        if (results.length > 0) return results;
+      } catch (e) {
+        console.error(`Geocoder ${provider.name} failed`, e);
+      }
+    }
+    return [];
+  }
+}
+
+export function createGeocoder(): GeocoderProvider {
+  return new ChainedGeocoder([new CoordinateGeocoder(), new GazetteerGeocoder()]);
+}
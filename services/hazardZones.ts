@@ -0,0 +1,181 @@
+import { EmergencyReport, GeoLocation, HazardKind, HazardZone } from "../types";
+import { openDatabase, promisifyRequest, promisifyTransaction, STORES } from "./database";
+import { centroid } from "./geoUtils";
+import { RecordError } from "./reportExchange";
+
+export const HAZARD_KINDS: HazardKind[] = ['flood', 'fire', 'evacuation', 'other'];
+
+// English names for default zone names and the dispatcher prompt; the UI uses hazardKindLabel
+export const HAZARD_KIND_LABELS: Record<HazardKind, string> = {
+  flood: 'Flood plain',
+  fire: 'Fire perimeter',
+  evacuation: 'Evacuation zone',
+  other: 'Hazard zone'
+};
+
+export const HAZARD_KIND_COLORS: Record<HazardKind, string> = {
+  flood: '#2563eb',
+  fire: '#dc2626',
+  evacuation: '#f97316',
+  other: '#eab308'
+};
+
+export interface HazardImportResult {
+  zones: HazardZone[];
+  errors: RecordError[];
+}
+
+// Ray casting on raw lng/lat; fine at the scale of a city-sized zone
+function insideRing(point: GeoLocation, ring: GeoLocation[]): boolean {
+  let inside = false;
+  for (let i = 0, j = ring.length - 1; i < ring.length; j = i++) {
+    const a = ring[i];
+    const b = ring[j];
+    if ((a.lat > point.lat) !== (b.lat > point.lat)
+      && point.lng < (b.lng - a.lng) * (point.lat - a.lat) / (b.lat - a.lat) + a.lng) {
+      inside = !inside;
+    }
+  }
+  return inside;
+}
+
+export function zoneContains(zone: HazardZone, point: GeoLocation): boolean {
+  return zone.polygons.some(([outer, ...holes]) =>
+    !!outer && insideRing(point, outer) && !holes.some(hole => insideRing(point, hole)));
+}
+
+// Only active zones count; inactive ones stay on file but raise nothing
+export function zonesContaining(zones: HazardZone[], point: GeoLocation): HazardZone[] {
+  return zones.filter(zone => zone.active && zoneContains(zone, point));
+}
+
+export function zoneCenter(zone: HazardZone): GeoLocation {
+  return centroid(zone.polygons.flatMap(([outer]) => outer ?? []));
+}
+
+// Derived like triage: recomputed locally whenever the report or the zones change
+export function withHazardZones(report: EmergencyReport, zones: HazardZone[]): EmergencyReport {
+  const ids = zonesContaining(zones, report.location).map(zone => zone.id);
+  const unchanged = (report.hazardZoneIds ?? []).join() === ids.join();
+  if (unchanged) return report;
+  return { ...report, hazardZoneIds: ids.length > 0 ? ids : undefined };
+}
+
+export function createZone(name: string, kind: HazardKind, ring: GeoLocation[]): HazardZone {
+  return {
+    id: `zone-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 6)}`,
+    name: name.trim() || HAZARD_KIND_LABELS[kind],
+    kind,
+    polygons: [[ring]],
+    active: true,
+    createdAt: Date.now()
+  };
+}
+
+// Matches the words agencies tend to use in their own property values
+export function normalizeHazardKind(value: unknown): HazardKind {
+  const text = String(value ?? '').toLowerCase();
+  if (text.includes('flood') || text.includes('surge') || text.includes('inundat')) return 'flood';
+  if (text.includes('fire') || text.includes('burn')) return 'fire';
+  if (text.includes('evac')) return 'evacuation';
+  return 'other';
+}
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+function toRing(coordinates: unknown): GeoLocation[] | null {
+  if (!Array.isArray(coordinates)) return null;
+  if (!coordinates.every(c => Array.isArray(c) && typeof c[0] === 'number' && typeof c[1] === 'number')) return null;
+
+  const ring: GeoLocation[] = coordinates.map(([lng, lat]) => ({ lat, lng }));
+  // GeoJSON rings repeat the first position at the end; Leaflet closes them itself
+  const first = ring[0];
+  const last = ring[ring.length - 1];
+  if (ring.length > 1 && first.lat === last.lat && first.lng === last.lng) ring.pop();
+  return ring;
+}
+
+function toPolygons(geometry: unknown): GeoLocation[][][] | null {
+  if (!isObject(geometry)) return null;
+  const polygons: unknown[] = geometry.type === 'Polygon' ? [geometry.coordinates]
+    : geometry.type === 'MultiPolygon' && Array.isArray(geometry.coordinates) ? geometry.coordinates : [];
+  const parsed = polygons.map(polygon => Array.isArray(polygon) ? polygon.map(toRing) : [null]);
+  if (parsed.length === 0 || parsed.some(rings => rings.length === 0 || rings.some(ring => !ring || ring.length < 3))) {
+    return null;
+  }
+  return parsed as GeoLocation[][][];
+}
+
+/**
+ * Reads hazard zones from a GeoJSON Feature or FeatureCollection of Polygon
+ * and MultiPolygon features. Recognised properties are name (or title),
+ * kind (or type/hazard) and active; a feature ID is kept so re-importing an
+ * updated file replaces the zones it created before.
+ */
+export function parseHazardZones(text: string): HazardImportResult {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch (e) {
+    return { zones: [], errors: [{ index: -1, message: `Invalid JSON: ${e instanceof Error ? e.message : e}` }] };
+  }
+
+  const root = isObject(data) ? data : {};
+  const features: unknown[] = root.type === 'FeatureCollection' && Array.isArray(root.features) ? root.features
+    : root.type === 'Feature' ? [root] : [];
+  if (features.length === 0 && root.type !== 'FeatureCollection') {
+    return { zones: [], errors: [{ index: -1, message: 'Not a GeoJSON Feature or FeatureCollection.' }] };
+  }
+
+  const result: HazardImportResult = { zones: [], errors: [] };
+  const now = Date.now();
+  features.forEach((feature, index) => {
+    const record = isObject(feature) ? feature : {};
+    const props = isObject(record.properties) ? record.properties : {};
+    const rawId = props.id ?? record.id;
+    const id = typeof rawId === 'string' || typeof rawId === 'number' ? String(rawId) : undefined;
+    const polygons = toPolygons(record.geometry);
+    if (!polygons) {
+      result.errors.push({ index, id, message: 'Geometry must be a Polygon or MultiPolygon with at least three positions per ring.' });
+      return;
+    }
+
+    const kind = normalizeHazardKind(props.kind ?? props.type ?? props.hazard ?? props.name);
+    result.zones.push({
+      id: id !== undefined ? `zone-${id}` : `zone-${now.toString(36)}-${index}`,
+      name: String(props.name ?? props.title ?? `${HAZARD_KIND_LABELS[kind]} ${index + 1}`),
+      kind,
+      polygons,
+      active: props.active !== false && props.active !== 'false',
+      createdAt: now
+    });
+  });
+  return result;
+}
+
+// IndexedDB persistence for zones, alongside the report store
+export class HazardZoneRepository {
+  async getAll(): Promise<HazardZone[]> {
+    const db = await openDatabase();
+    const tx = db.transaction(STORES.hazardZones, 'readonly');
+    const zones = await promisifyRequest<HazardZone[]>(tx.objectStore(STORES.hazardZones).getAll());
+    return zones.sort((a, b) => a.createdAt - b.createdAt);
+  }
+
+  async save(...zones: HazardZone[]): Promise<void> {
+    const db = await openDatabase();
+    const tx = db.transaction(STORES.hazardZones, 'readwrite');
+    zones.forEach(zone => tx.objectStore(STORES.hazardZones).put(zone));
+    await promisifyTransaction(tx);
+  }
+
+  async delete(id: string): Promise<void> {
+    const db = await openDatabase();
+    const tx = db.transaction(STORES.hazardZones, 'readwrite');
+    tx.objectStore(STORES.hazardZones).delete(id);
+    await promisifyTransaction(tx);
+  }
+}
+
+export const hazardZoneRepository = new HazardZoneRepository();
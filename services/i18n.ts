@@ -0,0 +1,1020 @@
+import { EditableField, HazardKind, LocationInfo, Priority, ReportStatus } from "../types";
+import { ConnectionSnapshot, ConnectionState } from "./connectionState";
+
+// Languages with localized prompts, voices and UI strings
+export const LANGUAGES = ['en', 'es', 'vi', 'tl'] as const;
+
+export type Language = typeof LANGUAGES[number];
+
+// 'auto' lets the dispatcher follow whatever language the caller speaks
+export type LanguageSetting = Language | 'auto';
+
+// Reports are always stored in this language
+export const CANONICAL_LANGUAGE: Language = 'en';
+
+export const LANGUAGE_INFO: Record<Language, { name: string; nativeName: string; voice: string }> = {
+  en: { name: 'English', nativeName: 'English', voice: 'Kore' },
+  es: { name: 'Spanish', nativeName: 'Español', voice: 'Aoede' },
+  vi: { name: 'Vietnamese', nativeName: 'Tiếng Việt', voice: 'Leda' },
+  tl: { name: 'Tagalog', nativeName: 'Tagalog', voice: 'Puck' }
+};
+
+// Alternative names the model or a browser may use for a supported language
+const LANGUAGE_ALIASES: Record<string, Language> = {
+  english: 'en',
+  spanish: 'es',
+  espanol: 'es',
+  vietnamese: 'vi',
+  'tieng viet': 'vi',
+  tagalog: 'tl',
+  filipino: 'tl',
+  fil: 'tl'
+};
+
+/**
+ * Reduces a language name or tag ("Spanish", "es-MX", "Filipino") to a
+ * lowercase ISO 639 code. Unsupported but well-formed codes pass through so
+ * the original language is still recorded.
+ */
+export function normalizeLanguageCode(raw: string | undefined): string | undefined {
+  if (!raw) return undefined;
+  const text = raw.trim().toLowerCase().normalize('NFD').replace(/[\u0300-\u036f]/g, '');
+  if (text in LANGUAGE_ALIASES) return LANGUAGE_ALIASES[text];
+
+  const match = text.match(/^([a-z]{2,3})(?:[-_][a-z0-9]+)*$/);
+  if (!match) return undefined;
+  return LANGUAGE_ALIASES[match[1]] ?? match[1];
+}
+
+export function isSupportedLanguage(code: string | undefined): code is Language {
+  return LANGUAGES.includes(code as Language);
+}
+
+export function languageName(code: string | undefined): string {
+  return isSupportedLanguage(code) ? LANGUAGE_INFO[code].nativeName : (code ?? '').toUpperCase();
+}
+
+export function detectBrowserLanguage(): Language {
+  for (const tag of navigator.languages ?? [navigator.language]) {
+    const code = normalizeLanguageCode(tag);
+    if (isSupportedLanguage(code)) return code;
+  }
+  return CANONICAL_LANGUAGE;
+}
+
+export function resolveUiLanguage(setting: LanguageSetting): Language {
+  return setting === 'auto' ? detectBrowserLanguage() : setting;
+}
+
+const EN = {
+  realtimeIncidents: 'Real-time Incidents',
+  queued: '{count} Queued',
+  queuedTitle: 'Saved locally, waiting to sync',
+  active: '{count} Active',
+  operator: 'Operator',
+  sortIncidents: 'Sort incidents',
+  sortPriority: 'Priority',
+  sortNewest: 'Newest',
+  viewCalls: 'Calls ({count})',
+  viewIncidents: 'Incidents ({count})',
+  merge: 'Merge {count}',
+  emptyTitle: 'No incidents reported nearby.',
+  emptySubtitle: 'Stay safe.',
+  tapToReport: 'Tap emergency button to report',
+  language: 'Language',
+  autoDetect: 'Auto-detect',
+  reportSubmitted: 'Report Submitted Successfully',
+  reportSubmittedWithUnit: 'Report Submitted · Nearest unit: {unit} ({distance})',
+  reportSavedInMemory: 'Report saved in memory only',
+  imported: 'Imported {count}',
+  importSkipped: ', {count} already present',
+  importFailed: ', {count} failed',
+  unitDispatched: '{unit} dispatched',
+  assignmentFailed: 'Assignment failed',
+  statusChangeFailed: 'Status change failed',
+  locationUpdated: 'Location updated',
+  mergedIncidents: 'Merged {count} incidents',
+  ticketUpdated: 'Ticket {id} updated by caller',
+  ticketCancelled: 'Ticket {id} cancelled by caller',
+  statusIdle: 'Ready',
+  statusInitializing: 'Initializing Audio...',
+  statusConnecting: 'Connecting to HQ...',
+  statusLive: 'Live',
+  statusReconnecting: 'Connection lost, reconnecting ({attempt}/{max})...',
+  reconnectHint: 'Stay on the line, your details are kept.',
+  statusFailed: 'Connection Failed',
+  failedHint: 'Tap the emergency button to call again',
+  statusEnded: 'Call ended',
+  recordingNoticeTitle: 'This call will be recorded',
+  recordingNoticeBody: 'Calls are recorded for quality review and to investigate incidents afterwards. Recordings are kept {retention}.',
+  retentionDays: 'for {days} days',
+  retentionForever: 'until an operator deletes them',
+  recordingAccept: 'Record and call',
+  recordingDecline: 'Call without recording',
+  recordingActive: 'Recording',
+  recordingSettings: 'Call recording',
+  recordCalls: 'Record calls',
+  keepRecordings: 'Keep recordings',
+  keepDays: '{days} days',
+  keepForever: 'Until deleted',
+  syncOnline: 'Synced · {count} online',
+  syncOffline: 'Sync offline',
+  syncConflict: 'Ticket {id}: a newer change by another operator was kept ({fields})',
+  recordingsStored: '{count} recordings · {size}',
+  deleteRecordings: 'Delete all recordings',
+  playRecording: 'Call recording',
+  hideRecording: 'Hide recording',
+  recordingMissing: 'Recording expired or deleted.',
+  recordingTruncated: 'first {minutes} min only',
+  recordingChannels: 'L caller / R dispatcher',
+  recordingChannelsHint: 'Left channel: caller, right channel: dispatcher',
+  downloadRecording: 'Download',
+  hazardWarning: 'You are inside a hazard zone: {zones}. Follow official instructions and leave the area if it is safe to do so.',
+  dismiss: 'Dismiss',
+  reportEdited: 'Ticket {id} updated',
+  attachmentsAdded: '{count} files attached',
+  attachmentFailed: 'Not attached: {files}',
+  cameraStart: 'Show the scene with your camera',
+  cameraStop: 'Turn camera off',
+  cameraLive: 'Camera is being shared',
+  cameraKeepPhoto: 'Keep this view for the report',
+  cameraKept: '{count} photos kept for the report',
+  cameraUnavailable: 'Camera unavailable',
+  micSettings: 'Microphone',
+  micDevice: 'Input device',
+  micDefault: 'System default',
+  micUnnamed: 'Microphone {number}',
+  echoCancellation: 'Echo cancellation',
+  noiseSuppression: 'Noise suppression',
+  autoGain: 'Automatic volume',
+  talkMode: 'How to talk',
+  talkModeVoice: 'Hands-free, sends when you speak',
+  talkModePush: 'Push to talk',
+  talkModeOpen: 'Always on',
+  holdToTalk: 'Hold to talk',
+  talking: 'Talking',
+  pushToTalkHint: 'Hold the button or the space bar while you speak',
+  voiceSpeech: 'Hearing you',
+  voiceNoise: 'Background noise',
+  reportPending: 'Pending',
+  reportAcknowledged: 'Acknowledged',
+  reportDispatched: 'Dispatched',
+  reportEnRoute: 'En Route',
+  reportResolved: 'Resolved',
+  reportCancelled: 'Cancelled',
+  rangeAll: 'All time',
+  rangeHour: 'Last hour',
+  rangeHours: 'Last {hours} hours',
+  rangeWeek: 'Last 7 days',
+  allTypes: 'All types',
+  allStatuses: 'All statuses',
+  analytics: 'Operations analytics',
+  closeAnalytics: 'Close analytics',
+  timeRange: 'Time range',
+  clearFilters: 'Clear',
+  statReports: 'Reports',
+  statActive: 'Active',
+  statPeople: 'People affected',
+  statPeopleMissing: '{count} reports have no count',
+  statMedianDispatch: 'Median to dispatch',
+  statDispatched: '{count} dispatched',
+  statCalls: 'Calls',
+  statMedianCall: 'Median call',
+  volumeTitle: 'Reports over time by type',
+  volumePerBar: '{duration} per bar',
+  volumeEmpty: 'No reports in range',
+  funnelTitle: 'Status funnel',
+  timeInStateTitle: 'Time in state',
+  median: 'Median',
+  inStatus: 'In {status}',
+  toFirstResponse: 'To first response',
+  toDispatch: 'To dispatch',
+  toResolution: 'To resolution',
+  needsTitle: 'Critical needs',
+  needsEmpty: 'None recorded',
+  callsTitle: 'Calls on this device',
+  callsConnected: 'Connected',
+  callsFailed: 'Failed',
+  callsWithReport: 'Filed a report',
+  callsReconnects: 'Reconnects',
+  callsMedianP90: 'Median / p90 duration',
+  callsMean: 'Mean duration',
+  callsLongest: 'Longest',
+  hazardFlood: 'Flood plain',
+  hazardFire: 'Fire perimeter',
+  hazardEvacuation: 'Evacuation zone',
+  hazardOther: 'Hazard zone',
+  hazardZones: 'Hazard zones',
+  hazardNone: 'None yet. Draw one or import GeoJSON.',
+  hazardActiveHint: 'Active: tags reports and warns devices inside',
+  hazardInactive: 'Inactive',
+  hazardDelete: 'Delete {name}',
+  hazardNewZone: 'New zone',
+  hazardPlaceCorners: 'Click the map to place corners ({count} placed).',
+  hazardName: 'Name',
+  hazardDraw: 'Draw zone',
+  hazardImport: 'Import GeoJSON',
+  hazardNotImported: 'Not imported: {count}',
+  hazardReportsInside: '{count} reports inside',
+  importFile: 'File',
+  fileReadFailed: 'Could not read {file}.',
+  save: 'Save',
+  undo: 'Undo',
+  cancel: 'Cancel',
+  fieldType: 'Type',
+  fieldDescription: 'Description',
+  fieldPeople: 'People',
+  fieldNeeds: 'Needs',
+  fieldLocation: 'Location',
+  latitude: 'Latitude',
+  longitude: 'Longitude',
+  editReport: 'Edit report',
+  closeDetails: 'Close details',
+  adjustPinHint: 'The pin can also be dragged on the map after "Adjust pin".',
+  saveChanges: 'Save changes',
+  peopleUnknown: 'Unknown',
+  needsNone: 'None specified',
+  unit: 'Unit',
+  notGiven: 'Not given on the call: {details}',
+  notGivenProtocol: 'Not given on the call (protocol v{version}): {details}',
+  attachments: 'Attachments ({count})',
+  attach: 'Attach',
+  attaching: 'Adding…',
+  attachmentsEmpty: 'No photos or documents yet.',
+  attachmentInfo: '{name} · {size} · added by {by} at {time}',
+  attachmentRemove: 'Remove {name}',
+  attachmentRemoveConfirm: 'Remove {name}?',
+  changes: 'Changes ({count})',
+  changedBy: 'by {name}',
+  emptyValue: '(empty)',
+  cancelReason: 'Reason for cancelling this report?',
+  history: 'History ({count})',
+  hideHistory: 'Hide history',
+  priorityCritical: 'Critical',
+  priorityHigh: 'High',
+  priorityMedium: 'Medium',
+  priorityLow: 'Low',
+  locationUnverified: 'Location unverified',
+  locationConfidence: '{source}, confidence {percent}%',
+  sourceGeocoder: 'Geocoded',
+  sourceModelEstimate: 'AI estimate',
+  sourceDeviceGps: 'Device GPS',
+  sourceDefault: 'Default center',
+  sourceManual: 'Operator pin',
+  adjustPin: 'Adjust pin',
+  dragPin: 'Drag the pin to correct',
+  details: 'Details',
+  callChecklist: 'Call checklist',
+  protocolFor: '{type} protocol',
+  protocolCall: 'Call',
+  checklistWaiting: 'waiting {time}',
+  checklistNotGiven: 'not given',
+  checklistFiled: 'Filed as ticket {id}',
+  callProtocols: 'Call protocols',
+  protocolSummary: 'Version {version} ({source}) · {types} emergency types, {questions} extra questions',
+  protocolImported: 'imported',
+  protocolBuiltIn: 'built-in',
+  export: 'Export',
+  import: 'Import',
+  protocolRestore: 'Restore built-in protocols',
+  protocolNotImported: 'Protocol file not imported',
+  syncUnauthorized: 'Sync token rejected',
+  syncUnauthorizedHint: 'Open the sync link with the current token to reconnect'
+};
+
+export type UiStringKey = keyof typeof EN;
+
+const UI_STRINGS: Record<Language, Record<UiStringKey, string>> = {
+  en: EN,
+  es: {
+    realtimeIncidents: 'Incidentes en tiempo real',
+    queued: '{count} en cola',
+    queuedTitle: 'Guardado localmente, pendiente de sincronizar',
+    active: '{count} activos',
+    operator: 'Operador',
+    sortIncidents: 'Ordenar incidentes',
+    sortPriority: 'Prioridad',
+    sortNewest: 'Más recientes',
+    viewCalls: 'Llamadas ({count})',
+    viewIncidents: 'Incidentes ({count})',
+    merge: 'Unir {count}',
+    emptyTitle: 'No hay incidentes reportados cerca.',
+    emptySubtitle: 'Manténgase a salvo.',
+    tapToReport: 'Toque el botón de emergencia para reportar',
+    language: 'Idioma',
+    autoDetect: 'Detección automática',
+    reportSubmitted: 'Reporte enviado',
+    reportSubmittedWithUnit: 'Reporte enviado · Unidad más cercana: {unit} ({distance})',
+    reportSavedInMemory: 'Reporte guardado solo en memoria',
+    imported: 'Importados: {count}',
+    importSkipped: ', {count} ya existentes',
+    importFailed: ', {count} con errores',
+    unitDispatched: '{unit} despachada',
+    assignmentFailed: 'No se pudo asignar la unidad',
+    statusChangeFailed: 'No se pudo cambiar el estado',
+    locationUpdated: 'Ubicación actualizada',
+    mergedIncidents: '{count} incidentes unidos',
+    ticketUpdated: 'Quien llamó actualizó el ticket {id}',
+    ticketCancelled: 'Quien llamó canceló el ticket {id}',
+    statusIdle: 'Listo',
+    statusInitializing: 'Iniciando audio...',
+    statusConnecting: 'Conectando con la central...',
+    statusLive: 'En vivo',
+    statusReconnecting: 'Conexión perdida, reconectando ({attempt}/{max})...',
+    reconnectHint: 'No cuelgue, sus datos se conservan.',
+    statusFailed: 'Falló la conexión',
+    failedHint: 'Toque el botón de emergencia para llamar de nuevo',
+    statusEnded: 'Llamada finalizada',
+    recordingNoticeTitle: 'Esta llamada será grabada',
+    recordingNoticeBody: 'Las llamadas se graban para control de calidad y para investigar los incidentes después. Las grabaciones se conservan {retention}.',
+    retentionDays: 'durante {days} días',
+    retentionForever: 'hasta que un operador las elimine',
+    recordingAccept: 'Grabar y llamar',
+    recordingDecline: 'Llamar sin grabar',
+    recordingActive: 'Grabando',
+    recordingSettings: 'Grabación de llamadas',
+    recordCalls: 'Grabar llamadas',
+    keepRecordings: 'Conservar grabaciones',
+    keepDays: '{days} días',
+    keepForever: 'Hasta eliminarlas',
+    syncOnline: 'Sincronizado · {count} en línea',
+    syncOffline: 'Sincronización desconectada',
+    syncConflict: 'Ticket {id}: se conservó un cambio más reciente de otro operador ({fields})',
+    recordingsStored: '{count} grabaciones · {size}',
+    deleteRecordings: 'Eliminar todas las grabaciones',
+    playRecording: 'Grabación de la llamada',
+    hideRecording: 'Ocultar grabación',
+    recordingMissing: 'La grabación caducó o fue eliminada.',
+    recordingTruncated: 'solo los primeros {minutes} min',
+    recordingChannels: 'I llamante / D operador',
+    recordingChannelsHint: 'Canal izquierdo: quien llama, canal derecho: operador',
+    downloadRecording: 'Descargar',
+    hazardWarning: 'Está dentro de una zona de peligro: {zones}. Siga las instrucciones oficiales y salga del área si es seguro hacerlo.',
+    dismiss: 'Cerrar',
+    reportEdited: 'Ticket {id} actualizado',
+    attachmentsAdded: '{count} archivos adjuntados',
+    attachmentFailed: 'No se adjuntó: {files}',
+    cameraStart: 'Mostrar la escena con su cámara',
+    cameraStop: 'Apagar la cámara',
+    cameraLive: 'Se está compartiendo la cámara',
+    cameraKeepPhoto: 'Guardar esta vista para el reporte',
+    cameraKept: '{count} fotos guardadas para el reporte',
+    cameraUnavailable: 'Cámara no disponible',
+    micSettings: 'Micrófono',
+    micDevice: 'Dispositivo de entrada',
+    micDefault: 'Predeterminado del sistema',
+    micUnnamed: 'Micrófono {number}',
+    echoCancellation: 'Cancelación de eco',
+    noiseSuppression: 'Supresión de ruido',
+    autoGain: 'Volumen automático',
+    talkMode: 'Cómo hablar',
+    talkModeVoice: 'Manos libres, envía cuando habla',
+    talkModePush: 'Pulsar para hablar',
+    talkModeOpen: 'Siempre activo',
+    holdToTalk: 'Mantenga pulsado para hablar',
+    talking: 'Hablando',
+    pushToTalkHint: 'Mantenga pulsado el botón o la barra espaciadora mientras habla',
+    voiceSpeech: 'Le estamos oyendo',
+    voiceNoise: 'Ruido de fondo',
+    reportPending: 'Pendiente',
+    reportAcknowledged: 'Recibido',
+    reportDispatched: 'Despachado',
+    reportEnRoute: 'En camino',
+    reportResolved: 'Resuelto',
+    reportCancelled: 'Cancelado',
+    rangeAll: 'Todo el tiempo',
+    rangeHour: 'Última hora',
+    rangeHours: 'Últimas {hours} horas',
+    rangeWeek: 'Últimos 7 días',
+    allTypes: 'Todos los tipos',
+    allStatuses: 'Todos los estados',
+    analytics: 'Análisis de operaciones',
+    closeAnalytics: 'Cerrar análisis',
+    timeRange: 'Periodo',
+    clearFilters: 'Quitar filtros',
+    statReports: 'Reportes',
+    statActive: 'Activos',
+    statPeople: 'Personas afectadas',
+    statPeopleMissing: '{count} reportes sin número de personas',
+    statMedianDispatch: 'Mediana hasta despacho',
+    statDispatched: '{count} despachados',
+    statCalls: 'Llamadas',
+    statMedianCall: 'Mediana de llamada',
+    volumeTitle: 'Reportes en el tiempo por tipo',
+    volumePerBar: '{duration} por barra',
+    volumeEmpty: 'No hay reportes en el periodo',
+    funnelTitle: 'Embudo de estados',
+    timeInStateTitle: 'Tiempo en cada estado',
+    median: 'Mediana',
+    inStatus: 'En {status}',
+    toFirstResponse: 'Hasta la primera respuesta',
+    toDispatch: 'Hasta el despacho',
+    toResolution: 'Hasta la resolución',
+    needsTitle: 'Necesidades críticas',
+    needsEmpty: 'Ninguna registrada',
+    callsTitle: 'Llamadas en este dispositivo',
+    callsConnected: 'Conectadas',
+    callsFailed: 'Fallidas',
+    callsWithReport: 'Con reporte',
+    callsReconnects: 'Reconexiones',
+    callsMedianP90: 'Duración mediana / p90',
+    callsMean: 'Duración media',
+    callsLongest: 'Más larga',
+    hazardFlood: 'Zona inundable',
+    hazardFire: 'Perímetro del incendio',
+    hazardEvacuation: 'Zona de evacuación',
+    hazardOther: 'Zona de peligro',
+    hazardZones: 'Zonas de peligro',
+    hazardNone: 'Todavía no hay. Dibuje una o importe GeoJSON.',
+    hazardActiveHint: 'Activa: marca los reportes y avisa a los dispositivos dentro',
+    hazardInactive: 'Inactiva',
+    hazardDelete: 'Eliminar {name}',
+    hazardNewZone: 'Nueva zona',
+    hazardPlaceCorners: 'Haga clic en el mapa para colocar las esquinas ({count} colocadas).',
+    hazardName: 'Nombre',
+    hazardDraw: 'Dibujar zona',
+    hazardImport: 'Importar GeoJSON',
+    hazardNotImported: 'Sin importar: {count}',
+    hazardReportsInside: '{count} reportes dentro',
+    importFile: 'Archivo',
+    fileReadFailed: 'No se pudo leer {file}.',
+    save: 'Guardar',
+    undo: 'Deshacer',
+    cancel: 'Cancelar',
+    fieldType: 'Tipo',
+    fieldDescription: 'Descripción',
+    fieldPeople: 'Personas',
+    fieldNeeds: 'Necesidades',
+    fieldLocation: 'Ubicación',
+    latitude: 'Latitud',
+    longitude: 'Longitud',
+    editReport: 'Editar reporte',
+    closeDetails: 'Cerrar detalles',
+    adjustPinHint: 'El marcador también se puede arrastrar en el mapa tras "Ajustar marcador".',
+    saveChanges: 'Guardar cambios',
+    peopleUnknown: 'Desconocido',
+    needsNone: 'Ninguna indicada',
+    unit: 'Unidad',
+    notGiven: 'No indicado en la llamada: {details}',
+    notGivenProtocol: 'No indicado en la llamada (protocolo v{version}): {details}',
+    attachments: 'Adjuntos ({count})',
+    attach: 'Adjuntar',
+    attaching: 'Añadiendo…',
+    attachmentsEmpty: 'Aún no hay fotos ni documentos.',
+    attachmentInfo: '{name} · {size} · añadido por {by} a las {time}',
+    attachmentRemove: 'Quitar {name}',
+    attachmentRemoveConfirm: '¿Quitar {name}?',
+    changes: 'Cambios ({count})',
+    changedBy: 'por {name}',
+    emptyValue: '(vacío)',
+    cancelReason: '¿Motivo para cancelar este reporte?',
+    history: 'Historial ({count})',
+    hideHistory: 'Ocultar historial',
+    priorityCritical: 'Crítica',
+    priorityHigh: 'Alta',
+    priorityMedium: 'Media',
+    priorityLow: 'Baja',
+    locationUnverified: 'Ubicación sin verificar',
+    locationConfidence: '{source}, confianza {percent}%',
+    sourceGeocoder: 'Geocodificada',
+    sourceModelEstimate: 'Estimación de IA',
+    sourceDeviceGps: 'GPS del dispositivo',
+    sourceDefault: 'Centro predeterminado',
+    sourceManual: 'Marcador del operador',
+    adjustPin: 'Ajustar marcador',
+    dragPin: 'Arrastre el marcador para corregir',
+    details: 'Detalles',
+    callChecklist: 'Lista de la llamada',
+    protocolFor: 'Protocolo: {type}',
+    protocolCall: 'Llamada',
+    checklistWaiting: 'esperando {time}',
+    checklistNotGiven: 'no indicado',
+    checklistFiled: 'Registrado como ticket {id}',
+    callProtocols: 'Protocolos de llamada',
+    protocolSummary: 'Versión {version} ({source}) · {types} tipos de emergencia, {questions} preguntas adicionales',
+    protocolImported: 'importado',
+    protocolBuiltIn: 'integrado',
+    export: 'Exportar',
+    import: 'Importar',
+    protocolRestore: 'Restaurar protocolos integrados',
+    protocolNotImported: 'Archivo de protocolos no importado',
+    syncUnauthorized: 'Token de sincronización rechazado',
+    syncUnauthorizedHint: 'Abra el enlace de sincronización con el token actual para reconectar'
+  },
+  vi: {
+    realtimeIncidents: 'Sự cố theo thời gian thực',
+    queued: '{count} đang chờ',
+    queuedTitle: 'Đã lưu trên thiết bị, đang chờ đồng bộ',
+    active: '{count} đang xử lý',
+    operator: 'Điều phối viên',
+    sortIncidents: 'Sắp xếp sự cố',
+    sortPriority: 'Ưu tiên',
+    sortNewest: 'Mới nhất',
+    viewCalls: 'Cuộc gọi ({count})',
+    viewIncidents: 'Sự cố ({count})',
+    merge: 'Gộp {count}',
+    emptyTitle: 'Không có sự cố nào được báo cáo gần đây.',
+    emptySubtitle: 'Hãy giữ an toàn.',
+    tapToReport: 'Nhấn nút khẩn cấp để báo cáo',
+    language: 'Ngôn ngữ',
+    autoDetect: 'Tự động nhận diện',
+    reportSubmitted: 'Đã gửi báo cáo',
+    reportSubmittedWithUnit: 'Đã gửi báo cáo · Đơn vị gần nhất: {unit} ({distance})',
+    reportSavedInMemory: 'Báo cáo chỉ được lưu trong bộ nhớ',
+    imported: 'Đã nhập {count}',
+    importSkipped: ', {count} đã có',
+    importFailed: ', {count} bị lỗi',
+    unitDispatched: 'Đã điều động {unit}',
+    assignmentFailed: 'Không thể phân công',
+    statusChangeFailed: 'Không thể đổi trạng thái',
+    locationUpdated: 'Đã cập nhật vị trí',
+    mergedIncidents: 'Đã gộp {count} sự cố',
+    ticketUpdated: 'Người gọi đã cập nhật phiếu {id}',
+    ticketCancelled: 'Người gọi đã hủy phiếu {id}',
+    statusIdle: 'Sẵn sàng',
+    statusInitializing: 'Đang khởi tạo âm thanh...',
+    statusConnecting: 'Đang kết nối tổng đài...',
+    statusLive: 'Trực tiếp',
+    statusReconnecting: 'Mất kết nối, đang kết nối lại ({attempt}/{max})...',
+    reconnectHint: 'Vui lòng giữ máy, thông tin của bạn vẫn được lưu.',
+    statusFailed: 'Kết nối thất bại',
+    failedHint: 'Nhấn nút khẩn cấp để gọi lại',
+    statusEnded: 'Cuộc gọi đã kết thúc',
+    recordingNoticeTitle: 'Cuộc gọi này sẽ được ghi âm',
+    recordingNoticeBody: 'Cuộc gọi được ghi âm để kiểm tra chất lượng và điều tra sự cố sau này. Bản ghi được lưu {retention}.',
+    retentionDays: 'trong {days} ngày',
+    retentionForever: 'cho đến khi điều phối viên xóa',
+    recordingAccept: 'Ghi âm và gọi',
+    recordingDecline: 'Gọi không ghi âm',
+    recordingActive: 'Đang ghi âm',
+    recordingSettings: 'Ghi âm cuộc gọi',
+    recordCalls: 'Ghi âm cuộc gọi',
+    keepRecordings: 'Lưu bản ghi',
+    keepDays: '{days} ngày',
+    keepForever: 'Đến khi xóa',
+    syncOnline: 'Đã đồng bộ · {count} trực tuyến',
+    syncOffline: 'Mất đồng bộ',
+    syncConflict: 'Phiếu {id}: đã giữ thay đổi mới hơn của điều phối viên khác ({fields})',
+    recordingsStored: '{count} bản ghi · {size}',
+    deleteRecordings: 'Xóa tất cả bản ghi',
+    playRecording: 'Bản ghi cuộc gọi',
+    hideRecording: 'Ẩn bản ghi',
+    recordingMissing: 'Bản ghi đã hết hạn hoặc đã bị xóa.',
+    recordingTruncated: 'chỉ {minutes} phút đầu',
+    recordingChannels: 'T người gọi / P điều phối viên',
+    recordingChannelsHint: 'Kênh trái: người gọi, kênh phải: điều phối viên',
+    downloadRecording: 'Tải xuống',
+    hazardWarning: 'Bạn đang ở trong vùng nguy hiểm: {zones}. Hãy làm theo hướng dẫn chính thức và rời khỏi khu vực nếu an toàn.',
+    dismiss: 'Đóng',
+    reportEdited: 'Đã cập nhật phiếu {id}',
+    attachmentsAdded: 'Đã đính kèm {count} tệp',
+    attachmentFailed: 'Không đính kèm được: {files}',
+    cameraStart: 'Cho xem hiện trường bằng camera',
+    cameraStop: 'Tắt camera',
+    cameraLive: 'Đang chia sẻ camera',
+    cameraKeepPhoto: 'Lưu khung hình này cho báo cáo',
+    cameraKept: 'Đã lưu {count} ảnh cho báo cáo',
+    cameraUnavailable: 'Không dùng được camera',
+    micSettings: 'Micrô',
+    micDevice: 'Thiết bị đầu vào',
+    micDefault: 'Mặc định của hệ thống',
+    micUnnamed: 'Micrô {number}',
+    echoCancellation: 'Khử tiếng vọng',
+    noiseSuppression: 'Giảm tiếng ồn',
+    autoGain: 'Tự động chỉnh âm lượng',
+    talkMode: 'Cách nói',
+    talkModeVoice: 'Rảnh tay, gửi khi bạn nói',
+    talkModePush: 'Nhấn để nói',
+    talkModeOpen: 'Luôn bật',
+    holdToTalk: 'Nhấn giữ để nói',
+    talking: 'Đang nói',
+    pushToTalkHint: 'Nhấn giữ nút hoặc phím cách trong khi nói',
+    voiceSpeech: 'Đang nghe bạn',
+    voiceNoise: 'Tiếng ồn xung quanh',
+    reportPending: 'Đang chờ',
+    reportAcknowledged: 'Đã tiếp nhận',
+    reportDispatched: 'Đã điều động',
+    reportEnRoute: 'Đang trên đường',
+    reportResolved: 'Đã xử lý',
+    reportCancelled: 'Đã hủy',
+    rangeAll: 'Mọi lúc',
+    rangeHour: '1 giờ qua',
+    rangeHours: '{hours} giờ qua',
+    rangeWeek: '7 ngày qua',
+    allTypes: 'Mọi loại',
+    allStatuses: 'Mọi trạng thái',
+    analytics: 'Phân tích hoạt động',
+    closeAnalytics: 'Đóng phân tích',
+    timeRange: 'Khoảng thời gian',
+    clearFilters: 'Xóa bộ lọc',
+    statReports: 'Báo cáo',
+    statActive: 'Đang hoạt động',
+    statPeople: 'Số người bị ảnh hưởng',
+    statPeopleMissing: '{count} báo cáo không có số người',
+    statMedianDispatch: 'Trung vị đến khi điều động',
+    statDispatched: '{count} đã điều động',
+    statCalls: 'Cuộc gọi',
+    statMedianCall: 'Trung vị cuộc gọi',
+    volumeTitle: 'Báo cáo theo thời gian và loại',
+    volumePerBar: '{duration} mỗi cột',
+    volumeEmpty: 'Không có báo cáo trong khoảng này',
+    funnelTitle: 'Phễu trạng thái',
+    timeInStateTitle: 'Thời gian ở mỗi trạng thái',
+    median: 'Trung vị',
+    inStatus: 'Ở {status}',
+    toFirstResponse: 'Đến phản hồi đầu tiên',
+    toDispatch: 'Đến khi điều động',
+    toResolution: 'Đến khi xử lý xong',
+    needsTitle: 'Nhu cầu cấp thiết',
+    needsEmpty: 'Chưa ghi nhận',
+    callsTitle: 'Cuộc gọi trên thiết bị này',
+    callsConnected: 'Đã kết nối',
+    callsFailed: 'Thất bại',
+    callsWithReport: 'Đã gửi báo cáo',
+    callsReconnects: 'Kết nối lại',
+    callsMedianP90: 'Thời lượng trung vị / p90',
+    callsMean: 'Thời lượng trung bình',
+    callsLongest: 'Dài nhất',
+    hazardFlood: 'Vùng ngập lụt',
+    hazardFire: 'Vành đai đám cháy',
+    hazardEvacuation: 'Vùng sơ tán',
+    hazardOther: 'Vùng nguy hiểm',
+    hazardZones: 'Vùng nguy hiểm',
+    hazardNone: 'Chưa có. Hãy vẽ một vùng hoặc nhập GeoJSON.',
+    hazardActiveHint: 'Đang bật: gắn nhãn báo cáo và cảnh báo thiết bị bên trong',
+    hazardInactive: 'Đã tắt',
+    hazardDelete: 'Xóa {name}',
+    hazardNewZone: 'Vùng mới',
+    hazardPlaceCorners: 'Nhấp vào bản đồ để đặt các góc (đã đặt {count}).',
+    hazardName: 'Tên',
+    hazardDraw: 'Vẽ vùng',
+    hazardImport: 'Nhập GeoJSON',
+    hazardNotImported: 'Chưa nhập được: {count}',
+    hazardReportsInside: '{count} báo cáo bên trong',
+    importFile: 'Tệp',
+    fileReadFailed: 'Không đọc được {file}.',
+    save: 'Lưu',
+    undo: 'Hoàn tác',
+    cancel: 'Hủy',
+    fieldType: 'Loại',
+    fieldDescription: 'Mô tả',
+    fieldPeople: 'Số người',
+    fieldNeeds: 'Nhu cầu',
+    fieldLocation: 'Vị trí',
+    latitude: 'Vĩ độ',
+    longitude: 'Kinh độ',
+    editReport: 'Sửa báo cáo',
+    closeDetails: 'Đóng chi tiết',
+    adjustPinHint: 'Cũng có thể kéo ghim trên bản đồ sau khi chọn "Chỉnh ghim".',
+    saveChanges: 'Lưu thay đổi',
+    peopleUnknown: 'Không rõ',
+    needsNone: 'Không nêu',
+    unit: 'Đơn vị',
+    notGiven: 'Không được cung cấp trong cuộc gọi: {details}',
+    notGivenProtocol: 'Không được cung cấp trong cuộc gọi (quy trình v{version}): {details}',
+    attachments: 'Tệp đính kèm ({count})',
+    attach: 'Đính kèm',
+    attaching: 'Đang thêm…',
+    attachmentsEmpty: 'Chưa có ảnh hoặc tài liệu.',
+    attachmentInfo: '{name} · {size} · do {by} thêm lúc {time}',
+    attachmentRemove: 'Xóa {name}',
+    attachmentRemoveConfirm: 'Xóa {name}?',
+    changes: 'Thay đổi ({count})',
+    changedBy: 'bởi {name}',
+    emptyValue: '(trống)',
+    cancelReason: 'Lý do hủy báo cáo này?',
+    history: 'Lịch sử ({count})',
+    hideHistory: 'Ẩn lịch sử',
+    priorityCritical: 'Nguy cấp',
+    priorityHigh: 'Cao',
+    priorityMedium: 'Trung bình',
+    priorityLow: 'Thấp',
+    locationUnverified: 'Vị trí chưa xác minh',
+    locationConfidence: '{source}, độ tin cậy {percent}%',
+    sourceGeocoder: 'Mã hóa địa lý',
+    sourceModelEstimate: 'Ước tính của AI',
+    sourceDeviceGps: 'GPS thiết bị',
+    sourceDefault: 'Tâm mặc định',
+    sourceManual: 'Ghim của điều phối viên',
+    adjustPin: 'Chỉnh ghim',
+    dragPin: 'Kéo ghim để sửa',
+    details: 'Chi tiết',
+    callChecklist: 'Danh sách cuộc gọi',
+    protocolFor: 'Quy trình {type}',
+    protocolCall: 'Cuộc gọi',
+    checklistWaiting: 'đang chờ {time}',
+    checklistNotGiven: 'không cung cấp',
+    checklistFiled: 'Đã lập phiếu {id}',
+    callProtocols: 'Quy trình cuộc gọi',
+    protocolSummary: 'Phiên bản {version} ({source}) · {types} loại khẩn cấp, {questions} câu hỏi thêm',
+    protocolImported: 'đã nhập',
+    protocolBuiltIn: 'có sẵn',
+    export: 'Xuất',
+    import: 'Nhập',
+    protocolRestore: 'Khôi phục quy trình có sẵn',
+    protocolNotImported: 'Chưa nhập tệp quy trình',
+    syncUnauthorized: 'Mã đồng bộ bị từ chối',
+    syncUnauthorizedHint: 'Mở liên kết đồng bộ có mã hiện tại để kết nối lại'
+  },
+  tl: {
+    realtimeIncidents: 'Mga Insidente sa Real-time',
+    queued: '{count} Nakapila',
+    queuedTitle: 'Naka-save sa device, naghihintay ma-sync',
+    active: '{count} Aktibo',
+    operator: 'Operator',
+    sortIncidents: 'Ayusin ang mga insidente',
+    sortPriority: 'Priyoridad',
+    sortNewest: 'Pinakabago',
+    viewCalls: 'Mga Tawag ({count})',
+    viewIncidents: 'Mga Insidente ({count})',
+    merge: 'Pagsamahin ang {count}',
+    emptyTitle: 'Walang naiulat na insidente sa malapit.',
+    emptySubtitle: 'Mag-ingat palagi.',
+    tapToReport: 'Pindutin ang emergency button para mag-ulat',
+    language: 'Wika',
+    autoDetect: 'Awtomatikong tukuyin',
+    reportSubmitted: 'Naipadala ang ulat',
+    reportSubmittedWithUnit: 'Naipadala ang ulat · Pinakamalapit na unit: {unit} ({distance})',
+    reportSavedInMemory: 'Sa memorya lang nai-save ang ulat',
+    imported: 'Na-import ang {count}',
+    importSkipped: ', {count} mayroon na',
+    importFailed: ', {count} pumalya',
+    unitDispatched: 'Naipadala ang {unit}',
+    assignmentFailed: 'Hindi naitalaga ang unit',
+    statusChangeFailed: 'Hindi nabago ang status',
+    locationUpdated: 'Na-update ang lokasyon',
+    mergedIncidents: 'Pinagsama ang {count} insidente',
+    ticketUpdated: 'Na-update ng tumawag ang tiket {id}',
+    ticketCancelled: 'Kinansela ng tumawag ang tiket {id}',
+    statusIdle: 'Handa',
+    statusInitializing: 'Inihahanda ang audio...',
+    statusConnecting: 'Kumokonekta sa HQ...',
+    statusLive: 'Live',
+    statusReconnecting: 'Naputol ang koneksyon, kumokonekta muli ({attempt}/{max})...',
+    reconnectHint: 'Huwag ibaba ang tawag, nakatago pa rin ang inyong detalye.',
+    statusFailed: 'Nabigo ang koneksyon',
+    failedHint: 'Pindutin ang emergency button para tumawag muli',
+    statusEnded: 'Natapos ang tawag',
+    recordingNoticeTitle: 'Ire-record ang tawag na ito',
+    recordingNoticeBody: 'Nire-record ang mga tawag para sa pagsusuri ng kalidad at pag-imbestiga ng mga insidente pagkatapos. Itinatago ang mga recording {retention}.',
+    retentionDays: 'nang {days} araw',
+    retentionForever: 'hanggang burahin ng operator',
+    recordingAccept: 'I-record at tumawag',
+    recordingDecline: 'Tumawag nang walang recording',
+    recordingActive: 'Nire-record',
+    recordingSettings: 'Pag-record ng tawag',
+    recordCalls: 'I-record ang mga tawag',
+    keepRecordings: 'Itago ang recording',
+    keepDays: '{days} araw',
+    keepForever: 'Hanggang burahin',
+    syncOnline: 'Naka-sync · {count} online',
+    syncOffline: 'Offline ang sync',
+    syncConflict: 'Tiket {id}: itinago ang mas bagong pagbabago ng ibang operator ({fields})',
+    recordingsStored: '{count} recording · {size}',
+    deleteRecordings: 'Burahin lahat ng recording',
+    playRecording: 'Recording ng tawag',
+    hideRecording: 'Itago ang recording',
+    recordingMissing: 'Nag-expire o nabura na ang recording.',
+    recordingTruncated: 'unang {minutes} min lang',
+    recordingChannels: 'Kaliwa: tumawag / Kanan: dispatcher',
+    recordingChannelsHint: 'Kaliwang channel: tumawag, kanang channel: dispatcher',
+    downloadRecording: 'I-download',
+    hazardWarning: 'Nasa loob kayo ng mapanganib na lugar: {zones}. Sundin ang opisyal na mga tagubilin at umalis sa lugar kung ligtas itong gawin.',
+    dismiss: 'Isara',
+    reportEdited: 'Na-update ang ticket {id}',
+    attachmentsAdded: '{count} file ang na-attach',
+    attachmentFailed: 'Hindi na-attach: {files}',
+    cameraStart: 'Ipakita ang lugar gamit ang camera',
+    cameraStop: 'Patayin ang camera',
+    cameraLive: 'Ibinabahagi ang camera',
+    cameraKeepPhoto: 'Itago ang kuhang ito para sa ulat',
+    cameraKept: '{count} larawan ang itinago para sa ulat',
+    cameraUnavailable: 'Hindi magamit ang camera',
+    micSettings: 'Mikropono',
+    micDevice: 'Input na device',
+    micDefault: 'Default ng system',
+    micUnnamed: 'Mikropono {number}',
+    echoCancellation: 'Pag-alis ng echo',
+    noiseSuppression: 'Pagbawas ng ingay',
+    autoGain: 'Awtomatikong lakas ng tunog',
+    talkMode: 'Paano magsalita',
+    talkModeVoice: 'Hands-free, nagpapadala kapag nagsasalita ka',
+    talkModePush: 'Pindutin para magsalita',
+    talkModeOpen: 'Laging naka-on',
+    holdToTalk: 'Pindutin nang matagal para magsalita',
+    talking: 'Nagsasalita',
+    pushToTalkHint: 'Pindutin nang matagal ang button o ang space bar habang nagsasalita',
+    voiceSpeech: 'Naririnig ka namin',
+    voiceNoise: 'Ingay sa paligid',
+    reportPending: 'Nakabinbin',
+    reportAcknowledged: 'Natanggap',
+    reportDispatched: 'Naipadala',
+    reportEnRoute: 'Papunta na',
+    reportResolved: 'Nalutas',
+    reportCancelled: 'Kinansela',
+    rangeAll: 'Lahat ng oras',
+    rangeHour: 'Nakaraang oras',
+    rangeHours: 'Nakaraang {hours} oras',
+    rangeWeek: 'Nakaraang 7 araw',
+    allTypes: 'Lahat ng uri',
+    allStatuses: 'Lahat ng status',
+    analytics: 'Analytics ng operasyon',
+    closeAnalytics: 'Isara ang analytics',
+    timeRange: 'Saklaw ng oras',
+    clearFilters: 'I-clear',
+    statReports: 'Mga ulat',
+    statActive: 'Aktibo',
+    statPeople: 'Mga apektadong tao',
+    statPeopleMissing: '{count} ulat ang walang bilang',
+    statMedianDispatch: 'Median bago maipadala',
+    statDispatched: '{count} naipadala',
+    statCalls: 'Mga tawag',
+    statMedianCall: 'Median na tawag',
+    volumeTitle: 'Mga ulat sa paglipas ng oras ayon sa uri',
+    volumePerBar: '{duration} bawat bar',
+    volumeEmpty: 'Walang ulat sa saklaw',
+    funnelTitle: 'Funnel ng status',
+    timeInStateTitle: 'Oras sa bawat status',
+    median: 'Median',
+    inStatus: 'Sa {status}',
+    toFirstResponse: 'Hanggang unang tugon',
+    toDispatch: 'Hanggang maipadala',
+    toResolution: 'Hanggang malutas',
+    needsTitle: 'Mahahalagang pangangailangan',
+    needsEmpty: 'Walang naitala',
+    callsTitle: 'Mga tawag sa device na ito',
+    callsConnected: 'Nakakonekta',
+    callsFailed: 'Nabigo',
+    callsWithReport: 'Nakapag-file ng ulat',
+    callsReconnects: 'Muling pagkonekta',
+    callsMedianP90: 'Median / p90 na tagal',
+    callsMean: 'Karaniwang tagal',
+    callsLongest: 'Pinakamatagal',
+    hazardFlood: 'Bahaing lugar',
+    hazardFire: 'Perimetro ng sunog',
+    hazardEvacuation: 'Lugar ng paglikas',
+    hazardOther: 'Mapanganib na lugar',
+    hazardZones: 'Mga mapanganib na lugar',
+    hazardNone: 'Wala pa. Gumuhit ng isa o mag-import ng GeoJSON.',
+    hazardActiveHint: 'Aktibo: minamarkahan ang mga ulat at binabalaan ang mga device sa loob',
+    hazardInactive: 'Hindi aktibo',
+    hazardDelete: 'Burahin ang {name}',
+    hazardNewZone: 'Bagong lugar',
+    hazardPlaceCorners: 'I-click ang mapa para maglagay ng mga sulok ({count} nailagay).',
+    hazardName: 'Pangalan',
+    hazardDraw: 'Gumuhit ng lugar',
+    hazardImport: 'Mag-import ng GeoJSON',
+    hazardNotImported: 'Hindi na-import: {count}',
+    hazardReportsInside: '{count} ulat sa loob',
+    importFile: 'File',
+    fileReadFailed: 'Hindi mabasa ang {file}.',
+    save: 'I-save',
+    undo: 'I-undo',
+    cancel: 'Kanselahin',
+    fieldType: 'Uri',
+    fieldDescription: 'Paglalarawan',
+    fieldPeople: 'Mga tao',
+    fieldNeeds: 'Mga pangangailangan',
+    fieldLocation: 'Lokasyon',
+    latitude: 'Latitude',
+    longitude: 'Longitude',
+    editReport: 'I-edit ang ulat',
+    closeDetails: 'Isara ang detalye',
+    adjustPinHint: 'Puwede ring i-drag ang pin sa mapa pagkatapos ng "Ayusin ang pin".',
+    saveChanges: 'I-save ang mga pagbabago',
+    peopleUnknown: 'Hindi alam',
+    needsNone: 'Walang binanggit',
+    unit: 'Yunit',
+    notGiven: 'Hindi nabanggit sa tawag: {details}',
+    notGivenProtocol: 'Hindi nabanggit sa tawag (protocol v{version}): {details}',
+    attachments: 'Mga attachment ({count})',
+    attach: 'Mag-attach',
+    attaching: 'Idinadagdag…',
+    attachmentsEmpty: 'Wala pang larawan o dokumento.',
+    attachmentInfo: '{name} · {size} · idinagdag ni {by} noong {time}',
+    attachmentRemove: 'Alisin ang {name}',
+    attachmentRemoveConfirm: 'Alisin ang {name}?',
+    changes: 'Mga pagbabago ({count})',
+    changedBy: 'ni {name}',
+    emptyValue: '(walang laman)',
+    cancelReason: 'Dahilan ng pagkansela sa ulat na ito?',
+    history: 'Kasaysayan ({count})',
+    hideHistory: 'Itago ang kasaysayan',
+    priorityCritical: 'Kritikal',
+    priorityHigh: 'Mataas',
+    priorityMedium: 'Katamtaman',
+    priorityLow: 'Mababa',
+    locationUnverified: 'Hindi beripikado ang lokasyon',
+    locationConfidence: '{source}, kumpiyansa {percent}%',
+    sourceGeocoder: 'Na-geocode',
+    sourceModelEstimate: 'Tantiya ng AI',
+    sourceDeviceGps: 'GPS ng device',
+    sourceDefault: 'Default na gitna',
+    sourceManual: 'Pin ng operator',
+    adjustPin: 'Ayusin ang pin',
+    dragPin: 'I-drag ang pin para itama',
+    details: 'Detalye',
+    callChecklist: 'Checklist ng tawag',
+    protocolFor: 'Protocol para sa {type}',
+    protocolCall: 'Tawag',
+    checklistWaiting: 'naghihintay {time}',
+    checklistNotGiven: 'hindi nabanggit',
+    checklistFiled: 'Naitala bilang tiket {id}',
+    callProtocols: 'Mga protocol ng tawag',
+    protocolSummary: 'Bersyon {version} ({source}) · {types} uri ng emergency, {questions} dagdag na tanong',
+    protocolImported: 'in-import',
+    protocolBuiltIn: 'built-in',
+    export: 'I-export',
+    import: 'I-import',
+    protocolRestore: 'Ibalik ang built-in na protocol',
+    protocolNotImported: 'Hindi na-import ang protocol file',
+    syncUnauthorized: 'Tinanggihan ang sync token',
+    syncUnauthorizedHint: 'Buksan ang sync link na may kasalukuyang token para kumonekta muli'
+  }
+};
+
+export function translate(language: Language, key: UiStringKey, vars: Record<string, string | number> = {}): string {
+  const template = UI_STRINGS[language]?.[key] ?? EN[key];
+  return template.replace(/\{(\w+)\}/g, (match, name) => name in vars ? String(vars[name]) : match);
+}
+
+const CONNECTION_KEYS: Record<ConnectionState, UiStringKey> = {
+  idle: 'statusIdle',
+  initializing: 'statusInitializing',
+  connecting: 'statusConnecting',
+  live: 'statusLive',
+  reconnecting: 'statusReconnecting',
+  failed: 'statusFailed',
+  ended: 'statusEnded'
+};
+
+export function connectionLabel(language: Language, connection: ConnectionSnapshot): string {
+  return translate(language, CONNECTION_KEYS[connection.state], { attempt: connection.attempt, max: connection.maxAttempts });
+}
+
+const STATUS_KEYS: Record<ReportStatus, UiStringKey> = {
+  pending: 'reportPending',
+  acknowledged: 'reportAcknowledged',
+  dispatched: 'reportDispatched',
+  en_route: 'reportEnRoute',
+  resolved: 'reportResolved',
+  cancelled: 'reportCancelled'
+};
+
+export function statusLabel(language: Language, status: ReportStatus): string {
+  return translate(language, STATUS_KEYS[status]);
+}
+
+// Null is "all time"; the week has its own wording rather than "last 168 hours"
+export function timeRangeLabel(language: Language, hours: number | null): string {
+  if (hours === null) return translate(language, 'rangeAll');
+  if (hours === 1) return translate(language, 'rangeHour');
+  if (hours === 168) return translate(language, 'rangeWeek');
+  return translate(language, 'rangeHours', { hours });
+}
+
+const HAZARD_KIND_KEYS: Record<HazardKind, UiStringKey> = {
+  flood: 'hazardFlood',
+  fire: 'hazardFire',
+  evacuation: 'hazardEvacuation',
+  other: 'hazardOther'
+};
+
+export function hazardKindLabel(language: Language, kind: HazardKind): string {
+  return translate(language, HAZARD_KIND_KEYS[kind]);
+}
+
+const PRIORITY_KEYS: Record<Priority, UiStringKey> = {
+  critical: 'priorityCritical',
+  high: 'priorityHigh',
+  medium: 'priorityMedium',
+  low: 'priorityLow'
+};
+
+export function priorityLabel(language: Language, priority: Priority): string {
+  return translate(language, PRIORITY_KEYS[priority]);
+}
+
+const EDIT_FIELD_KEYS: Record<EditableField, UiStringKey> = {
+  emergencyType: 'fieldType',
+  description: 'fieldDescription',
+  peopleCount: 'fieldPeople',
+  criticalNeeds: 'fieldNeeds',
+  location: 'fieldLocation'
+};
+
+export function editFieldLabel(language: Language, field: EditableField): string {
+  return translate(language, EDIT_FIELD_KEYS[field]);
+}
+
+const LOCATION_SOURCE_KEYS: Record<LocationInfo['source'], UiStringKey> = {
+  geocoder: 'sourceGeocoder',
+  model_estimate: 'sourceModelEstimate',
+  device_gps: 'sourceDeviceGps',
+  default: 'sourceDefault',
+  manual: 'sourceManual'
+};
+
+export function locationSourceLabel(language: Language, source: LocationInfo['source']): string {
+  return translate(language, LOCATION_SOURCE_KEYS[source]);
+}
@@ -0,0 +1,163 @@
+import { EmergencyReport, Incident, Priority } from "../types";
+import { centroid, distanceMeters } from "./geoUtils";
+import { normalizeEmergencyType } from "./reportValidation";
+import { isActiveStatus } from "./reportWorkflow";
+
+export interface ClusterOptions {
+  maxDistanceMeters: number;
+  // Max gap between a call and the latest call already in the incident
+  timeWindowMs: number;
+  // Only group calls with the same canonical emergency type
+  matchType: boolean;
+}
+
+export const DEFAULT_CLUSTER_OPTIONS: ClusterOptions = {
+  maxDistanceMeters: 750,
+  timeWindowMs: 2 * 60 * 60 * 1000,
+  matchType: true
+};
+
+const PRIORITY_RANK: Record<Priority, number> = { critical: 3, high: 2, medium: 1, low: 0 };
+
+interface Group {
+  id: string;
+  type: string;
+  confirmed: EmergencyReport[];
+  proposed: EmergencyReport[];
+}
+
+export const incidentIdFor = (report: EmergencyReport) => `inc-${report.id}`;
+
+const members = (group: Group) => [...group.confirmed, ...group.proposed];
+
+function matches(group: Group, report: EmergencyReport, options: ClusterOptions): boolean {
+  if (options.matchType && group.type !== normalizeEmergencyType(report.emergencyType || '')) return false;
+
+  const all = members(group);
+  const center = centroid(all.map(r => r.location));
+  if (distanceMeters(center, report.location) > options.maxDistanceMeters) return false;
+
+  return all.some(r => Math.abs(r.timestamp - report.timestamp) <= options.timeWindowMs);
+}
+
+function splitNeeds(reports: EmergencyReport[]): string[] {
+  const seen = new Map<string, string>();
+  for (const r of reports) {
+    for (const need of (r.criticalNeeds ?? '').split(/[,;]| and /)) {
+      const trimmed = need.trim();
+      if (trimmed && !seen.has(trimmed.toLowerCase())) seen.set(trimmed.toLowerCase(), trimmed);
+    }
+  }
+  return [...seen.values()];
+}
+
+function summarize(group: Group): Incident {
+  const all = members(group).sort((a, b) => a.timestamp - b.timestamp);
+  const counts = all.map(r => r.peopleCount ?? 0);
+  const priorities = all
+    .filter(r => isActiveStatus(r.status) && r.triage)
+    .map(r => r.triage!.priority)
+    .sort((a, b) => PRIORITY_RANK[b] - PRIORITY_RANK[a]);
+
+  return {
+    id: group.id,
+    emergencyType: group.type,
+    location: centroid(all.map(r => r.location)),
+    reportIds: all.map(r => r.id),
+    proposedReportIds: group.proposed.map(r => r.id),
+    confirmed: group.proposed.length === 0,
+    firstReportedAt: all[0].timestamp,
+    lastReportedAt: all[all.length - 1].timestamp,
+    totalPeople: counts.reduce((sum, n) => sum + n, 0),
+    maxPeople: Math.max(0, ...counts),
+    criticalNeeds: splitNeeds(all),
+    priority: priorities[0],
+    activeCount: all.filter(r => isActiveStatus(r.status)).length
+  };
+}
+
+/**
+ * Groups reports into incidents. Reports a dispatcher has already assigned
+ * (via `incidentId`) stay where they were put; the rest are attached to the
+ * nearest matching incident as proposals or start a new proposed incident.
+ */
+export function buildIncidents(
+  reports: EmergencyReport[],
+  options: ClusterOptions = DEFAULT_CLUSTER_OPTIONS
+): Incident[] {
+  const groups: Group[] = [];
+  const byId = new Map<string, Group>();
+
+  for (const report of reports) {
+    if (!report.incidentId) continue;
+    let group = byId.get(report.incidentId);
+    if (!group) {
+      group = { id: report.incidentId, type: normalizeEmergencyType(report.emergencyType || ''), confirmed: [], proposed: [] };
+      byId.set(group.id, group);
+      groups.push(group);
+    }
+    group.confirmed.push(report);
+  }
+
+  const unassigned = reports
+    .filter(r => !r.incidentId)
+    .sort((a, b) => a.timestamp - b.timestamp);
+
+  for (const report of unassigned) {
+    const candidates = groups.filter(g => matches(g, report, options));
+    const best = candidates.sort((a, b) =>
+      distanceMeters(centroid(members(a).map(r => r.location)), report.location)
+      - distanceMeters(centroid(members(b).map(r => r.location)), report.location)
+    )[0];
+
+    if (best) {
+      best.proposed.push(report);
+    } else {
+      const group: Group = { id: incidentIdFor(report), type: normalizeEmergencyType(report.emergencyType || ''), confirmed: [], proposed: [report] };
+      groups.push(group);
+    }
+  }
+
+  return groups
+    .map(summarize)
+    .sort((a, b) => b.lastReportedAt - a.lastReportedAt);
+}
+
+// Dispatcher actions. Each returns only the reports that need to change.
+
+export function confirmIncident(incident: Incident, reports: EmergencyReport[]): EmergencyReport[] {
+  return reports
+    .filter(r => incident.reportIds.includes(r.id) && r.incidentId !== incident.id)
+    .map(r => ({ ...r, incidentId: incident.id }));
+}
+
+/**
+ * Detach a call into its own confirmed incident. The remaining calls are
+ * confirmed together so clustering won't pull them back onto the detached one.
+ */
+export function splitReport(incident: Incident, reportId: string, reports: EmergencyReport[]): EmergencyReport[] {
+  const detached = reports.find(r => r.id === reportId);
+  if (!detached || !incident.reportIds.includes(reportId)) return [];
+
+  const detachedId = incidentIdFor(detached);
+  const remaining = reports.filter(r => r.id !== reportId && incident.reportIds.includes(r.id));
+  // The incident may be named after the detached call; hand the name to the next oldest
+  const remainingId = incident.id === detachedId && remaining.length > 0
+    ? incidentIdFor([...remaining].sort((a, b) => a.timestamp - b.timestamp)[0])
+    : incident.id;
+
+  const changes = remaining
+    .filter(r => r.incidentId !== remainingId)
+    .map(r => ({ ...r, incidentId: remainingId }));
+  return [...changes, { ...detached, incidentId: detachedId }];
+}
+
+export function mergeIncidents(incidents: Incident[], reports: EmergencyReport[]): EmergencyReport[] {
+  if (incidents.length < 2) return [];
+  const [target, ...rest] = [...incidents].sort((a, b) => a.firstReportedAt - b.firstReportedAt);
+  const ids = new Set([...target.reportIds, ...rest.flatMap(i => i.reportIds)]);
+
+  return reports
+    .filter(r => ids.has(r.id) && r.incidentId !== target.id)
+    .map(r => ({ ...r, incidentId: target.id }));
+}
@@ -0,0 +1,56 @@
+import {
+  GoogleGenAI,
+  LiveCallbacks,
+  LiveConnectConfig,
+  LiveSendRealtimeInputParameters,
+  LiveSendToolResponseParameters
+} from "@google/genai";
+import { ScriptedLiveTransport } from "./scriptedLiveTransport";
+
+const API_KEY = process.env.API_KEY || '';
+const DEFAULT_SCRIPT_URL = '/scripts/demo-flood.json';
+
+// The subset of a live session the dispatcher service relies on
+export interface LiveSession {
+  sendRealtimeInput(params: LiveSendRealtimeInputParameters): void;
+  sendToolResponse(params: LiveSendToolResponseParameters): void;
+  close(): void;
+}
+
+export interface LiveConnectParams {
+  model: string;
+  config: LiveConnectConfig;
+  callbacks: LiveCallbacks;
+}
+
+export interface LiveTransport {
+  connect(params: LiveConnectParams): Promise<LiveSession>;
+}
+
+// Real backend: Gemini Live API over WebSocket
+export class GeminiLiveTransport implements LiveTransport {
+  private ai: GoogleGenAI;
+
+  constructor(apiKey: string = API_KEY) {
+    this.ai = new GoogleGenAI({ apiKey });
+  }
+
+  connect(params: LiveConnectParams): Promise<LiveSession> {
+    return this.ai.live.connect(params);
+  }
+}
+
+/**
+ * Picks the backend from the LIVE_BACKEND env var, overridable per page load
+ * with `?backend=scripted&script=/scripts/other.json` for demos.
+ */
+export function createLiveTransport(): LiveTransport {
+  const query = typeof window !== 'undefined' ? new URLSearchParams(window.location.search) : null;
+  const backend = query?.get('backend') || process.env.LIVE_BACKEND || 'gemini';
+
+  if (backend === 'scripted') {
+    const scriptUrl = query?.get('script') || process.env.LIVE_SCRIPT_URL || DEFAULT_SCRIPT_URL;
+    return new ScriptedLiveTransport(scriptUrl);
+  }
+  return new GeminiLiveTransport();
+}
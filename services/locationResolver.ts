@@ -0,0 +1,89 @@
+import { GeoLocation, LocationInfo } from "../types";
+import { DEFAULT_CENTER, distanceMeters } from "./geoUtils";
+import { GeocoderProvider } from "./geocoding";
+import { ReportArgs } from "./reportValidation";
+
+// Below this the operator is asked to verify the pin on the map
+export const LOCATION_CONFIDENCE_THRESHOLD = 0.6;
+
+// Geocoder and model answers further apart than this are treated as conflicting
+const DISAGREEMENT_METERS = 5000;
+
+const CONFIDENCE = {
+  deviceGps: 0.9,
+  modelWithName: 0.4,
+  modelOnly: 0.5,
+  unresolvedName: 0.2 // A place was named but nothing could find it
+};
+
+const CURRENT_LOCATION_PATTERN = /^(my |the )?(current location|here|right here|my location|gps)$/i;
+
+export interface ResolvedLocation {
+  location: GeoLocation;
+  info: LocationInfo;
+}
+
+const resolved = (location: GeoLocation, info: Omit<LocationInfo, 'flagged'>): ResolvedLocation => ({
+  location,
+  info: { ...info, flagged: info.confidence < LOCATION_CONFIDENCE_THRESHOLD }
+});
+
+const fallback = (deviceLocation: GeoLocation | null): ResolvedLocation => deviceLocation
+  ? resolved(deviceLocation, { source: 'device_gps', confidence: CONFIDENCE.deviceGps })
+  : resolved(DEFAULT_CENTER, { source: 'default', confidence: 0 });
+
+/**
+ * Picks the best location for a reported emergency, in order: a geocoded place
+ * name, coordinates estimated by the model, the caller's device GPS, and
+ * finally the default map center. A named place that nothing could find keeps
+ * its name and is flagged rather than quietly replaced by the device position.
+ * The confidence travels with the report so uncertain pins can be flagged for
+ * the operator.
+ */
+export async function resolveReportLocation(
+  args: ReportArgs,
+  deviceLocation: GeoLocation | null,
+  geocoder: GeocoderProvider
+): Promise<ResolvedLocation> {
+  const name = args.locationName?.trim();
+  const modelLocation = args.latitude !== undefined && args.longitude !== undefined
+    ? { lat: args.latitude, lng: args.longitude }
+    : null;
+
+  if (name && CURRENT_LOCATION_PATTERN.test(name)) return fallback(deviceLocation);
+
+  if (name) {
+    let match = null;
+    try {
+      [match] = await geocoder.geocode(name, modelLocation ?? deviceLocation);
+    } catch (e) {
+      console.error('Geocoding failed', e);
+    }
+
+    if (match) {
+      let confidence = match.confidence;
+      // Two independent answers far apart means at least one of them is wrong
+      if (modelLocation && distanceMeters(modelLocation, match.location) > DISAGREEMENT_METERS) {
+        confidence = Math.min(confidence, 0.5);
+      }
+      return resolved(match.location, { source: 'geocoder', confidence, label: match.label, provider: match.provider });
+    }
+
+    if (modelLocation) {
+      return resolved(modelLocation, { source: 'model_estimate', confidence: CONFIDENCE.modelWithName, label: name });
+    }
+
+    // Pinned where the caller is, but the spoken place is kept and the pin flagged
+    return resolved(deviceLocation ?? DEFAULT_CENTER, {
+      source: deviceLocation ? 'device_gps' : 'default',
+      confidence: CONFIDENCE.unresolvedName,
+      label: name
+    });
+  }
+
+  if (modelLocation) {
+    return resolved(modelLocation, { source: 'model_estimate', confidence: CONFIDENCE.modelOnly });
+  }
+
+  return fallback(deviceLocation);
+}
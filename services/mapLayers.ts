@@ -0,0 +1,102 @@
+import { EmergencyReport, GeoLocation, Incident, ReportStatus } from "../types";
+import { EmergencyType, normalizeEmergencyType } from "./reportValidation";
+import { centroid } from "./geoUtils";
+
+export interface MapFilters {
+  types: EmergencyType[]; // Empty means all types
+  statuses: ReportStatus[]; // Empty means all statuses
+  timeRangeHours: number | null; // null means no limit
+}
+
+export interface MapLayerSettings {
+  filters: MapFilters;
+  clusterMarkers: boolean;
+  showHeatmap: boolean;
+  showHazardZones: boolean;
+  autoFly: boolean;
+}
+
+export const DEFAULT_MAP_LAYERS: MapLayerSettings = {
+  filters: { types: [], statuses: [], timeRangeHours: null },
+  clusterMarkers: true,
+  showHeatmap: false,
+  showHazardZones: true,
+  autoFly: true
+};
+
+export const TIME_RANGE_OPTIONS: { label: string; hours: number | null }[] = [
+  { label: 'All time', hours: null },
+  { label: 'Last hour', hours: 1 },
+  { label: 'Last 6 hours', hours: 6 },
+  { label: 'Last 24 hours', hours: 24 },
+  { label: 'Last 7 days', hours: 168 }
+];
+
+// Glyphs drawn inside the marker for each canonical type
+export const TYPE_GLYPHS: Record<EmergencyType, string> = {
+  Flood: '🌊',
+  Fire: '🔥',
+  Earthquake: '🏚️',
+  Storm: '🌪️',
+  Landslide: '⛰️',
+  Trapped: '🆘',
+  Injury: '🩹',
+  Medical: '🚑',
+  Hazmat: '☣️',
+  Other: '❗'
+};
+
+// Markers are clustered below this zoom level when clustering is on
+export const CLUSTER_MAX_ZOOM = 14;
+
+function withinTimeRange(timestamp: number, hours: number | null, now: number): boolean {
+  return hours === null || now - timestamp <= hours * 3600000;
+}
+
+export function filterReports(reports: EmergencyReport[], filters: MapFilters, now: number = Date.now()): EmergencyReport[] {
+  return reports.filter(r =>
+    (filters.types.length === 0 || filters.types.includes(normalizeEmergencyType(r.emergencyType || '')))
+    && (filters.statuses.length === 0 || filters.statuses.includes(r.status))
+    && withinTimeRange(r.timestamp, filters.timeRangeHours, now)
+  );
+}
+
+// Incidents carry no single status, so only type and time filters apply
+export function filterIncidents(incidents: Incident[], filters: MapFilters, now: number = Date.now()): Incident[] {
+  return incidents.filter(i =>
+    (filters.types.length === 0 || filters.types.includes(normalizeEmergencyType(i.emergencyType)))
+    && withinTimeRange(i.lastReportedAt, filters.timeRangeHours, now)
+  );
+}
+
+export interface PointCluster<T> {
+  key: string;
+  location: GeoLocation;
+  items: T[];
+}
+
+/**
+ * Bins items into square screen-space cells. `project` maps a location to
+ * pixel coordinates at the current zoom, so cells shrink as the map zooms in.
+ */
+export function clusterByGrid<T>(
+  items: T[],
+  locate: (item: T) => GeoLocation,
+  project: (location: GeoLocation) => { x: number; y: number },
+  cellSizePx: number
+): PointCluster<T>[] {
+  const cells = new Map<string, T[]>();
+  for (const item of items) {
+    const { x, y } = project(locate(item));
+    const key = `${Math.floor(x / cellSizePx)}:${Math.floor(y / cellSizePx)}`;
+    const cell = cells.get(key);
+    if (cell) cell.push(item);
+    else cells.set(key, [item]);
+  }
+
+  return [...cells.entries()].map(([key, cellItems]) => ({
+    key,
+    location: centroid(cellItems.map(locate)),
+    items: cellItems
+  }));
+}
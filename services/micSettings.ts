@@ -0,0 +1,75 @@
+const SETTINGS_KEY = 'micSettings';
+
+/**
+ * How the caller's audio reaches the dispatcher:
+ * - voice: only while the voice detector hears speech, with turns marked by the client
+ * - push: only while the talk button is held
+ * - open: every frame, and the server decides when the caller is speaking
+ */
+export const TALK_MODES = ['voice', 'push', 'open'] as const;
+
+export type TalkMode = typeof TALK_MODES[number];
+
+export interface MicSettings {
+  deviceId: string | null; // Null follows the system default
+  echoCancellation: boolean;
+  noiseSuppression: boolean;
+  autoGainControl: boolean;
+  talkMode: TalkMode;
+}
+
+export const DEFAULT_MIC_SETTINGS: MicSettings = {
+  deviceId: null,
+  echoCancellation: true,
+  noiseSuppression: true,
+  autoGainControl: true,
+  talkMode: 'voice'
+};
+
+export function loadMicSettings(): MicSettings {
+  try {
+    const stored = JSON.parse(localStorage.getItem(SETTINGS_KEY) ?? 'null');
+    const settings = { ...DEFAULT_MIC_SETTINGS, ...stored };
+    return TALK_MODES.includes(settings.talkMode) ? settings : { ...settings, talkMode: DEFAULT_MIC_SETTINGS.talkMode };
+  } catch {
+    return DEFAULT_MIC_SETTINGS;
+  }
+}
+
+export function saveMicSettings(settings: MicSettings) {
+  localStorage.setItem(SETTINGS_KEY, JSON.stringify(settings));
+}
+
+// Processing is requested explicitly; browsers disagree on the defaults
+export function micConstraints(settings: MicSettings): MediaTrackConstraints {
+  return {
+    ...(settings.deviceId ? { deviceId: { exact: settings.deviceId } } : {}),
+    channelCount: 1,
+    echoCancellation: settings.echoCancellation,
+    noiseSuppression: settings.noiseSuppression,
+    autoGainControl: settings.autoGainControl
+  };
+}
+
+/**
+ * Opens the chosen microphone. A device that has been unplugged since it was
+ * picked falls back to the default one rather than failing the call.
+ */
+export async function openMicrophone(settings: MicSettings): Promise<MediaStream> {
+  try {
+    return await navigator.mediaDevices.getUserMedia({ audio: micConstraints(settings) });
+  } catch (e) {
+    const name = (e as { name?: string })?.name;
+    const missing = name === 'OverconstrainedError' || name === 'NotFoundError';
+    if (!settings.deviceId || !missing) throw e;
+    console.warn('Selected microphone unavailable, using the default one', e);
+    return navigator.mediaDevices.getUserMedia({ audio: micConstraints({ ...settings, deviceId: null }) });
+  }
+}
+
+// Labels stay empty until the page has been allowed to use a microphone once
+export async function listMicrophones(): Promise<MediaDeviceInfo[]> {
+  if (!navigator.mediaDevices?.enumerateDevices) return [];
+  const devices = await navigator.mediaDevices.enumerateDevices();
+  return devices.filter(device => device.kind === 'audioinput' && device.deviceId !== 'default' && device.deviceId !== '');
+}
@@ -0,0 +1,17 @@
+const SERVICE_WORKER_URL = '/sw.js';
+
+// Registers the worker that precaches the app shell and serves cached map tiles
+export async function registerServiceWorker(): Promise<ServiceWorkerRegistration | null> {
+  if (!('serviceWorker' in navigator)) return null;
+  try {
+    return await navigator.serviceWorker.register(SERVICE_WORKER_URL);
+  } catch (e) {
+    console.error('Service worker registration failed', e);
+    return null;
+  }
+}
+
+// True once a worker controls the page, i.e. a reload would work offline
+export function isOfflineReady(): boolean {
+  return 'serviceWorker' in navigator && !!navigator.serviceWorker.controller;
+}
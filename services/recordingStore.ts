@@ -0,0 +1,81 @@
+import { CallRecording } from "./callRecorder";
+import { openDatabase, promisifyRequest, promisifyTransaction, STORES } from "./database";
+
+const SETTINGS_KEY = 'recordingSettings';
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Days a recording is kept; 0 keeps it until someone deletes it
+export const RETENTION_OPTIONS = [7, 30, 90, 0] as const;
+
+export interface RecordingSettings {
+  consent: 'unset' | 'granted' | 'declined'; // Declined turns recording off; otherwise each call asks first
+  retentionDays: number;
+}
+
+const DEFAULT_SETTINGS: RecordingSettings = { consent: 'unset', retentionDays: 30 };
+
+export function loadRecordingSettings(): RecordingSettings {
+  try {
+    const stored = JSON.parse(localStorage.getItem(SETTINGS_KEY) ?? 'null');
+    return { ...DEFAULT_SETTINGS, ...stored };
+  } catch {
+    return DEFAULT_SETTINGS;
+  }
+}
+
+export function saveRecordingSettings(settings: RecordingSettings) {
+  localStorage.setItem(SETTINGS_KEY, JSON.stringify(settings));
+}
+
+/**
+ * Call recordings kept in IndexedDB next to the reports they belong to.
+ * Retention is measured from when the call started, so shortening it
+ * removes older recordings on the next purge.
+ */
+export class RecordingStore {
+  async get(id: string): Promise<CallRecording | undefined> {
+    const db = await openDatabase();
+    const tx = db.transaction(STORES.recordings, 'readonly');
+    return promisifyRequest<CallRecording | undefined>(tx.objectStore(STORES.recordings).get(id));
+  }
+
+  async getAll(): Promise<CallRecording[]> {
+    const db = await openDatabase();
+    const tx = db.transaction(STORES.recordings, 'readonly');
+    const recordings = await promisifyRequest<CallRecording[]>(tx.objectStore(STORES.recordings).getAll());
+    return recordings.sort((a, b) => b.startedAt - a.startedAt);
+  }
+
+  async save(recording: CallRecording): Promise<void> {
+    const db = await openDatabase();
+    const tx = db.transaction(STORES.recordings, 'readwrite');
+    tx.objectStore(STORES.recordings).put(recording);
+    await promisifyTransaction(tx);
+  }
+
+  // Reports keep their recordingId; the player shows the recording as expired
+  async purgeExpired(retentionDays: number, now = Date.now()): Promise<number> {
+    if (retentionDays <= 0) return 0;
+    const cutoff = now - retentionDays * DAY_MS;
+    const expired = (await this.getAll()).filter(r => r.startedAt < cutoff).map(r => r.id);
+    await this.delete(...expired);
+    return expired.length;
+  }
+
+  async delete(...ids: string[]): Promise<void> {
+    if (ids.length === 0) return;
+    const db = await openDatabase();
+    const tx = db.transaction(STORES.recordings, 'readwrite');
+    ids.forEach(id => tx.objectStore(STORES.recordings).delete(id));
+    await promisifyTransaction(tx);
+  }
+
+  async clear(): Promise<void> {
+    const db = await openDatabase();
+    const tx = db.transaction(STORES.recordings, 'readwrite');
+    tx.objectStore(STORES.recordings).clear();
+    await promisifyTransaction(tx);
+  }
+}
+
+export const recordingStore = new RecordingStore();
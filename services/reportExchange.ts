@@ -0,0 +1,472 @@
+import { EditableField, EmergencyReport, FieldEdit, LocationInfo, LocationSource, Priority, ReportStatus, StatusChange, TranscriptEntry } from "../types";
+import { coerceNumber, normalizeEmergencyType, validateReportArgs } from "./reportValidation";
+import { EDIT_FIELD_LABELS, STATUS_LABELS, creationEntry } from "./reportWorkflow";
+
+export type ExchangeFormat = 'geojson' | 'csv' | 'cap';
+
+export const EXCHANGE_FORMATS: Record<ExchangeFormat, { label: string; extension: string; mimeType: string }> = {
+  geojson: { label: 'GeoJSON', extension: 'geojson', mimeType: 'application/geo+json' },
+  csv: { label: 'CSV', extension: 'csv', mimeType: 'text/csv' },
+  cap: { label: 'CAP 1.2 XML', extension: 'xml', mimeType: 'application/xml' }
+};
+
+export interface RecordError {
+  index: number; // Position of the record in the source file
+  id?: string;
+  message: string;
+}
+
+export interface ImportResult {
+  reports: EmergencyReport[];
+  errors: RecordError[];
+}
+
+const CAP_NAMESPACE = 'urn:oasis:names:tc:emergency:cap:1.2';
+const ATOM_NAMESPACE = 'http://www.w3.org/2005/Atom';
+const CAP_SENDER = 'disaster-connect@localhost';
+const IMPORT_ACTOR = 'Import';
+
+const CSV_COLUMNS = [
+  'id', 'timestamp', 'latitude', 'longitude', 'emergencyType', 'description',
+  'peopleCount', 'criticalNeeds', 'status', 'reporterName'
+] as const;
+
+const VALID_STATUSES = Object.keys(STATUS_LABELS) as ReportStatus[];
+const EDITABLE_FIELDS = Object.keys(EDIT_FIELD_LABELS) as EditableField[];
+const LOCATION_SOURCES: LocationSource[] = ['geocoder', 'model_estimate', 'device_gps', 'default', 'manual'];
+
+// Spreadsheets run cells starting with these as formulas; a leading quote makes them text
+const FORMULA_PREFIX = /^[=+\-@\t\r]/;
+
+// Raw fields every format maps onto before validation
+interface RawRecord {
+  id?: unknown;
+  timestamp?: unknown;
+  latitude?: unknown;
+  longitude?: unknown;
+  emergencyType?: unknown;
+  description?: unknown;
+  peopleCount?: unknown;
+  criticalNeeds?: unknown;
+  status?: unknown;
+  reporterName?: unknown;
+  // Only GeoJSON carries these; the flat formats have no room for them
+  history?: unknown;
+  transcript?: unknown;
+  incidentId?: unknown;
+  language?: unknown;
+  originalDescription?: unknown;
+  locationInfo?: unknown;
+  edits?: unknown;
+}
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const isStatus = (value: unknown): value is ReportStatus => VALID_STATUSES.includes(value as ReportStatus);
+
+function isStatusHistory(value: unknown): value is StatusChange[] {
+  return Array.isArray(value) && value.length > 0 && value.every(c => isObject(c)
+    && typeof c.at === 'number' && typeof c.by === 'string' && isStatus(c.to) && (c.from === null || isStatus(c.from)));
+}
+
+function isTranscript(value: unknown): value is TranscriptEntry[] {
+  return Array.isArray(value) && value.every(e => isObject(e)
+    && (e.speaker === 'caller' || e.speaker === 'dispatcher') && typeof e.text === 'string' && typeof e.timestamp === 'number');
+}
+
+const isEditValue = (value: unknown) => value === undefined || typeof value === 'string' || typeof value === 'number'
+  || (isObject(value) && typeof value.lat === 'number' && typeof value.lng === 'number');
+
+function isEditLog(value: unknown): value is FieldEdit[] {
+  return Array.isArray(value) && value.every(e => isObject(e)
+    && EDITABLE_FIELDS.includes(e.field as EditableField) && typeof e.by === 'string' && typeof e.at === 'number'
+    && isEditValue(e.from) && isEditValue(e.to));
+}
+
+function isLocationInfo(value: unknown): value is LocationInfo {
+  return isObject(value)
+    && LOCATION_SOURCES.includes(value.source as LocationSource)
+    && typeof value.confidence === 'number' && value.confidence >= 0 && value.confidence <= 1
+    && typeof value.flagged === 'boolean'
+    && ['label', 'provider', 'correctedBy'].every(key => value[key] === undefined || typeof value[key] === 'string')
+    && (value.correctedAt === undefined || typeof value.correctedAt === 'number');
+}
+
+function parseTimestamp(value: unknown): number | undefined {
+  if (value === undefined || value === null || value === '') return undefined;
+  if (typeof value === 'number') return value;
+  const asNumber = Number(value);
+  if (!isNaN(asNumber)) return asNumber;
+  const parsed = Date.parse(String(value));
+  return isNaN(parsed) ? undefined : parsed;
+}
+
+// Shared mapping from a raw record to a report, reusing the tool argument validation
+function toReport(raw: RawRecord, index: number): EmergencyReport | RecordError {
+  const id = raw.id !== undefined && raw.id !== null && raw.id !== '' ? String(raw.id) : undefined;
+  const fail = (message: string): RecordError => ({ index, id, message });
+
+  // Checked here rather than by the tool validation, which reads 0,0 as "unknown"; in a file it is a real place
+  const lat = coerceNumber(raw.latitude);
+  const lng = coerceNumber(raw.longitude);
+  if (lat === undefined || lng === undefined) return fail('Missing coordinates.');
+
+  const validation = validateReportArgs(raw);
+  if (validation.ok === false) return fail(validation.errors.join(' '));
+  const args = validation.value;
+
+  const timestamp = parseTimestamp(raw.timestamp);
+  if (raw.timestamp !== undefined && raw.timestamp !== '' && timestamp === undefined) {
+    return fail(`Unreadable timestamp "${raw.timestamp}".`);
+  }
+
+  const status = raw.status ? String(raw.status).trim().toLowerCase() as ReportStatus : 'pending';
+  if (!VALID_STATUSES.includes(status)) return fail(`Unknown status "${raw.status}".`);
+
+  const at = timestamp ?? Date.now();
+  return {
+    id: id ?? `import-${at}-${index}`,
+    timestamp: at,
+    location: { lat, lng },
+    locationInfo: isLocationInfo(raw.locationInfo) ? raw.locationInfo : undefined,
+    reporterName: raw.reporterName ? String(raw.reporterName) : undefined,
+    emergencyType: args.emergencyType,
+    description: args.description,
+    language: args.language,
+    originalDescription: args.originalDescription,
+    peopleCount: args.peopleCount,
+    criticalNeeds: args.criticalNeeds,
+    status,
+    history: isStatusHistory(raw.history)
+      ? raw.history
+      : [{ ...creationEntry(IMPORT_ACTOR, at), to: status, reason: 'Imported' }],
+    edits: isEditLog(raw.edits) && raw.edits.length > 0 ? raw.edits : undefined,
+    transcript: isTranscript(raw.transcript) ? raw.transcript : undefined,
+    incidentId: typeof raw.incidentId === 'string' && raw.incidentId ? raw.incidentId : undefined
+  };
+}
+
+function collect(records: RawRecord[]): ImportResult {
+  const result: ImportResult = { reports: [], errors: [] };
+  records.forEach((raw, index) => {
+    const mapped = toReport(raw, index);
+    if ('message' in mapped) result.errors.push(mapped);
+    else result.reports.push(mapped);
+  });
+  return result;
+}
+
+// --- GeoJSON ---
+
+export function toGeoJSON(reports: EmergencyReport[]): string {
+  return JSON.stringify({
+    type: 'FeatureCollection',
+    features: reports.map(r => ({
+      type: 'Feature',
+      id: r.id,
+      geometry: { type: 'Point', coordinates: [r.location.lng, r.location.lat] },
+      properties: {
+        id: r.id,
+        timestamp: new Date(r.timestamp).toISOString(),
+        emergencyType: r.emergencyType,
+        description: r.description,
+        language: r.language ?? null,
+        originalDescription: r.originalDescription ?? null,
+        peopleCount: r.peopleCount ?? null,
+        criticalNeeds: r.criticalNeeds ?? null,
+        status: r.status,
+        reporterName: r.reporterName ?? null,
+        priority: r.triage?.priority ?? null,
+        incidentId: r.incidentId ?? null,
+        locationInfo: r.locationInfo ?? null,
+        history: r.history ?? [],
+        edits: r.edits ?? [],
+        transcript: r.transcript ?? []
+      }
+    }))
+  }, null, 2);
+}
+
+export function fromGeoJSON(text: string): ImportResult {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch (e) {
+    return { reports: [], errors: [{ index: -1, message: `Invalid JSON: ${e instanceof Error ? e.message : e}` }] };
+  }
+
+  const root = isObject(data) ? data : {};
+  const isCollection = root.type === 'FeatureCollection';
+  const features: unknown[] = isCollection ? (Array.isArray(root.features) ? root.features : [])
+    : root.type === 'Feature' ? [root] : [];
+  if (features.length === 0 && !isCollection) {
+    return { reports: [], errors: [{ index: -1, message: 'Not a GeoJSON Feature or FeatureCollection.' }] };
+  }
+
+  return collect(features.map((f): RawRecord => {
+    if (!isObject(f)) return {};
+    const props = isObject(f.properties) ? f.properties : {};
+    const geometry = isObject(f.geometry) ? f.geometry : {};
+    const coordinates = geometry.type === 'Point' && Array.isArray(geometry.coordinates) ? geometry.coordinates : [];
+    return {
+      ...props,
+      id: props.id ?? f.id,
+      longitude: coordinates[0],
+      latitude: coordinates[1]
+    };
+  }));
+}
+
+// --- CSV (RFC 4180) ---
+
+// Only text is guarded against formulas; numbers such as a negative longitude stay as they are
+export function csvField(value: unknown): string {
+  if (value === undefined || value === null) return '';
+  const text = typeof value === 'string' && FORMULA_PREFIX.test(value) ? `'${value}` : String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+export function toCSV(reports: EmergencyReport[]): string {
+  const rows = reports.map(r => [
+    r.id,
+    new Date(r.timestamp).toISOString(),
+    r.location.lat,
+    r.location.lng,
+    r.emergencyType,
+    r.description,
+    r.peopleCount,
+    r.criticalNeeds,
+    r.status,
+    r.reporterName
+  ].map(csvField).join(','));
+  return [CSV_COLUMNS.join(','), ...rows].join('\r\n') + '\r\n';
+}
+
+// Undoes csvField's formula guard so exported text comes back unchanged
+const unguardFormula = (value: string) => value.startsWith("'") && FORMULA_PREFIX.test(value.slice(1)) ? value.slice(1) : value;
+
+function parseCSVRows(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let inQuotes = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const c = text[i];
+    if (inQuotes) {
+      if (c === '"' && text[i + 1] === '"') { field += '"'; i++; }
+      else if (c === '"') inQuotes = false;
+      else field += c;
+    } else if (c === '"') {
+      inQuotes = true;
+    } else if (c === ',') {
+      row.push(field); field = '';
+    } else if (c === '\n' || c === '\r') {
+      if (c === '\r' && text[i + 1] === '\n') i++;
+      row.push(field); field = '';
+      if (row.some(f => f !== '')) rows.push(row);
+      row = [];
+    } else {
+      field += c;
+    }
+  }
+  row.push(field);
+  if (row.some(f => f !== '')) rows.push(row);
+  return rows;
+}
+
+export function fromCSV(text: string): ImportResult {
+  const [header, ...rows] = parseCSVRows(text.replace(/^\uFEFF/, ''));
+  if (!header) return { reports: [], errors: [{ index: -1, message: 'Empty CSV file.' }] };
+
+  const columns = header.map(h => h.trim());
+  const missing = ['latitude', 'longitude', 'emergencyType', 'description'].filter(c => !columns.includes(c));
+  if (missing.length > 0) {
+    return { reports: [], errors: [{ index: -1, message: `Missing CSV columns: ${missing.join(', ')}` }] };
+  }
+
+  return collect(rows.map(values => {
+    const record: Record<string, string> = {};
+    columns.forEach((column, i) => { record[column] = unguardFormula(values[i]?.trim() ?? ''); });
+    return record;
+  }));
+}
+
+// --- CAP 1.2 ---
+
+const CAP_CATEGORIES: Record<string, string> = {
+  Flood: 'Met',
+  Storm: 'Met',
+  Fire: 'Fire',
+  Earthquake: 'Geo',
+  Landslide: 'Geo',
+  Trapped: 'Rescue',
+  Injury: 'Health',
+  Medical: 'Health',
+  Hazmat: 'CBRNE',
+  Other: 'Other'
+};
+
+const CAP_SEVERITY: Record<Priority, string> = {
+  critical: 'Extreme',
+  high: 'Severe',
+  medium: 'Moderate',
+  low: 'Minor'
+};
+
+function escapeXml(value: unknown): string {
+  return String(value ?? '')
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+}
+
+// CAP requires an explicit offset and no fractional seconds, e.g. 2024-05-01T10:00:00+00:00
+function capDateTime(timestamp: number): string {
+  return new Date(timestamp).toISOString().replace(/\.\d{3}Z$/, '+00:00');
+}
+
+function capParameter(name: string, value: unknown): string {
+  if (value === undefined || value === null || value === '') return '';
+  return `
+      <parameter><valueName>${name}</valueName><value>${escapeXml(value)}</value></parameter>`;
+}
+
+// A Cancel is its own message: new identifier, sent when cancelled, pointing back at the alert it withdraws
+const CANCEL_SUFFIX = '-cancel';
+
+const capIdentifier = (r: EmergencyReport) => r.status === 'cancelled' ? `${r.id}${CANCEL_SUFFIX}` : r.id;
+
+function toCapAlert(r: EmergencyReport): string {
+  const cancelled = r.status === 'cancelled';
+  const cancelledAt = r.history?.find(change => change.to === 'cancelled')?.at ?? r.timestamp;
+  const references = cancelled ? `
+  <references>${escapeXml(`${CAP_SENDER},${r.id},${capDateTime(r.timestamp)}`)}</references>` : '';
+  return `<alert xmlns="${CAP_NAMESPACE}">
+  <identifier>${escapeXml(capIdentifier(r))}</identifier>
+  <sender>${CAP_SENDER}</sender>
+  <sent>${capDateTime(cancelled ? cancelledAt : r.timestamp)}</sent>
+  <status>Actual</status>
+  <msgType>${cancelled ? 'Cancel' : 'Alert'}</msgType>
+  <scope>Public</scope>${references}
+  <info>
+    <category>${CAP_CATEGORIES[normalizeEmergencyType(r.emergencyType || '')]}</category>
+    <event>${escapeXml(r.emergencyType)}</event>
+    <urgency>Immediate</urgency>
+    <severity>${r.triage ? CAP_SEVERITY[r.triage.priority] : 'Unknown'}</severity>
+    <certainty>Observed</certainty>
+    <description>${escapeXml(r.description)}</description>${capParameter('peopleCount', r.peopleCount)}${capParameter('criticalNeeds', r.criticalNeeds)}${capParameter('reportStatus', r.status)}${capParameter('reporterName', r.reporterName)}
+    <area>
+      <areaDesc>${escapeXml(`${r.location.lat.toFixed(6)}, ${r.location.lng.toFixed(6)}`)}</areaDesc>
+      <circle>${r.location.lat},${r.location.lng} 0</circle>
+    </area>
+  </info>
+</alert>`;
+}
+
+/**
+ * A single report becomes a standalone CAP alert. Several reports are
+ * wrapped in an Atom feed with one alert per entry, the usual way CAP
+ * alerts are published together.
+ */
+export function toCAP(reports: EmergencyReport[]): string {
+  const header = '<?xml version="1.0" encoding="UTF-8"?>\n';
+  if (reports.length === 1) return header + toCapAlert(reports[0]);
+
+  const entries = reports.map(r => `  <entry>
+    <id>${escapeXml(capIdentifier(r))}</id>
+    <title>${escapeXml(r.emergencyType)}</title>
+    <updated>${new Date(r.timestamp).toISOString()}</updated>
+    <content type="application/cap+xml">
+${toCapAlert(r).replace(/^/gm, '      ')}
+    </content>
+  </entry>`).join('\n');
+
+  return `${header}<feed xmlns="${ATOM_NAMESPACE}">
+  <id>urn:disaster-connect:export:${Date.now()}</id>
+  <title>Disaster Connect reports</title>
+  <updated>${new Date().toISOString()}</updated>
+${entries}
+</feed>`;
+}
+
+const childText = (parent: Element, name: string): string | undefined =>
+  parent.getElementsByTagNameNS(CAP_NAMESPACE, name)[0]?.textContent?.trim() || undefined;
+
+export function fromCAP(text: string): ImportResult {
+  const doc = new DOMParser().parseFromString(text, 'application/xml');
+  if (doc.getElementsByTagName('parsererror').length > 0) {
+    return { reports: [], errors: [{ index: -1, message: 'Invalid XML.' }] };
+  }
+
+  const alerts = Array.from(doc.getElementsByTagNameNS(CAP_NAMESPACE, 'alert'));
+  if (alerts.length === 0) {
+    return { reports: [], errors: [{ index: -1, message: 'No CAP 1.2 alerts found.' }] };
+  }
+
+  return collect(alerts.map(alert => {
+    const info = alert.getElementsByTagNameNS(CAP_NAMESPACE, 'info')[0];
+    const params: Record<string, string> = {};
+    if (info) {
+      for (const p of Array.from(info.getElementsByTagNameNS(CAP_NAMESPACE, 'parameter'))) {
+        const name = childText(p, 'valueName');
+        if (name) params[name] = childText(p, 'value') ?? '';
+      }
+    }
+
+    // circle is "lat,lng radius"; fall back to the first polygon vertex
+    const shape = info && (childText(info, 'circle') ?? childText(info, 'polygon'));
+    const [lat, lng] = shape ? shape.split(/[\s]+/)[0].split(',') : [];
+
+    // A Cancel stands for the alert it references: that alert's identifier and time are the report's
+    const msgType = childText(alert, 'msgType');
+    const [, referencedId, referencedSent] = msgType === 'Cancel'
+      ? (childText(alert, 'references') ?? '').split(/\s+/)[0].split(',')
+      : [];
+    return {
+      id: referencedId || childText(alert, 'identifier'),
+      timestamp: referencedSent || childText(alert, 'sent'),
+      latitude: lat,
+      longitude: lng,
+      emergencyType: info ? childText(info, 'event') : undefined,
+      description: info ? (childText(info, 'description') ?? childText(info, 'headline')) : undefined,
+      peopleCount: params.peopleCount,
+      criticalNeeds: params.criticalNeeds,
+      status: params.reportStatus ?? (msgType === 'Cancel' ? 'cancelled' : undefined),
+      reporterName: params.reporterName
+    };
+  }));
+}
+
+// --- Dispatch by format ---
+
+export function serializeReports(reports: EmergencyReport[], format: ExchangeFormat): string {
+  switch (format) {
+    case 'geojson': return toGeoJSON(reports);
+    case 'csv': return toCSV(reports);
+    case 'cap': return toCAP(reports);
+  }
+}
+
+export function parseReports(text: string, format: ExchangeFormat): ImportResult {
+  switch (format) {
+    case 'geojson': return fromGeoJSON(text);
+    case 'csv': return fromCSV(text);
+    case 'cap': return fromCAP(text);
+  }
+}
+
+export function detectFormat(fileName: string, text: string): ExchangeFormat | null {
+  const lower = fileName.toLowerCase();
+  if (lower.endsWith('.geojson') || lower.endsWith('.json')) return 'geojson';
+  if (lower.endsWith('.csv')) return 'csv';
+  if (lower.endsWith('.xml') || lower.endsWith('.cap')) return 'cap';
+
+  const start = text.trimStart();
+  if (start.startsWith('{')) return 'geojson';
+  if (start.startsWith('<')) return 'cap';
+  return start.length > 0 ? 'csv' : null;
+}
@@ -0,0 +1,183 @@
+import { EmergencyReport } from "../types";
+import { openDatabase, promisifyRequest, promisifyTransaction, STORES } from "./database";
+
+const REPORTS_STORE = STORES.reports;
+const OUTBOX_STORE = STORES.outbox;
+
+export interface OutboxEntry {
+  reportId: string;
+  queuedAt: number;
+  attempts: number;
+  lastError?: string;
+}
+
+// Delivers a single report to whatever upstream system is configured.
+// Should reject if the report could not be delivered so it stays queued.
+export type SyncHandler = (report: EmergencyReport) => Promise<void>;
+
+/**
+ * IndexedDB-backed store for emergency reports.
+ * Every write also places the report in an outbox until a sync handler
+ * confirms delivery, so nothing is lost across reloads or while offline.
+ */
+export class ReportRepository {
+  private syncHandler: SyncHandler | null = null;
+  private flushing = false;
+  private flushAgain = false; // Something was queued while a flush was running
+
+  public onOutboxChange: ((pending: number) => void) | null = null;
+
+  private open(): Promise<IDBDatabase> {
+    return openDatabase();
+  }
+
+  async getAll(): Promise<EmergencyReport[]> {
+    const db = await this.open();
+    const tx = db.transaction(REPORTS_STORE, 'readonly');
+    const reports = await promisifyRequest<EmergencyReport[]>(tx.objectStore(REPORTS_STORE).getAll());
+    // Newest first, matching the order the UI prepends new reports in
+    return reports.sort((a, b) => b.timestamp - a.timestamp);
+  }
+
+  async get(id: string): Promise<EmergencyReport | undefined> {
+    const db = await this.open();
+    const tx = db.transaction(REPORTS_STORE, 'readonly');
+    return promisifyRequest<EmergencyReport | undefined>(tx.objectStore(REPORTS_STORE).get(id));
+  }
+
+  // Write-through: persist the report and queue it for sync in one transaction
+  async save(report: EmergencyReport): Promise<void> {
+    const db = await this.open();
+    const tx = db.transaction([REPORTS_STORE, OUTBOX_STORE], 'readwrite');
+    tx.objectStore(REPORTS_STORE).put(report);
+    const entry: OutboxEntry = { reportId: report.id, queuedAt: Date.now(), attempts: 0 };
+    tx.objectStore(OUTBOX_STORE).put(entry);
+    await promisifyTransaction(tx);
+
+    this.notifyOutbox();
+    void this.flushOutbox();
+  }
+
+  // For copies that came from the sync server: stored, but not queued to be sent back
+  async saveSynced(report: EmergencyReport): Promise<void> {
+    const db = await this.open();
+    const tx = db.transaction(REPORTS_STORE, 'readwrite');
+    tx.objectStore(REPORTS_STORE).put(report);
+    await promisifyTransaction(tx);
+  }
+
+  // Queues every stored report again, e.g. when the sync server restarted without them
+  async requeueAll(): Promise<void> {
+    const reports = await this.getAll();
+    const db = await this.open();
+    const tx = db.transaction(OUTBOX_STORE, 'readwrite');
+    const queuedAt = Date.now();
+    // Oldest first so the server numbers them in creation order
+    [...reports].reverse().forEach((report, i) => {
+      const entry: OutboxEntry = { reportId: report.id, queuedAt: queuedAt + i, attempts: 0 };
+      tx.objectStore(OUTBOX_STORE).put(entry);
+    });
+    await promisifyTransaction(tx);
+
+    this.notifyOutbox();
+    void this.flushOutbox();
+  }
+
+  async getOutbox(): Promise<OutboxEntry[]> {
+    const db = await this.open();
+    const tx = db.transaction(OUTBOX_STORE, 'readonly');
+    const entries = await promisifyRequest<OutboxEntry[]>(tx.objectStore(OUTBOX_STORE).getAll());
+    return entries.sort((a, b) => a.queuedAt - b.queuedAt);
+  }
+
+  async pendingCount(): Promise<number> {
+    const db = await this.open();
+    const tx = db.transaction(OUTBOX_STORE, 'readonly');
+    return promisifyRequest<number>(tx.objectStore(OUTBOX_STORE).count());
+  }
+
+  setSyncHandler(handler: SyncHandler | null) {
+    this.syncHandler = handler;
+    if (handler) void this.flushOutbox();
+  }
+
+  // Attempt delivery of every queued report, oldest first.
+  // Stops at the first failure so ordering is preserved for the next attempt.
+  // A call during a flush makes the running one go round again, since its
+  // snapshot of the outbox may miss what was just queued.
+  async flushOutbox(): Promise<void> {
+    if (!this.syncHandler) return;
+    if (this.flushing) {
+      this.flushAgain = true;
+      return;
+    }
+    if (typeof navigator !== 'undefined' && !navigator.onLine) return;
+
+    this.flushing = true;
+    try {
+      let failed = false;
+      do {
+        this.flushAgain = false;
+        for (const entry of await this.getOutbox()) {
+          const handler = this.syncHandler;
+          if (!handler) return; // Sync was switched off mid-flush
+          const report = await this.get(entry.reportId);
+          if (!report) {
+            await this.removeFromOutbox(entry);
+            continue;
+          }
+          try {
+            await handler(report);
+            await this.removeFromOutbox(entry);
+          } catch (e) {
+            await this.recordFailure(entry, e);
+            failed = true;
+            break;
+          }
+        }
+      } while (this.flushAgain && !failed);
+    } catch (e) {
+      // Storage itself failed; entries stay queued for the next flush
+      console.error('Outbox flush failed', e);
+    } finally {
+      this.flushing = false;
+      this.flushAgain = false;
+      this.notifyOutbox();
+    }
+  }
+
+  // Leaves the entry if the report was saved again while it was being delivered
+  private async removeFromOutbox(entry: OutboxEntry) {
+    const db = await this.open();
+    const tx = db.transaction(OUTBOX_STORE, 'readwrite');
+    const store = tx.objectStore(OUTBOX_STORE);
+    const current = await promisifyRequest<OutboxEntry | undefined>(store.get(entry.reportId));
+    if (current && current.queuedAt === entry.queuedAt) store.delete(entry.reportId);
+    await promisifyTransaction(tx);
+  }
+
+  // Written onto whatever is queued now, so a save made during the attempt keeps its place
+  private async recordFailure(entry: OutboxEntry, error: unknown) {
+    const db = await this.open();
+    const tx = db.transaction(OUTBOX_STORE, 'readwrite');
+    const store = tx.objectStore(OUTBOX_STORE);
+    const current = await promisifyRequest<OutboxEntry | undefined>(store.get(entry.reportId));
+    if (current) {
+      store.put({
+        ...current,
+        attempts: current.attempts + 1,
+        lastError: error instanceof Error ? error.message : String(error)
+      });
+    }
+    await promisifyTransaction(tx);
+  }
+
+  private notifyOutbox() {
+    if (!this.onOutboxChange) return;
+    this.pendingCount()
+      .then(count => this.onOutboxChange?.(count))
+      .catch(e => console.error('Outbox count failed', e));
+  }
+}
+
+export const reportRepository = new ReportRepository();
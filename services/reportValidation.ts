@@ -0,0 +1,309 @@
+import { GeoLocation } from "../types";
+import { CANONICAL_LANGUAGE, normalizeLanguageCode } from "./i18n";
+
+// Canonical taxonomy every reported emergency type is mapped onto
+export const EMERGENCY_TYPES = [
+  'Flood',
+  'Fire',
+  'Earthquake',
+  'Storm',
+  'Landslide',
+  'Trapped',
+  'Injury',
+  'Medical',
+  'Hazmat',
+  'Other'
+] as const;
+
+export type EmergencyType = typeof EMERGENCY_TYPES[number];
+
+// Whole words (or their plurals) checked against the lowercased free text, first match wins
+const TYPE_SYNONYMS: [EmergencyType, string[]][] = [
+  ['Flood', ['flood', 'flooded', 'flooding', 'flash flood', 'rising water', 'water rising', 'inundated', 'inundation', 'storm surge']],
+  ['Fire', ['fire', 'wildfire', 'burning', 'blaze', 'smoke', 'flames']],
+  ['Earthquake', ['earthquake', 'quake', 'tremor', 'aftershock', 'seismic']],
+  ['Landslide', ['landslide', 'mudslide', 'mudflow', 'rockslide', 'sinkhole']],
+  ['Hazmat', ['hazmat', 'chemical', 'gas leak', 'toxic', 'spill', 'spilled', 'radiation']],
+  ['Trapped', ['trapped', 'stuck', 'stranded', 'collapse', 'collapsed', 'rubble', 'pinned']],
+  ['Storm', ['storm', 'hurricane', 'typhoon', 'tornado', 'cyclone', 'wind', 'hail', 'lightning', 'blizzard']],
+  ['Medical', ['medical', 'heart', 'stroke', 'breathing', 'unconscious', 'seizure', 'overdose', 'pregnant', 'pregnancy']],
+  ['Injury', ['injury', 'injuries', 'injured', 'bleeding', 'wound', 'wounded', 'fracture', 'broken', 'burn', 'hurt']]
+];
+
+// Word boundaries so "window" is not wind and "hearth" is not heart
+const TYPE_PATTERNS: [EmergencyType, RegExp][] = TYPE_SYNONYMS.map(([type, keywords]) =>
+  [type, new RegExp(`\\b(?:${keywords.join('|')})(?:e?s)?\\b`)]);
+
+const MAX_PEOPLE = 10000;
+const MAX_TEXT_LENGTH = 2000;
+const MAX_DETAILS = 20;
+
+const NUMBER_WORDS: Record<string, number> = {
+  zero: 0, one: 1, two: 2, three: 3, four: 4, five: 5, six: 6, seven: 7, eight: 8, nine: 9,
+  ten: 10, eleven: 11, twelve: 12, thirteen: 13, fourteen: 14, fifteen: 15, sixteen: 16,
+  seventeen: 17, eighteen: 18, nineteen: 19, twenty: 20, thirty: 30, forty: 40, fifty: 50, hundred: 100
+};
+
+// Validated, normalized arguments of a reportEmergency call
+export interface ReportArgs {
+  emergencyType: EmergencyType;
+  rawEmergencyType: string; // What the model originally supplied
+  description: string;
+  peopleCount?: number;
+  criticalNeeds?: string;
+  locationName?: string;
+  latitude?: number;
+  longitude?: number;
+  language?: string; // ISO 639 code of the caller's language
+  originalDescription?: string; // Caller-language summary; description is always English
+  details?: Record<string, string>; // Answers to protocol questions, by question key
+}
+
+// What the dispatcher has learned so far, reported through recordDetails before filing
+export interface DetailArgs {
+  emergencyType?: EmergencyType;
+  description?: string;
+  peopleCount?: number;
+  criticalNeeds?: string;
+  locationName?: string;
+  latitude?: number;
+  longitude?: number;
+  details?: Record<string, string>;
+}
+
+// Follow-up changes to an existing ticket. A missing reportId means the ticket filed earlier in this call.
+export interface ReportUpdateArgs {
+  reportId?: string;
+  emergencyType?: EmergencyType;
+  peopleCount?: number; // New total, not a delta
+  criticalNeeds?: string;
+  note?: string; // Appended to the description
+  verification?: string; // Place or name the caller gives for a ticket from an earlier call
+}
+
+// Operator corrections from the report detail panel; every editable field is always present
+export interface ReportEdits {
+  emergencyType: EmergencyType;
+  description: string;
+  peopleCount?: number;
+  criticalNeeds?: string;
+  location: GeoLocation;
+}
+
+// Arguments of cancelReport and getReportStatus
+export interface TicketArgs {
+  reportId?: string;
+  reason?: string;
+  verification?: string;
+}
+
+export type ValidationResult<T> =
+  | { ok: true; value: T; warnings: string[] }
+  | { ok: false; errors: string[] };
+
+export function normalizeEmergencyType(raw: string): EmergencyType {
+  const text = raw.trim().toLowerCase();
+  const exact = EMERGENCY_TYPES.find(t => t.toLowerCase() === text);
+  if (exact) return exact;
+
+  for (const [type, pattern] of TYPE_PATTERNS) {
+    if (pattern.test(text)) return type;
+  }
+  return 'Other';
+}
+
+function cleanText(value: unknown): string | undefined {
+  if (value === undefined || value === null) return undefined;
+  const text = String(value).trim().slice(0, MAX_TEXT_LENGTH);
+  return text.length > 0 ? text : undefined;
+}
+
+// Accepts numbers, numeric strings ("12", "about 12") and small number words ("twelve")
+export function coerceNumber(value: unknown): number | undefined {
+  if (value === undefined || value === null || value === '') return undefined;
+  if (typeof value === 'number') return Number.isFinite(value) ? value : undefined;
+
+  const text = String(value).trim().toLowerCase();
+  const match = text.match(/-?\d+(\.\d+)?/);
+  if (match) return Number(match[0]);
+  if (Object.hasOwn(NUMBER_WORDS, text)) return NUMBER_WORDS[text];
+  return undefined;
+}
+
+// Protocol answers keep their keys as sent; which keys count is up to the protocol
+function cleanDetails(value: unknown): Record<string, string> | undefined {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) return undefined;
+  const entries = Object.entries(value as Record<string, unknown>)
+    .map(([key, answer]) => [key.trim(), cleanText(answer)] as const)
+    .filter((entry): entry is readonly [string, string] => entry[0].length > 0 && entry[1] !== undefined)
+    .slice(0, MAX_DETAILS);
+  return entries.length > 0 ? Object.fromEntries(entries) : undefined;
+}
+
+function parsePeopleCount(value: unknown, errors: string[], warnings: string[]): number | undefined {
+  if (value === undefined || value === null || value === '') return undefined;
+  const count = coerceNumber(value);
+  if (count === undefined) {
+    errors.push(`peopleCount "${value}" is not a number.`);
+  } else if (count < 0) {
+    errors.push('peopleCount cannot be negative.');
+  } else {
+    const rounded = Math.min(Math.round(count), MAX_PEOPLE);
+    if (rounded !== count) warnings.push(`peopleCount adjusted from ${count} to ${rounded}.`);
+    return rounded;
+  }
+  return undefined;
+}
+
+/**
+ * Validates raw reportEmergency tool arguments from the model.
+ * Errors mean the call must be rejected so the model can re-ask the caller;
+ * warnings are fixes that were applied silently.
+ */
+export function validateReportArgs(raw: unknown): ValidationResult<ReportArgs> {
+  const errors: string[] = [];
+  const warnings: string[] = [];
+  const args = (raw && typeof raw === 'object' ? raw : {}) as Record<string, unknown>;
+
+  const rawType = cleanText(args.emergencyType);
+  if (!rawType) errors.push('emergencyType is required.');
+
+  const description = cleanText(args.description);
+  if (!description) errors.push('description is required.');
+
+  const peopleCount = parsePeopleCount(args.peopleCount, errors, warnings);
+
+  let latitude = coerceNumber(args.latitude);
+  let longitude = coerceNumber(args.longitude);
+  // 0,0 is how the model tends to say "unknown"
+  if (latitude === 0 && longitude === 0) {
+    latitude = undefined;
+    longitude = undefined;
+  }
+  if ((latitude === undefined) !== (longitude === undefined)) {
+    errors.push('latitude and longitude must be provided together.');
+  } else if (latitude !== undefined && longitude !== undefined) {
+    if (latitude < -90 || latitude > 90) errors.push(`latitude ${latitude} is out of range (-90 to 90).`);
+    if (longitude < -180 || longitude > 180) errors.push(`longitude ${longitude} is out of range (-180 to 180).`);
+  }
+
+  if (errors.length > 0) return { ok: false, errors };
+
+  const emergencyType = normalizeEmergencyType(rawType!);
+  if (emergencyType === 'Other') warnings.push(`Unrecognized emergencyType "${rawType}" recorded as Other.`);
+
+  const language = normalizeLanguageCode(cleanText(args.language));
+  // Only worth keeping when it differs from the canonical English description
+  let originalDescription = cleanText(args.originalDescription);
+  if (originalDescription && (language === CANONICAL_LANGUAGE || originalDescription === description)) {
+    originalDescription = undefined;
+  }
+
+  return {
+    ok: true,
+    warnings,
+    value: {
+      emergencyType,
+      rawEmergencyType: rawType!,
+      description: description!,
+      peopleCount,
+      criticalNeeds: cleanText(args.criticalNeeds),
+      locationName: cleanText(args.locationName),
+      latitude,
+      longitude,
+      language,
+      originalDescription,
+      details: cleanDetails(args.details)
+    }
+  };
+}
+
+// Partial details are fine here; nothing is filed until reportEmergency
+export function validateDetailArgs(raw: unknown): ValidationResult<DetailArgs> {
+  const errors: string[] = [];
+  const warnings: string[] = [];
+  const args = (raw && typeof raw === 'object' ? raw : {}) as Record<string, unknown>;
+
+  const peopleCount = parsePeopleCount(args.peopleCount, errors, warnings);
+  const latitude = coerceNumber(args.latitude);
+  const longitude = coerceNumber(args.longitude);
+  const hasCoordinates = latitude !== undefined && longitude !== undefined && !(latitude === 0 && longitude === 0)
+    && Math.abs(latitude) <= 90 && Math.abs(longitude) <= 180;
+  const rawType = cleanText(args.emergencyType);
+  const value: DetailArgs = {
+    emergencyType: rawType ? normalizeEmergencyType(rawType) : undefined,
+    description: cleanText(args.description),
+    peopleCount,
+    criticalNeeds: cleanText(args.criticalNeeds),
+    locationName: cleanText(args.locationName),
+    latitude: hasCoordinates ? latitude : undefined,
+    longitude: hasCoordinates ? longitude : undefined,
+    details: cleanDetails(args.details)
+  };
+
+  if (errors.length === 0 && Object.values(value).every(v => v === undefined)) {
+    errors.push('Nothing to record. Provide at least one detail the caller gave.');
+  }
+  if (errors.length > 0) return { ok: false, errors };
+  return { ok: true, warnings, value };
+}
+
+export function validateUpdateArgs(raw: unknown): ValidationResult<ReportUpdateArgs> {
+  const errors: string[] = [];
+  const warnings: string[] = [];
+  const args = (raw && typeof raw === 'object' ? raw : {}) as Record<string, unknown>;
+
+  const peopleCount = parsePeopleCount(args.peopleCount, errors, warnings);
+  const rawType = cleanText(args.emergencyType);
+  const value: ReportUpdateArgs = {
+    reportId: cleanText(args.reportId),
+    emergencyType: rawType ? normalizeEmergencyType(rawType) : undefined,
+    peopleCount,
+    criticalNeeds: cleanText(args.criticalNeeds),
+    note: cleanText(args.note),
+    verification: cleanText(args.verification)
+  };
+
+  if (value.emergencyType === undefined && value.peopleCount === undefined && !value.criticalNeeds && !value.note && errors.length === 0) {
+    errors.push('Nothing to update. Provide peopleCount, criticalNeeds, emergencyType or a note.');
+  }
+  if (errors.length > 0) return { ok: false, errors };
+  return { ok: true, warnings, value };
+}
+
+export function validateTicketArgs(raw: unknown): ValidationResult<TicketArgs> {
+  const args = (raw && typeof raw === 'object' ? raw : {}) as Record<string, unknown>;
+  return {
+    ok: true,
+    warnings: [],
+    value: { reportId: cleanText(args.reportId), reason: cleanText(args.reason), verification: cleanText(args.verification) }
+  };
+}
+
+// Same rules as the tool arguments, applied to the detail panel form
+export function validateReportEdits(raw: Record<string, unknown>): ValidationResult<ReportEdits> {
+  const errors: string[] = [];
+  const warnings: string[] = [];
+
+  const description = cleanText(raw.description);
+  if (!description) errors.push('Description is required.');
+  const peopleCount = parsePeopleCount(raw.peopleCount, errors, warnings);
+
+  const lat = coerceNumber(raw.latitude);
+  const lng = coerceNumber(raw.longitude);
+  if (lat === undefined || lat < -90 || lat > 90) errors.push('Latitude must be between -90 and 90.');
+  if (lng === undefined || lng < -180 || lng > 180) errors.push('Longitude must be between -180 and 180.');
+
+  if (errors.length > 0) return { ok: false, errors };
+  return {
+    ok: true,
+    warnings,
+    value: {
+      emergencyType: normalizeEmergencyType(String(raw.emergencyType ?? '')),
+      description: description!,
+      peopleCount,
+      criticalNeeds: cleanText(raw.criticalNeeds),
+      location: { lat: lat!, lng: lng! }
+    }
+  };
+}
@@ -0,0 +1,170 @@
+import { EditableField, EmergencyReport, FieldEdit, ReportStatus, ResponderUnit, StatusChange } from "../types";
+import { ReportEdits } from "./reportValidation";
+
+// Allowed dispatcher moves from each state. Terminal states have no exits.
+const TRANSITIONS: Record<ReportStatus, ReportStatus[]> = {
+  pending: ['acknowledged', 'dispatched', 'cancelled'],
+  acknowledged: ['dispatched', 'cancelled'],
+  dispatched: ['en_route', 'resolved', 'cancelled'],
+  en_route: ['resolved', 'cancelled'],
+  resolved: [],
+  cancelled: []
+};
+
+export const STATUS_LABELS: Record<ReportStatus, string> = {
+  pending: 'Pending',
+  acknowledged: 'Acknowledged',
+  dispatched: 'Dispatched',
+  en_route: 'En Route',
+  resolved: 'Resolved',
+  cancelled: 'Cancelled'
+};
+
+// Tailwind classes for badges and list accents
+export const STATUS_STYLES: Record<ReportStatus, { badge: string; border: string }> = {
+  pending: { badge: 'bg-red-500/20 text-red-400 border-red-500/30', border: 'border-red-500' },
+  acknowledged: { badge: 'bg-orange-500/20 text-orange-400 border-orange-500/30', border: 'border-orange-500' },
+  dispatched: { badge: 'bg-yellow-500/20 text-yellow-400 border-yellow-500/30', border: 'border-yellow-500' },
+  en_route: { badge: 'bg-blue-500/20 text-blue-400 border-blue-500/30', border: 'border-blue-500' },
+  resolved: { badge: 'bg-green-500/20 text-green-400 border-green-500/30', border: 'border-green-500' },
+  cancelled: { badge: 'bg-gray-500/20 text-gray-400 border-gray-500/30', border: 'border-gray-500' }
+};
+
+export const SYSTEM_ACTOR = 'AI Dispatcher';
+
+export function allowedTransitions(status: ReportStatus): ReportStatus[] {
+  return TRANSITIONS[status] ?? [];
+}
+
+export function canTransition(from: ReportStatus, to: ReportStatus): boolean {
+  return allowedTransitions(from).includes(to);
+}
+
+export function isActiveStatus(status: ReportStatus): boolean {
+  return status !== 'resolved' && status !== 'cancelled';
+}
+
+// Audit entry recorded when a report is first created
+export function creationEntry(by: string = SYSTEM_ACTOR, at: number = Date.now()): StatusChange {
+  return { from: null, to: 'pending', by, at, reason: 'Report created' };
+}
+
+/**
+ * Returns a copy of the report moved to the given status with the change
+ * appended to its audit history. Throws if the move is not allowed.
+ */
+export function transitionReport(
+  report: EmergencyReport,
+  to: ReportStatus,
+  options: { by: string; reason?: string; at?: number }
+): EmergencyReport {
+  if (!canTransition(report.status, to)) {
+    throw new Error(`Cannot move report from ${STATUS_LABELS[report.status]} to ${STATUS_LABELS[to]}`);
+  }
+
+  const change: StatusChange = {
+    from: report.status,
+    to,
+    by: options.by,
+    at: options.at ?? Date.now(),
+    reason: options.reason?.trim() || undefined
+  };
+
+  return {
+    ...report,
+    status: to,
+    history: [...(report.history ?? []), change]
+  };
+}
+
+export const EDIT_FIELD_LABELS: Record<EditableField, string> = {
+  emergencyType: 'Type',
+  description: 'Description',
+  peopleCount: 'People',
+  criticalNeeds: 'Needs',
+  location: 'Location'
+};
+
+const EDITABLE_FIELDS = Object.keys(EDIT_FIELD_LABELS) as EditableField[];
+
+const sameEditValue = (a: unknown, b: unknown) => JSON.stringify(a ?? null) === JSON.stringify(b ?? null);
+
+export function formatEditValue(value: FieldEdit['to'], empty = '(empty)'): string {
+  if (value === undefined || value === '') return empty;
+  if (typeof value === 'object') return `${value.lat.toFixed(5)}, ${value.lng.toFixed(5)}`;
+  return String(value);
+}
+
+/**
+ * Applies operator corrections, logging one edit per field that actually
+ * changed. A moved location counts as verified by that operator.
+ */
+export function editReport(report: EmergencyReport, changes: Partial<ReportEdits>, by: string, at: number = Date.now()): EmergencyReport {
+  const edits: FieldEdit[] = EDITABLE_FIELDS
+    .filter(field => field in changes && !sameEditValue(report[field], changes[field]))
+    .map(field => ({ field, from: report[field], to: changes[field], by, at }));
+  if (edits.length === 0) return report;
+
+  const updated = {
+    ...report,
+    ...Object.fromEntries(edits.map(edit => [edit.field, edit.to])),
+    edits: [...(report.edits ?? []), ...edits]
+  } as EmergencyReport;
+
+  if (edits.some(edit => edit.field === 'location')) {
+    updated.locationInfo = {
+      ...report.locationInfo,
+      source: 'manual',
+      confidence: 1,
+      flagged: false,
+      correctedBy: by,
+      correctedAt: at
+    };
+  }
+  return updated;
+}
+
+// Address words too common to tell one ticket from another
+const GENERIC_WORDS = new Set(['the', 'and', 'near', 'street', 'st', 'road', 'rd', 'avenue', 'ave', 'lane', 'drive', 'calle', 'de', 'la', 'el', 'del', 'duong', 'kalye', 'ng', 'sa']);
+
+const significantWords = (text: string | undefined) =>
+  (text ?? '').toLowerCase().normalize('NFD').replace(/[\u0300-\u036f]/g, '')
+    .split(/[^a-z0-9]+/)
+    .filter(word => word.length >= 2 && !GENERIC_WORDS.has(word));
+
+/**
+ * Ticket IDs can be guessed or overheard, so a caller ringing back about
+ * an earlier ticket must also say where the emergency is, or the name it was
+ * filed under. Most of what they say has to appear in the place or name on file.
+ */
+export function matchesCallerCheck(report: EmergencyReport, stated: string): boolean {
+  const given = significantWords(stated);
+  if (given.length === 0) return false;
+  const onFile = new Set(significantWords(`${report.locationInfo?.label ?? ''} ${report.reporterName ?? ''}`));
+  const matched = given.filter(word => onFile.has(word)).length;
+  return matched > 0 && matched * 2 >= given.length;
+}
+
+// What the voice dispatcher is told about a ticket, so it can answer callers
+export interface TicketSummary {
+  ticketId: string;
+  status: string;
+  emergencyType: string;
+  peopleCount?: number;
+  criticalNeeds?: string;
+  assignedUnit?: string;
+  lastUpdated: string;
+}
+
+export function ticketSummary(report: EmergencyReport, unit?: ResponderUnit): TicketSummary {
+  const lastChange = report.history?.[report.history.length - 1];
+  return {
+    ticketId: report.id,
+    status: STATUS_LABELS[report.status],
+    emergencyType: report.emergencyType,
+    peopleCount: report.peopleCount,
+    criticalNeeds: report.criticalNeeds,
+    assignedUnit: unit?.name,
+    lastUpdated: new Date(lastChange?.at ?? report.timestamp).toISOString()
+  };
+}
@@ -0,0 +1,186 @@
+import { EmergencyReport, GeoLocation, ResponderUnit, UnitKind } from "../types";
+import { openDatabase, promisifyRequest, promisifyTransaction, STORES } from "./database";
+import { distanceMeters } from "./geoUtils";
+import { normalizeEmergencyType } from "./reportValidation";
+import { canTransition, transitionReport } from "./reportWorkflow";
+
+export const UNIT_KIND_LABELS: Record<UnitKind, string> = {
+  ambulance: 'Ambulance',
+  fire: 'Fire Engine',
+  boat: 'Rescue Boat',
+  supply: 'Supply Truck'
+};
+
+export const UNIT_KIND_GLYPHS: Record<UnitKind, string> = {
+  ambulance: '🚑',
+  fire: '🚒',
+  boat: '🚤',
+  supply: '📦'
+};
+
+export const DEFAULT_CAPABILITIES: Record<UnitKind, string[]> = {
+  ambulance: ['medical', 'transport'],
+  fire: ['firefighting', 'rescue', 'hazmat', 'medical'],
+  boat: ['water_rescue', 'rescue', 'transport'],
+  supply: ['supplies', 'water', 'food']
+};
+
+// Capabilities implied by each canonical emergency type
+const TYPE_CAPABILITIES: Record<string, string[]> = {
+  Flood: ['water_rescue'],
+  Fire: ['firefighting'],
+  Earthquake: ['rescue'],
+  Landslide: ['rescue'],
+  Trapped: ['rescue'],
+  Injury: ['medical'],
+  Medical: ['medical'],
+  Hazmat: ['hazmat'],
+  Storm: [],
+  Other: []
+};
+
+// Capabilities implied by keywords in criticalNeeds
+const NEED_CAPABILITIES: { keyword: string; capability: string }[] = [
+  { keyword: 'boat', capability: 'water_rescue' },
+  { keyword: 'medic', capability: 'medical' },
+  { keyword: 'insulin', capability: 'medical' },
+  { keyword: 'bleeding', capability: 'medical' },
+  { keyword: 'injur', capability: 'medical' },
+  { keyword: 'oxygen', capability: 'medical' },
+  { keyword: 'water', capability: 'water' },
+  { keyword: 'food', capability: 'food' },
+  { keyword: 'supplies', capability: 'supplies' },
+  { keyword: 'evacuat', capability: 'transport' }
+];
+
+export interface UnitRecommendation {
+  unit: ResponderUnit;
+  distanceMeters: number;
+  matched: string[];
+  missing: string[];
+}
+
+export function requiredCapabilities(report: EmergencyReport): string[] {
+  const required = new Set(TYPE_CAPABILITIES[normalizeEmergencyType(report.emergencyType || '')] ?? []);
+  const needs = (report.criticalNeeds ?? '').toLowerCase();
+  for (const { keyword, capability } of NEED_CAPABILITIES) {
+    if (needs.includes(keyword)) required.add(capability);
+  }
+  return [...required];
+}
+
+/**
+ * Ranks available units for a report: units covering every required
+ * capability come first, then by how many they cover, then by distance.
+ */
+export function recommendUnits(report: EmergencyReport, units: ResponderUnit[]): UnitRecommendation[] {
+  const required = requiredCapabilities(report);
+
+  return units
+    .filter(u => u.availability === 'available')
+    .map(unit => {
+      const matched = required.filter(c => unit.capabilities.includes(c));
+      return {
+        unit,
+        distanceMeters: distanceMeters(unit.location, report.location),
+        matched,
+        missing: required.filter(c => !unit.capabilities.includes(c))
+      };
+    })
+    .filter(r => required.length === 0 || r.matched.length > 0)
+    .sort((a, b) =>
+      a.missing.length - b.missing.length
+      || b.matched.length - a.matched.length
+      || a.distanceMeters - b.distanceMeters
+    );
+}
+
+export function recommendUnit(report: EmergencyReport, units: ResponderUnit[]): UnitRecommendation | undefined {
+  return recommendUnits(report, units)[0];
+}
+
+export function canAssignUnit(report: EmergencyReport): boolean {
+  return !report.assignedUnitId && canTransition(report.status, 'dispatched');
+}
+
+/**
+ * Dispatches the unit to the report. Returns both updated records;
+ * throws if the unit is not available or the report cannot be dispatched.
+ */
+export function assignUnit(
+  report: EmergencyReport,
+  unit: ResponderUnit,
+  by: string
+): { report: EmergencyReport; unit: ResponderUnit } {
+  if (unit.availability !== 'available') throw new Error(`${unit.name} is not available`);
+
+  const dispatched = transitionReport(report, 'dispatched', { by, reason: `Assigned ${unit.name}` });
+  return {
+    report: { ...dispatched, assignedUnitId: unit.id },
+    unit: { ...unit, availability: 'busy', assignedReportId: report.id }
+  };
+}
+
+export function releaseUnit(unit: ResponderUnit): ResponderUnit {
+  return { ...unit, availability: 'available', assignedReportId: undefined };
+}
+
+const UNIT_PREFIX_KEY = 'unitIdPrefix';
+
+// Fleets are per device but assignedUnitId travels with synced reports, so each device names its units apart
+function deviceUnitPrefix(): string {
+  const existing = localStorage.getItem(UNIT_PREFIX_KEY);
+  if (existing) return existing;
+  const prefix = Math.random().toString(36).slice(2, 8);
+  localStorage.setItem(UNIT_PREFIX_KEY, prefix);
+  return prefix;
+}
+
+// Starter fleet spread around the given point so a fresh install has something to dispatch
+export function seedUnits(center: GeoLocation): ResponderUnit[] {
+  const prefix = deviceUnitPrefix();
+  const fleet: { kind: UnitKind; name: string; dLat: number; dLng: number }[] = [
+    { kind: 'ambulance', name: 'Medic 1', dLat: 0.012, dLng: -0.018 },
+    { kind: 'ambulance', name: 'Medic 2', dLat: -0.02, dLng: 0.01 },
+    { kind: 'fire', name: 'Engine 7', dLat: 0.005, dLng: 0.022 },
+    { kind: 'fire', name: 'Engine 12', dLat: -0.03, dLng: -0.025 },
+    { kind: 'boat', name: 'Swift Water 3', dLat: 0.025, dLng: 0.005 },
+    { kind: 'supply', name: 'Supply 4', dLat: -0.008, dLng: -0.035 }
+  ];
+
+  return fleet.map((u, i) => ({
+    id: `unit-${prefix}-${i + 1}`,
+    name: u.name,
+    kind: u.kind,
+    capabilities: DEFAULT_CAPABILITIES[u.kind],
+    location: { lat: center.lat + u.dLat, lng: center.lng + u.dLng },
+    availability: 'available'
+  }));
+}
+
+// True while the fleet is exactly what seedUnits placed around `center`: nobody has moved or assigned a unit yet
+export function isUntouchedSeed(units: ResponderUnit[], center: GeoLocation): boolean {
+  const seed = seedUnits(center);
+  return units.length === seed.length && seed.every(s => units.some(u =>
+    u.id === s.id && u.availability === 'available' && !u.assignedReportId
+    && u.location.lat === s.location.lat && u.location.lng === s.location.lng));
+}
+
+// IndexedDB persistence for the fleet, alongside the report store
+export class UnitRepository {
+  async getAll(): Promise<ResponderUnit[]> {
+    const db = await openDatabase();
+    const tx = db.transaction(STORES.units, 'readonly');
+    const units = await promisifyRequest<ResponderUnit[]>(tx.objectStore(STORES.units).getAll());
+    return units.sort((a, b) => a.name.localeCompare(b.name));
+  }
+
+  async save(...units: ResponderUnit[]): Promise<void> {
+    const db = await openDatabase();
+    const tx = db.transaction(STORES.units, 'readwrite');
+    units.forEach(unit => tx.objectStore(STORES.units).put(unit));
+    await promisifyTransaction(tx);
+  }
+}
+
+export const unitRepository = new UnitRepository();
@@ -0,0 +1,225 @@
+import {
+  LiveServerMessage,
+  LiveSendRealtimeInputParameters,
+  LiveSendToolResponseParameters,
+  FunctionResponse
+} from "@google/genai";
+import { LiveConnectParams, LiveSession, LiveTransport } from "./liveTransport";
+import { arrayBufferToBase64, float32ToInt16PCM } from "./audioUtils";
+
+const OUTPUT_SAMPLE_RATE = 24000;
+const TOOL_RESPONSE_TIMEOUT_MS = 10000;
+const DEFAULT_STEP_DELAY_MS = 600;
+
+export type ScriptStep =
+  // Simulated caller speech, surfaced as an input transcription
+  | { type: 'caller'; text: string; delayMs?: number }
+  // Dispatcher turn: text plus either a raw PCM16 24kHz file or a generated tone
+  | { type: 'dispatcher'; text: string; audioUrl?: string; toneMs?: number; delayMs?: number }
+  // Emits a function call and waits for the client's tool response
+  | { type: 'toolCall'; name: string; args: Record<string, unknown>; delayMs?: number }
+  // Waits until the client has streamed at least this many audio chunks
+  | { type: 'waitForAudio'; chunks?: number; timeoutMs?: number }
+  | { type: 'close'; delayMs?: number }
+  // Drops the socket abnormally (1006) to exercise reconnect and resumption
+  | { type: 'drop'; delayMs?: number };
+
+export interface CallScript {
+  name: string;
+  steps: ScriptStep[];
+}
+
+const HANDLE_PREFIX = 'scripted-step-';
+
+// Resumption handles encode the index of the next step to play
+function stepFromHandle(handle: string | undefined): number {
+  if (!handle?.startsWith(HANDLE_PREFIX)) return 0;
+  const step = Number(handle.slice(HANDLE_PREFIX.length));
+  return Number.isInteger(step) && step >= 0 ? step : 0;
+}
+
+const delay = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+// Short, quiet sine tone so output playback can be exercised without audio files
+function generateTone(durationMs: number, frequency = 440): string {
+  const samples = Math.floor(OUTPUT_SAMPLE_RATE * durationMs / 1000);
+  const data = new Float32Array(samples);
+  for (let i = 0; i < samples; i++) {
+    const fade = Math.min(1, i / 200, (samples - i) / 200);
+    data[i] = Math.sin(2 * Math.PI * frequency * i / OUTPUT_SAMPLE_RATE) * 0.1 * fade;
+  }
+  return arrayBufferToBase64(float32ToInt16PCM(data).buffer as ArrayBuffer);
+}
+
+async function loadAudio(url: string): Promise<string> {
+  const res = await fetch(url);
+  if (!res.ok) throw new Error(`Failed to load script audio ${url}: ${res.status}`);
+  return arrayBufferToBase64(await res.arrayBuffer());
+}
+
+/**
+ * Session that plays a CallScript back through the live callbacks.
+ * Records everything the client sends so flows can be asserted on offline.
+ */
+export class ScriptedLiveSession implements LiveSession {
+  public readonly toolResponses: FunctionResponse[] = [];
+  public audioChunksReceived = 0;
+  public videoFramesReceived = 0;
+  public activityStarts = 0; // Speech turns marked by the client when it runs its own voice detection
+
+  private closed = false;
+  private callCounter = 0;
+  private pendingTool: { id: string; resolve: () => void } | null = null;
+  private audioWaiter: (() => void) | null = null;
+
+  constructor(private script: CallScript, private params: LiveConnectParams, private startStep = 0) {}
+
+  sendRealtimeInput(params: LiveSendRealtimeInputParameters) {
+    if (this.closed) return;
+    if (params.video) {
+      this.videoFramesReceived++;
+    } else if (params.activityStart) {
+      this.activityStarts++;
+    } else if (params.media || params.audio) {
+      this.audioChunksReceived++;
+      this.audioWaiter?.();
+    }
+  }
+
+  sendToolResponse(params: LiveSendToolResponseParameters) {
+    const responses = Array.isArray(params.functionResponses)
+      ? params.functionResponses
+      : [params.functionResponses];
+    this.toolResponses.push(...responses);
+
+    if (this.pendingTool && responses.some(r => r.id === this.pendingTool?.id)) {
+      this.pendingTool.resolve();
+      this.pendingTool = null;
+    }
+  }
+
+  close() {
+    this.shutdown(1000, 'Scripted session closed');
+  }
+
+  private shutdown(code: number, reason: string) {
+    if (this.closed) return;
+    this.closed = true;
+    this.pendingTool?.resolve();
+    this.audioWaiter?.();
+    this.params.callbacks.onclose?.(new CloseEvent('close', { code, reason }));
+  }
+
+  async run() {
+    this.params.callbacks.onopen?.();
+
+    const steps = this.script.steps;
+    for (let i = this.startStep; i < steps.length; i++) {
+      if (this.closed) return;
+      // Hand out the handle past a drop first, or the resumed session would drop again
+      if (steps[i].type === 'drop') this.emitHandle(i + 1);
+      try {
+        await this.runStep(steps[i]);
+      } catch (e) {
+        console.error('Scripted step failed', steps[i], e);
+        this.params.callbacks.onerror?.(new ErrorEvent('error', { message: String(e) }));
+      }
+      // A reconnect with this handle picks up at the next step
+      this.emitHandle(i + 1);
+    }
+  }
+
+  private emitHandle(nextStep: number) {
+    this.emit({ sessionResumptionUpdate: { newHandle: `${HANDLE_PREFIX}${nextStep}`, resumable: true } });
+  }
+
+  private emit(message: Partial<LiveServerMessage>) {
+    if (this.closed) return;
+    this.params.callbacks.onmessage(message as LiveServerMessage);
+  }
+
+  private async runStep(step: ScriptStep) {
+    switch (step.type) {
+      case 'caller':
+        await delay(step.delayMs ?? DEFAULT_STEP_DELAY_MS);
+        this.emit({ serverContent: { inputTranscription: { text: step.text, finished: true } } });
+        break;
+
+      case 'dispatcher': {
+        await delay(step.delayMs ?? DEFAULT_STEP_DELAY_MS);
+        const toneMs = step.toneMs ?? Math.min(3000, step.text.split(/\s+/).length * 60);
+        const audio = step.audioUrl ? await loadAudio(step.audioUrl) : generateTone(toneMs);
+        this.emit({
+          serverContent: {
+            modelTurn: { parts: [{ inlineData: { mimeType: `audio/pcm;rate=${OUTPUT_SAMPLE_RATE}`, data: audio } }] },
+            outputTranscription: { text: step.text, finished: true }
+          }
+        });
+        this.emit({ serverContent: { turnComplete: true } });
+        break;
+      }
+
+      case 'toolCall': {
+        await delay(step.delayMs ?? DEFAULT_STEP_DELAY_MS);
+        const id = `scripted-call-${++this.callCounter}`;
+        const answered = new Promise<void>(resolve => { this.pendingTool = { id, resolve }; });
+        this.emit({ toolCall: { functionCalls: [{ id, name: step.name, args: step.args }] } });
+        await Promise.race([answered, delay(TOOL_RESPONSE_TIMEOUT_MS)]);
+        if (this.pendingTool?.id === id) {
+          console.warn(`No tool response for ${step.name} within ${TOOL_RESPONSE_TIMEOUT_MS}ms`);
+          this.pendingTool = null;
+        }
+        break;
+      }
+
+      case 'waitForAudio': {
+        const target = step.chunks ?? 1;
+        const timeout = delay(step.timeoutMs ?? 5000);
+        while (!this.closed && this.audioChunksReceived < target) {
+          const received = new Promise<void>(resolve => { this.audioWaiter = resolve; });
+          if (await Promise.race([received.then(() => false), timeout.then(() => true)])) break;
+        }
+        this.audioWaiter = null;
+        break;
+      }
+
+      case 'close':
+        await delay(step.delayMs ?? DEFAULT_STEP_DELAY_MS);
+        this.close();
+        break;
+
+      case 'drop':
+        await delay(step.delayMs ?? DEFAULT_STEP_DELAY_MS);
+        this.shutdown(1006, 'Scripted network drop');
+        break;
+    }
+  }
+}
+
+/**
+ * Local backend that replays a scripted call instead of talking to Gemini.
+ * Accepts either an in-memory script or a URL to a JSON script file.
+ */
+export class ScriptedLiveTransport implements LiveTransport {
+  public lastSession: ScriptedLiveSession | null = null;
+
+  constructor(private source: CallScript | string) {}
+
+  private async loadScript(): Promise<CallScript> {
+    if (typeof this.source !== 'string') return this.source;
+    const res = await fetch(this.source);
+    if (!res.ok) throw new Error(`Failed to load call script ${this.source}: ${res.status}`);
+    return res.json();
+  }
+
+  async connect(params: LiveConnectParams): Promise<LiveSession> {
+    const script = await this.loadScript();
+    const resumeFrom = stepFromHandle(params.config?.sessionResumption?.handle);
+    const session = new ScriptedLiveSession(script, params, resumeFrom);
+    this.lastSession = session;
+
+    // Start after the caller has stored the session, like a real socket opening
+    setTimeout(() => { void session.run(); }, 0);
+    return session;
+  }
+}
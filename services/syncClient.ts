@@ -0,0 +1,227 @@
+import { EmergencyReport } from "../types";
+import { backoffDelay } from "./connectionState";
+import { AUTH_FAILED_CLOSE_CODE, ClientMessage, ServerMessage, SYNC_PATH, toWireReport } from "./syncProtocol";
+
+const PUT_TIMEOUT_MS = 10000;
+const EPOCH_KEY = 'syncEpoch';
+const TOKEN_KEY = 'syncToken';
+const RECONNECT = { maxAttempts: Infinity, baseDelayMs: 1000, maxDelayMs: 30000 };
+
+// 'unauthorized' is final until the page is reloaded with a new token
+export type SyncState = 'disabled' | 'connecting' | 'online' | 'offline' | 'unauthorized';
+
+export interface SyncStatus {
+  state: SyncState;
+  clients: number; // Dashboards connected to the server, this one included
+}
+
+interface PendingPut {
+  resolve: () => void;
+  reject: (error: Error) => void;
+  timer: ReturnType<typeof setTimeout>;
+}
+
+// One ID per tab, so two tabs in the same browser act as two operators
+function tabClientId(): string {
+  const existing = sessionStorage.getItem('syncClientId');
+  if (existing) return existing;
+  const id = `client-${Math.random().toString(36).slice(2, 10)}`;
+  sessionStorage.setItem('syncClientId', id);
+  return id;
+}
+
+/**
+ * Keeps this dashboard's reports in step with every other one through the
+ * sync server. Outgoing changes arrive through `push`, which is the report
+ * repository's sync handler; incoming ones are handed to `onRemoteReport`.
+ */
+export class SyncClient {
+  public readonly clientId = tabClientId();
+
+  private socket: WebSocket | null = null;
+  private ready = false; // Welcome received; puts before that would race the catch-up
+  private seq = 0; // Highest server sequence number applied in this page
+  private attempt = 0;
+  private reconnectTimer: ReturnType<typeof setTimeout> | null = null;
+  private pending = new Map<string, PendingPut>();
+  private requestCounter = 0;
+  private status: SyncStatus;
+
+  public onRemoteReport: ((report: EmergencyReport, conflicts: string[]) => void) | null = null;
+  public onStatusChange: ((status: SyncStatus) => void) | null = null;
+  // Server came back without our reports (restart); everything local has to be sent again
+  public onServerReset: (() => void) | null = null;
+  // Ready for pushes; the outbox should be flushed
+  public onReady: (() => void) | null = null;
+
+  constructor(private url: string | null, private token = '') {
+    this.status = { state: url ? 'offline' : 'disabled', clients: 0 };
+  }
+
+  getStatus(): SyncStatus {
+    return this.status;
+  }
+
+  private setStatus(status: Partial<SyncStatus>) {
+    this.status = { ...this.status, ...status };
+    this.onStatusChange?.(this.status);
+  }
+
+  start() {
+    if (!this.url || this.socket) return;
+    this.setStatus({ state: 'connecting' });
+
+    const socket = new WebSocket(this.url);
+    this.socket = socket;
+    socket.onopen = () => {
+      const hello: ClientMessage = {
+        type: 'hello',
+        clientId: this.clientId,
+        epoch: localStorage.getItem(EPOCH_KEY),
+        since: this.seq,
+        token: this.token
+      };
+      socket.send(JSON.stringify(hello));
+    };
+    socket.onmessage = (event) => {
+      try {
+        this.handleMessage(JSON.parse(event.data));
+      } catch (e) {
+        console.error('Bad sync message', e);
+      }
+    };
+    socket.onclose = (event) => {
+      if (this.socket !== socket) return;
+      this.handleDisconnect(event.code);
+    };
+  }
+
+  stop() {
+    if (this.reconnectTimer) clearTimeout(this.reconnectTimer);
+    this.reconnectTimer = null;
+    const socket = this.socket;
+    this.socket = null;
+    socket?.close();
+    this.ready = false;
+    this.rejectPending('Sync stopped');
+    if (this.url) this.setStatus({ state: 'offline', clients: 0 });
+  }
+
+  // Resolves once the server has merged the report; rejecting leaves it in the outbox
+  push(report: EmergencyReport): Promise<void> {
+    if (!this.socket || !this.ready) return Promise.reject(new Error('Sync server not connected'));
+
+    const requestId = `${this.clientId}-${++this.requestCounter}`;
+    const message: ClientMessage = { type: 'put', requestId, report: toWireReport(report) };
+    return new Promise<void>((resolve, reject) => {
+      const timer = setTimeout(() => {
+        this.pending.delete(requestId);
+        reject(new Error('Sync server did not confirm in time'));
+      }, PUT_TIMEOUT_MS);
+      this.pending.set(requestId, { resolve, reject, timer });
+      this.socket!.send(JSON.stringify(message));
+    });
+  }
+
+  private applyRemote(report: EmergencyReport, conflicts: string[] = []) {
+    this.seq = Math.max(this.seq, report.sync?.version ?? 0);
+    this.onRemoteReport?.(report, conflicts);
+  }
+
+  private handleMessage(message: ServerMessage) {
+    switch (message.type) {
+      case 'welcome': {
+        const knownEpoch = localStorage.getItem(EPOCH_KEY);
+        localStorage.setItem(EPOCH_KEY, message.epoch);
+        // Oldest first so later changes land on top of earlier ones
+        [...message.reports]
+          .sort((a, b) => (a.sync?.version ?? 0) - (b.sync?.version ?? 0))
+          .forEach(report => this.applyRemote(report));
+        this.seq = Math.max(this.seq, message.seq);
+
+        this.attempt = 0;
+        this.ready = true;
+        this.setStatus({ state: 'online' });
+        if (knownEpoch !== message.epoch) this.onServerReset?.();
+        this.onReady?.();
+        break;
+      }
+      case 'ack': {
+        this.applyRemote(message.report, message.conflicts);
+        const pending = this.pending.get(message.requestId);
+        if (pending) {
+          clearTimeout(pending.timer);
+          this.pending.delete(message.requestId);
+          pending.resolve();
+        }
+        break;
+      }
+      case 'report':
+        if (message.origin !== this.clientId) this.applyRemote(message.report);
+        break;
+      case 'presence':
+        this.setStatus({ clients: message.clients });
+        break;
+      case 'error': {
+        console.warn('Sync server error', message.message);
+        const pending = message.requestId ? this.pending.get(message.requestId) : undefined;
+        if (pending && message.requestId) {
+          clearTimeout(pending.timer);
+          this.pending.delete(message.requestId);
+          pending.reject(new Error(message.message));
+        }
+        break;
+      }
+    }
+  }
+
+  private rejectPending(reason: string) {
+    this.pending.forEach(pending => {
+      clearTimeout(pending.timer);
+      pending.reject(new Error(reason));
+    });
+    this.pending.clear();
+  }
+
+  private handleDisconnect(code: number) {
+    this.socket = null;
+    this.ready = false;
+    this.rejectPending('Sync connection lost');
+    if (code === AUTH_FAILED_CLOSE_CODE) {
+      console.error('Sync server rejected the token; not reconnecting');
+      this.setStatus({ state: 'unauthorized', clients: 0 });
+      return;
+    }
+    this.setStatus({ state: 'offline', clients: 0 });
+
+    this.attempt++;
+    this.reconnectTimer = setTimeout(() => {
+      this.reconnectTimer = null;
+      this.start();
+    }, backoffDelay(this.attempt, RECONNECT));
+  }
+}
+
+/**
+ * Sync server from the SYNC_SERVER_URL env var, defaulting to the dev
+ * server's own /sync endpoint. `?sync=off` (or SYNC_SERVER_URL=off) disables it.
+ * `?syncToken=` stores the server's shared token on this device.
+ */
+export function createSyncClient(): SyncClient {
+  const query = new URLSearchParams(window.location.search);
+  const configured = query.get('sync') || process.env.SYNC_SERVER_URL;
+  if (configured === 'off') return new SyncClient(null);
+
+  // The token is handed out as a link once (?syncToken=...) and remembered on this device
+  const linkToken = query.get('syncToken');
+  if (linkToken) {
+    localStorage.setItem(TOKEN_KEY, linkToken);
+    query.delete('syncToken');
+    const search = query.toString();
+    window.history.replaceState(null, '', `${window.location.pathname}${search ? `?${search}` : ''}${window.location.hash}`);
+  }
+  const token = linkToken || localStorage.getItem(TOKEN_KEY) || '';
+
+  const sameOrigin = `${window.location.protocol === 'https:' ? 'wss:' : 'ws:'}//${window.location.host}${SYNC_PATH}`;
+  return new SyncClient(configured || sameOrigin, token);
+}
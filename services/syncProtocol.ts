@@ -0,0 +1,186 @@
+import { EmergencyReport, FieldEdit, FieldStamp, ReportStatus, StatusChange } from "../types";
+import { STATUS_LABELS } from "./reportWorkflow";
+
+// Same-origin path the dev and preview servers accept sync sockets on
+export const SYNC_PATH = '/sync';
+
+// WebSocket close code (policy violation) the server sends for a wrong token; retrying cannot help
+export const AUTH_FAILED_CLOSE_CODE = 1008;
+
+// Derived or device-specific fields; never stamped, sent or overwritten by a peer
+const LOCAL_FIELDS = ['id', 'sync', 'triage', 'recordingId', 'attachmentIds', 'hazardZoneIds'] as const;
+
+// Audit logs: entries from every operator are kept instead of one copy winning
+const LOG_FIELDS = ['history', 'edits'];
+
+type LocalField = typeof LOCAL_FIELDS[number];
+
+export type ClientMessage =
+  // First message on every connection; 'since' is the last server sequence this client has seen.
+  // 'token' is the server's shared secret; nothing is read or accepted without it
+  | { type: 'hello'; clientId: string; epoch: string | null; since: number; token: string }
+  | { type: 'put'; requestId: string; report: EmergencyReport };
+
+export type ServerMessage =
+  // Reply to hello. A different epoch means the server restarted and lost its state
+  | { type: 'welcome'; epoch: string; seq: number; reports: EmergencyReport[] }
+  // Reply to put with the merged result; conflicts lists fields where a newer value was kept
+  | { type: 'ack'; requestId: string; report: EmergencyReport; conflicts: string[] }
+  | { type: 'report'; report: EmergencyReport; origin: string }
+  | { type: 'presence'; clients: number }
+  | { type: 'error'; requestId?: string; message: string };
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const isFiniteNumber = (value: unknown): value is number => typeof value === 'number' && Number.isFinite(value);
+
+const REPORT_STATUSES = Object.keys(STATUS_LABELS) as ReportStatus[];
+
+const isStatus = (value: unknown): value is ReportStatus => REPORT_STATUSES.includes(value as ReportStatus);
+
+const isArrayOf = (value: unknown, check: (entry: Record<string, unknown>) => boolean) =>
+  value === undefined || (Array.isArray(value) && value.every(entry => isObject(entry) && check(entry)));
+
+/**
+ * Shape check for a report arriving from a peer: enough that merging,
+ * storing and broadcasting it cannot throw. Field values are otherwise
+ * the sender's business, as they are for local edits.
+ */
+export function isWireReport(value: unknown): value is EmergencyReport {
+  if (!isObject(value)) return false;
+  const { id, timestamp, location, status, history, edits, transcript, sync } = value;
+  return typeof id === 'string' && id.length > 0
+    && isFiniteNumber(timestamp)
+    && isObject(location) && isFiniteNumber(location.lat) && isFiniteNumber(location.lng)
+    && isStatus(status)
+    && isArrayOf(history, c => isFiniteNumber(c.at) && typeof c.by === 'string' && isStatus(c.to) && (c.from === undefined || c.from === null || isStatus(c.from)))
+    && isArrayOf(edits, e => isFiniteNumber(e.at) && typeof e.by === 'string' && typeof e.field === 'string')
+    && isArrayOf(transcript, t => typeof t.text === 'string')
+    && (sync === undefined || (isObject(sync) && (sync.stamps === undefined || (isObject(sync.stamps)
+      && Object.values(sync.stamps).every(stamp => isObject(stamp) && isFiniteNumber(stamp.at) && typeof stamp.by === 'string')))));
+}
+
+// Null for anything that is not a well-formed client message
+export function parseClientMessage(text: string): ClientMessage | null {
+  let message: unknown;
+  try {
+    message = JSON.parse(text);
+  } catch {
+    return null;
+  }
+  if (!isObject(message)) return null;
+
+  if (message.type === 'hello') {
+    const { clientId, epoch, since, token } = message;
+    const valid = typeof clientId === 'string' && clientId.length > 0
+      && (epoch === null || typeof epoch === 'string')
+      && isFiniteNumber(since)
+      && typeof token === 'string';
+    return valid ? message as ClientMessage : null;
+  }
+  if (message.type === 'put') {
+    return typeof message.requestId === 'string' && isWireReport(message.report) ? message as ClientMessage : null;
+  }
+  return null;
+}
+
+const isLocalField = (field: string) => (LOCAL_FIELDS as readonly string[]).includes(field);
+
+const syncedFields = (...reports: (EmergencyReport | undefined)[]): string[] =>
+  [...new Set(reports.flatMap(r => r ? Object.keys(r) : []))].filter(f => !isLocalField(f));
+
+const sameValue = (a: unknown, b: unknown) => JSON.stringify(a) === JSON.stringify(b);
+
+// Later timestamp wins; client ID settles exact ties so every peer picks the same value
+export function isNewerStamp(a: FieldStamp | undefined, b: FieldStamp | undefined): boolean {
+  if (!a) return false;
+  if (!b) return true;
+  return a.at !== b.at ? a.at > b.at : a.by > b.by;
+}
+
+/**
+ * Stamps every field that differs from the previous copy as written now by
+ * this client. Called on local edits only; remote reports keep their stamps.
+ */
+export function stampChanges(previous: EmergencyReport | undefined, next: EmergencyReport, clientId: string, now = Date.now()): EmergencyReport {
+  const stamps = { ...(previous?.sync?.stamps ?? next.sync?.stamps ?? {}) };
+  syncedFields(previous, next).forEach(field => {
+    const before = previous?.[field as keyof EmergencyReport];
+    const after = next[field as keyof EmergencyReport];
+    if (!previous || !sameValue(before, after)) stamps[field] = { at: now, by: clientId };
+  });
+  return { ...next, sync: { version: previous?.sync?.version ?? next.sync?.version ?? 0, stamps } };
+}
+
+// Log entries from different operators are all kept, in time order
+function mergeLog<T extends StatusChange | FieldEdit>(a: T[] = [], b: T[] = [], keyOf: (entry: T) => string): T[] {
+  const seen = new Set<string>();
+  return [...a, ...b]
+    .filter(change => {
+      const key = keyOf(change);
+      if (seen.has(key)) return false;
+      seen.add(key);
+      return true;
+    })
+    .sort((x, y) => x.at - y.at);
+}
+
+/**
+ * Field-by-field last-writer-wins merge of two copies of the same report.
+ * Deterministic, so the server and every client converge on the same result.
+ * Local-only fields always come from `current`.
+ */
+export function mergeReports(current: EmergencyReport | undefined, incoming: EmergencyReport): { report: EmergencyReport; conflicts: string[] } {
+  if (!current) return { report: incoming, conflicts: [] };
+
+  const merged: Record<string, unknown> = {};
+  const stamps: Record<string, FieldStamp> = {};
+  const conflicts: string[] = [];
+  const currentStamps = current.sync?.stamps ?? {};
+  const incomingStamps = incoming.sync?.stamps ?? {};
+
+  syncedFields(current, incoming).forEach(field => {
+    const key = field as keyof EmergencyReport;
+    const incomingWins = isNewerStamp(incomingStamps[field], currentStamps[field]);
+    const winner = incomingWins ? incoming : current;
+    const stamp = incomingWins ? incomingStamps[field] : currentStamps[field];
+
+    if (field === 'history') {
+      merged[field] = mergeLog(current.history, incoming.history, c => `${c.at}|${c.by}|${c.from}|${c.to}`);
+    } else if (field === 'edits') {
+      merged[field] = mergeLog(current.edits, incoming.edits, e => `${e.at}|${e.by}|${e.field}`);
+    } else if (winner[key] !== undefined) {
+      merged[field] = winner[key];
+    }
+    if (stamp) stamps[field] = stamp;
+
+    if (!LOG_FIELDS.includes(field) && !incomingWins && incomingStamps[field] && !sameValue(current[key], incoming[key])) {
+      conflicts.push(field);
+    }
+  });
+
+  LOCAL_FIELDS.forEach((field: LocalField) => {
+    if (current[field] !== undefined) merged[field] = current[field];
+  });
+  merged.id = current.id;
+  merged.sync = { version: Math.max(current.sync?.version ?? 0, incoming.sync?.version ?? 0), stamps };
+
+  return { report: merged as unknown as EmergencyReport, conflicts };
+}
+
+// True when a merge changed nothing a peer would need to hear about
+export function sameReportContent(a: EmergencyReport, b: EmergencyReport): boolean {
+  return syncedFields(a, b).every(field => sameValue(a[field as keyof EmergencyReport], b[field as keyof EmergencyReport]))
+    && syncedFields(a, b).every(field => sameValue(a.sync?.stamps[field], b.sync?.stamps[field]));
+}
+
+// What goes over the wire: everything but device-specific fields
+export function toWireReport(report: EmergencyReport): EmergencyReport {
+  const wire = { ...report };
+  delete wire.triage;
+  delete wire.recordingId;
+  delete wire.attachmentIds;
+  delete wire.hazardZoneIds;
+  return wire;
+}
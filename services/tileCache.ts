@@ -0,0 +1,197 @@
+import { formatBytes } from "./fileUtils";
+
+// Single-host OSM URL so a tile has one cache key instead of one per {s} subdomain
+export const TILE_URL_TEMPLATE = 'https://tile.openstreetmap.org/{z}/{x}/{y}.png';
+
+// Shared with public/sw.js, which serves tiles from this cache first. Only areas
+// downloaded on purpose go here; tiles seen while browsing have their own cache
+// that the service worker trims, so it can never evict a downloaded area
+export const TILE_CACHE_NAME = 'map-tiles-v1';
+export const BROWSED_TILE_CACHE_NAME = 'map-tiles-browsed-v1';
+
+// Hard caps so an ambitious selection can't fill the device
+export const MAX_CACHED_TILES = 6000;
+export const MAX_CACHE_BYTES = 150 * 1024 * 1024;
+export const MAX_PREFETCH_ZOOM = 17;
+
+// Typical OSM tile size, used for estimates before anything is downloaded
+const AVERAGE_TILE_BYTES = 20 * 1024;
+
+// The OSM tile policy asks for modest request rates
+const PREFETCH_CONCURRENCY = 2;
+
+export interface TileBounds {
+  north: number;
+  south: number;
+  east: number;
+  west: number;
+}
+
+export interface TileCoord {
+  z: number;
+  x: number;
+  y: number;
+}
+
+export interface TileCacheStatus {
+  tileCount: number;
+  bytes: number;
+  downloading: boolean;
+  done: number;
+  total: number;
+  failed: number;
+  error?: string;
+}
+
+const lngToTileX = (lng: number, z: number) => Math.floor((lng + 180) / 360 * 2 ** z);
+
+const latToTileY = (lat: number, z: number) => {
+  const rad = Math.max(-85.0511, Math.min(85.0511, lat)) * Math.PI / 180;
+  return Math.floor((1 - Math.log(Math.tan(rad) + 1 / Math.cos(rad)) / Math.PI) / 2 * 2 ** z);
+};
+
+const clampTile = (n: number, z: number) => Math.max(0, Math.min(2 ** z - 1, n));
+
+export const tileUrl = ({ z, x, y }: TileCoord) =>
+  TILE_URL_TEMPLATE.replace('{z}', String(z)).replace('{x}', String(x)).replace('{y}', String(y));
+
+const tileRange = (bounds: TileBounds, z: number) => ({
+  xMin: clampTile(lngToTileX(bounds.west, z), z),
+  xMax: clampTile(lngToTileX(bounds.east, z), z),
+  yMin: clampTile(latToTileY(bounds.north, z), z),
+  yMax: clampTile(latToTileY(bounds.south, z), z)
+});
+
+// Every tile covering the bounds for each zoom level in the range. Check
+// estimateArea first: a country at zoom 17 is millions of tiles
+export function tilesForArea(bounds: TileBounds, minZoom: number, maxZoom: number): TileCoord[] {
+  const tiles: TileCoord[] = [];
+  for (let z = minZoom; z <= maxZoom; z++) {
+    const { xMin, xMax, yMin, yMax } = tileRange(bounds, z);
+    for (let x = xMin; x <= xMax; x++) {
+      for (let y = yMin; y <= yMax; y++) tiles.push({ z, x, y });
+    }
+  }
+  return tiles;
+}
+
+// Counted from the tile ranges, so it stays cheap however large the area
+export function estimateArea(bounds: TileBounds, minZoom: number, maxZoom: number): { tiles: number; bytes: number } {
+  let tiles = 0;
+  for (let z = minZoom; z <= maxZoom; z++) {
+    const { xMin, xMax, yMin, yMax } = tileRange(bounds, z);
+    tiles += (xMax - xMin + 1) * (yMax - yMin + 1);
+  }
+  return { tiles, bytes: tiles * AVERAGE_TILE_BYTES };
+}
+
+/**
+ * Downloads map tiles for a region ahead of time so the map keeps working
+ * without a network. Tiles land in the Cache API where the service worker
+ * picks them up; the service worker also keeps a capped set of tiles seen
+ * while browsing, in a separate cache.
+ */
+export class TileCacheService {
+  private status: TileCacheStatus = { tileCount: 0, bytes: 0, downloading: false, done: 0, total: 0, failed: 0 };
+  private abort: AbortController | null = null;
+
+  public onStatusChange: ((status: TileCacheStatus) => void) | null = null;
+
+  get isSupported(): boolean {
+    return typeof caches !== 'undefined';
+  }
+
+  getStatus(): TileCacheStatus {
+    return this.status;
+  }
+
+  private update(patch: Partial<TileCacheStatus>) {
+    this.status = { ...this.status, ...patch };
+    this.onStatusChange?.(this.status);
+  }
+
+  // Recounts what is stored; sizes come from the Content-Length we record on write
+  async refresh(): Promise<TileCacheStatus> {
+    if (!this.isSupported) return this.status;
+    const cache = await caches.open(TILE_CACHE_NAME);
+    const keys = await cache.keys();
+    let bytes = 0;
+    for (const key of keys) {
+      const res = await cache.match(key);
+      bytes += Number(res?.headers.get('Content-Length')) || AVERAGE_TILE_BYTES;
+    }
+    this.update({ tileCount: keys.length, bytes });
+    return this.status;
+  }
+
+  async downloadArea(bounds: TileBounds, minZoom: number, maxZoom: number): Promise<void> {
+    if (!this.isSupported) throw new Error('Offline storage is not available in this browser');
+    if (this.status.downloading) throw new Error('A download is already running');
+    if (maxZoom > MAX_PREFETCH_ZOOM) throw new Error(`Zoom is limited to ${MAX_PREFETCH_ZOOM} for offline areas`);
+
+    const { tiles } = estimateArea(bounds, minZoom, maxZoom);
+    if (tiles > MAX_CACHED_TILES) {
+      throw new Error(`Area needs ${tiles} tiles, more than the ${MAX_CACHED_TILES} that fit. Zoom in or lower the max zoom.`);
+    }
+
+    await this.refresh();
+    const cache = await caches.open(TILE_CACHE_NAME);
+    const cached = new Set((await cache.keys()).map(req => req.url));
+    const missing = tilesForArea(bounds, minZoom, maxZoom).map(tileUrl).filter(url => !cached.has(url));
+
+    if (this.status.tileCount + missing.length > MAX_CACHED_TILES) {
+      throw new Error(`Area needs ${missing.length} tiles but only ${Math.max(0, MAX_CACHED_TILES - this.status.tileCount)} fit. Zoom in or lower the max zoom.`);
+    }
+    if (this.status.bytes + missing.length * AVERAGE_TILE_BYTES > MAX_CACHE_BYTES) {
+      throw new Error(`Area would exceed the ${formatBytes(MAX_CACHE_BYTES)} offline map limit`);
+    }
+
+    this.abort = new AbortController();
+    const { signal } = this.abort;
+    this.update({ downloading: true, done: 0, total: missing.length, failed: 0, error: undefined });
+
+    let next = 0;
+    const worker = async () => {
+      while (next < missing.length && !signal.aborted) {
+        const url = missing[next++];
+        try {
+          const res = await fetch(url, { signal, mode: 'cors' });
+          if (!res.ok) throw new Error(`HTTP ${res.status}`);
+          const blob = await res.blob();
+          if (this.status.bytes + blob.size > MAX_CACHE_BYTES) {
+            this.abort?.abort();
+            this.update({ error: 'Offline map limit reached' });
+            return;
+          }
+          await cache.put(url, new Response(blob, {
+            headers: { 'Content-Type': blob.type || 'image/png', 'Content-Length': String(blob.size) }
+          }));
+          this.update({ done: this.status.done + 1, tileCount: this.status.tileCount + 1, bytes: this.status.bytes + blob.size });
+        } catch (e) {
+          if (signal.aborted) return;
+          console.error(`Failed to cache tile ${url}`, e);
+          this.update({ done: this.status.done + 1, failed: this.status.failed + 1 });
+        }
+      }
+    };
+
+    try {
+      await Promise.all(Array.from({ length: PREFETCH_CONCURRENCY }, worker));
+    } finally {
+      this.abort = null;
+      this.update({ downloading: false });
+    }
+  }
+
+  cancel() {
+    this.abort?.abort();
+  }
+
+  async clear(): Promise<void> {
+    this.cancel();
+    if (this.isSupported) await Promise.all([caches.delete(TILE_CACHE_NAME), caches.delete(BROWSED_TILE_CACHE_NAME)]);
+    this.update({ tileCount: 0, bytes: 0, done: 0, total: 0, failed: 0, error: undefined });
+  }
+}
+
+export const tileCache = new TileCacheService();
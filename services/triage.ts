@@ -0,0 +1,143 @@
+import { EmergencyReport, Priority, TriageResult } from "../types";
+import { normalizeEmergencyType } from "./reportValidation";
+import { isActiveStatus } from "./reportWorkflow";
+
+export interface TriageRules {
+  // Base score per canonical emergency type
+  typeWeights: Record<string, number>;
+  // Points per person involved, capped at maxPeoplePoints
+  pointsPerPerson: number;
+  maxPeoplePoints: number;
+  // Points added when criticalNeeds or description mention a keyword
+  needKeywords: { keyword: string; points: number }[];
+  // Unhandled reports gain points as they wait, capped at maxAgePoints
+  pointsPerWaitingHour: number;
+  maxAgePoints: number;
+  // Minimum score for each priority band, checked from the top
+  thresholds: { critical: number; high: number; medium: number };
+}
+
+export const DEFAULT_TRIAGE_RULES: TriageRules = {
+  typeWeights: {
+    Trapped: 35,
+    Fire: 35,
+    Medical: 30,
+    Hazmat: 30,
+    Flood: 25,
+    Earthquake: 25,
+    Landslide: 25,
+    Injury: 20,
+    Storm: 10,
+    Other: 10
+  },
+  pointsPerPerson: 3,
+  maxPeoplePoints: 30,
+  needKeywords: [
+    { keyword: 'unconscious', points: 20 },
+    { keyword: 'not breathing', points: 25 },
+    { keyword: 'bleeding', points: 15 },
+    { keyword: 'medical', points: 10 },
+    { keyword: 'insulin', points: 10 },
+    { keyword: 'oxygen', points: 15 },
+    { keyword: 'child', points: 10 },
+    { keyword: 'elderly', points: 10 },
+    { keyword: 'pregnant', points: 10 },
+    { keyword: 'boat', points: 5 },
+    { keyword: 'water', points: 3 },
+    { keyword: 'food', points: 2 }
+  ],
+  pointsPerWaitingHour: 5,
+  maxAgePoints: 20,
+  thresholds: { critical: 70, high: 45, medium: 25 }
+};
+
+const RULES_STORAGE_KEY = 'triageRules';
+
+export const PRIORITY_LABELS: Record<Priority, string> = {
+  critical: 'Critical',
+  high: 'High',
+  medium: 'Medium',
+  low: 'Low'
+};
+
+export const PRIORITY_STYLES: Record<Priority, { badge: string; border: string }> = {
+  critical: { badge: 'bg-red-600/30 text-red-300 border-red-500/50', border: 'border-red-500' },
+  high: { badge: 'bg-orange-500/20 text-orange-300 border-orange-500/40', border: 'border-orange-500' },
+  medium: { badge: 'bg-yellow-500/20 text-yellow-300 border-yellow-500/40', border: 'border-yellow-500' },
+  low: { badge: 'bg-blue-500/20 text-blue-300 border-blue-500/40', border: 'border-blue-500' }
+};
+
+/**
+ * Loads triage rules, letting supervisors override any top-level field
+ * by storing partial JSON under the `triageRules` localStorage key.
+ */
+export function loadTriageRules(): TriageRules {
+  try {
+    const stored = localStorage.getItem(RULES_STORAGE_KEY);
+    if (!stored) return DEFAULT_TRIAGE_RULES;
+    return { ...DEFAULT_TRIAGE_RULES, ...JSON.parse(stored) };
+  } catch (e) {
+    console.error('Invalid stored triage rules, using defaults', e);
+    return DEFAULT_TRIAGE_RULES;
+  }
+}
+
+export function priorityForScore(score: number, rules: TriageRules = DEFAULT_TRIAGE_RULES): Priority {
+  if (score >= rules.thresholds.critical) return 'critical';
+  if (score >= rules.thresholds.high) return 'high';
+  if (score >= rules.thresholds.medium) return 'medium';
+  return 'low';
+}
+
+export function scoreReport(
+  report: EmergencyReport,
+  rules: TriageRules = DEFAULT_TRIAGE_RULES,
+  now: number = Date.now()
+): TriageResult {
+  const factors: string[] = [];
+  let score = 0;
+
+  const type = normalizeEmergencyType(report.emergencyType || '');
+  const typePoints = rules.typeWeights[type] ?? rules.typeWeights.Other ?? 0;
+  score += typePoints;
+  factors.push(`${type} +${typePoints}`);
+
+  if (report.peopleCount && report.peopleCount > 0) {
+    const peoplePoints = Math.min(report.peopleCount * rules.pointsPerPerson, rules.maxPeoplePoints);
+    score += peoplePoints;
+    factors.push(`${report.peopleCount} people +${peoplePoints}`);
+  }
+
+  const text = `${report.criticalNeeds ?? ''} ${report.description}`.toLowerCase();
+  for (const { keyword, points } of rules.needKeywords) {
+    if (text.includes(keyword)) {
+      score += points;
+      factors.push(`"${keyword}" +${points}`);
+    }
+  }
+
+  // Only waiting reports age; resolved or cancelled ones stop accumulating
+  if (isActiveStatus(report.status)) {
+    const hours = Math.max(0, now - report.timestamp) / 3600000;
+    const agePoints = Math.min(Math.floor(hours * rules.pointsPerWaitingHour), rules.maxAgePoints);
+    if (agePoints > 0) {
+      score += agePoints;
+      factors.push(`waiting ${hours.toFixed(1)}h +${agePoints}`);
+    }
+  }
+
+  return { score, priority: priorityForScore(score, rules), factors, scoredAt: now };
+}
+
+export function withTriage(report: EmergencyReport, rules: TriageRules = DEFAULT_TRIAGE_RULES): EmergencyReport {
+  return { ...report, triage: scoreReport(report, rules) };
+}
+
+// Active reports first, then highest score, then newest
+export function compareByPriority(a: EmergencyReport, b: EmergencyReport): number {
+  const activeDiff = Number(isActiveStatus(b.status)) - Number(isActiveStatus(a.status));
+  if (activeDiff !== 0) return activeDiff;
+  const scoreDiff = (b.triage?.score ?? 0) - (a.triage?.score ?? 0);
+  if (scoreDiff !== 0) return scoreDiff;
+  return b.timestamp - a.timestamp;
+}
@@ -0,0 +1,62 @@
+// Tuned for the 512-sample capture frames, about 32 ms each at 16 kHz
+const SILENCE_RMS = 0.002; // Below this the line is effectively quiet
+const MIN_SPEECH_RMS = 0.012; // Speech must be at least this loud however quiet the room is
+const SPEECH_RATIO = 3; // ...and about 10 dB above the background
+const ONSET_FRAMES = 3; // ~100 ms of loud frames before speech starts
+const HANGOVER_FRAMES = 16; // ~500 ms of quieter frames before it ends, so pauses between words don't split a turn
+const FLOOR_RISE = 0.05; // Background adapts quickly while nobody speaks...
+const FLOOR_RISE_SPEAKING = 0.002; // ...and barely moves during speech so a long turn isn't absorbed into it
+const FLOOR_FALL = 0.3;
+
+export type VoiceActivity = 'speech' | 'noise' | 'silence';
+
+export interface VoiceActivityFrame {
+  activity: VoiceActivity;
+  speaking: boolean;
+  started: boolean; // This frame turned speech on
+  ended: boolean; // This frame turned speech off
+}
+
+/**
+ * Energy-based speech detector. Tracks the background level and calls a
+ * frame speech when it stands clearly above it, with a short onset and a
+ * longer hangover so single clicks don't count and pauses don't cut a turn.
+ */
+export class VoiceActivityDetector {
+  private floor = SILENCE_RMS;
+  private speaking = false;
+  private loudFrames = 0;
+  private quietFrames = 0;
+
+  process(rms: number): VoiceActivityFrame {
+    const loud = rms >= Math.max(MIN_SPEECH_RMS, this.floor * SPEECH_RATIO);
+    const wasSpeaking = this.speaking;
+
+    if (loud) {
+      this.loudFrames++;
+      this.quietFrames = 0;
+      if (this.loudFrames >= ONSET_FRAMES) this.speaking = true;
+    } else {
+      this.loudFrames = 0;
+      this.quietFrames++;
+      if (this.quietFrames >= HANGOVER_FRAMES) this.speaking = false;
+    }
+
+    const rate = rms < this.floor ? FLOOR_FALL : this.speaking ? FLOOR_RISE_SPEAKING : FLOOR_RISE;
+    this.floor = Math.max(SILENCE_RMS / 2, this.floor + (rms - this.floor) * rate);
+
+    return {
+      activity: this.speaking ? 'speech' : rms >= SILENCE_RMS ? 'noise' : 'silence',
+      speaking: this.speaking,
+      started: this.speaking && !wasSpeaking,
+      ended: !this.speaking && wasSpeaking
+    };
+  }
+
+  reset() {
+    this.floor = SILENCE_RMS;
+    this.speaking = false;
+    this.loudFrames = 0;
+    this.quietFrames = 0;
+  }
+}
@@ -3,16 +3,141 @@ export interface GeoLocation {
   lng: number;
 }
 
+export type ReportStatus =
+  | 'pending'
+  | 'acknowledged'
+  | 'dispatched'
+  | 'en_route'
+  | 'resolved'
+  | 'cancelled';
+
+export interface StatusChange {
+  from: ReportStatus | null; // null for the creation entry
+  to: ReportStatus;
+  by: string;
+  at: number;
+  reason?: string;
+}
+
+export interface TranscriptEntry {
+  speaker: 'caller' | 'dispatcher';
+  text: string;
+  timestamp: number; // When the utterance started
+}
+
+export type Priority = 'critical' | 'high' | 'medium' | 'low';
+
+export interface TriageResult {
+  score: number;
+  priority: Priority;
+  factors: string[]; // Human readable contributions to the score
+  scoredAt: number;
+}
+
+export type LocationSource = 'geocoder' | 'model_estimate' | 'device_gps' | 'default' | 'manual';
+
+// Where a report's coordinates came from and how far to trust them
+export interface LocationInfo {
+  source: LocationSource;
+  confidence: number; // 0 (guess) to 1 (verified)
+  flagged: boolean; // Needs a dispatcher to check the pin
+  label?: string; // Place name as resolved or as spoken
+  provider?: string; // Geocoder that produced the match
+  correctedBy?: string;
+  correctedAt?: number;
+}
+
+export type EditableField = 'emergencyType' | 'description' | 'peopleCount' | 'criticalNeeds' | 'location';
+
+// One operator correction to a captured field, kept alongside the status history
+export interface FieldEdit {
+  field: EditableField;
+  from?: string | number | GeoLocation;
+  to?: string | number | GeoLocation;
+  by: string;
+  at: number;
+}
+
+// Who last changed a report field and when, for last-writer-wins merging
+export interface FieldStamp {
+  at: number;
+  by: string; // Sync client ID; breaks ties between identical timestamps
+}
+
+export interface SyncMeta {
+  version: number; // Server sequence number of the last accepted change, 0 if never synced
+  stamps: Record<string, FieldStamp>;
+}
+
 export interface EmergencyReport {
   id: string;
   timestamp: number;
   location: GeoLocation;
+  locationInfo?: LocationInfo;
   reporterName?: string;
   emergencyType: string;
-  description: string;
+  description: string; // Always in English, the canonical language
+  language?: string; // ISO 639 code of the language the caller spoke
+  originalDescription?: string; // Description in the caller's language, when not English
   peopleCount?: number;
   criticalNeeds?: string;
-  status: 'pending' | 'dispatched' | 'resolved';
+  details?: Record<string, string>; // Answers to the call protocol's questions, by question label
+  protocolVersion?: number; // Call protocol the dispatcher followed
+  missingDetails?: string[]; // Protocol details the caller could not give before filing
+  status: ReportStatus;
+  history?: StatusChange[];
+  edits?: FieldEdit[];
+  transcript?: TranscriptEntry[]; // Call transcript up to the moment the report was filed
+  recordingId?: string; // Audio of the call, if the caller agreed to recording
+  attachmentIds?: string[]; // Photos and documents stored on this device
+  triage?: TriageResult;
+  incidentId?: string; // Set once a dispatcher confirms which incident this call belongs to
+  assignedUnitId?: string;
+  hazardZoneIds?: string[]; // Active hazard zones the report location falls inside
+  sync?: SyncMeta;
+}
+
+export type UnitKind = 'ambulance' | 'fire' | 'boat' | 'supply';
+
+export type UnitAvailability = 'available' | 'busy' | 'offline';
+
+export interface ResponderUnit {
+  id: string;
+  name: string;
+  kind: UnitKind;
+  capabilities: string[];
+  location: GeoLocation;
+  availability: UnitAvailability;
+  assignedReportId?: string;
+}
+
+export type HazardKind = 'flood' | 'fire' | 'evacuation' | 'other';
+
+// Area dispatchers know to be dangerous, drawn on the map or imported from GeoJSON
+export interface HazardZone {
+  id: string;
+  name: string;
+  kind: HazardKind;
+  polygons: GeoLocation[][][]; // Each polygon is an outer ring followed by any holes
+  active: boolean;
+  createdAt: number;
+}
+
+// Several calls about the same event, grouped by place, time and type
+export interface Incident {
+  id: string;
+  emergencyType: string;
+  location: GeoLocation; // Centroid of member reports
+  reportIds: string[];
+  proposedReportIds: string[]; // Members suggested by clustering, not yet confirmed
+  confirmed: boolean;
+  firstReportedAt: number;
+  lastReportedAt: number;
+  totalPeople: number; // Sum across calls; callers may overlap
+  maxPeople: number; // Largest single-call estimate
+  criticalNeeds: string[];
+  priority?: Priority;
+  activeCount: number;
 }
 
 export interface AudioVisualizerState {
@@ -1,6 +1,21 @@
 import path from 'path';
-import { defineConfig, loadEnv } from 'vite';
+import { defineConfig, loadEnv, Plugin } from 'vite';
 import react from '@vitejs/plugin-react';
+import { syncServerPlugin } from './server/syncServer';
+
+// Lists every file the build wrote, so the service worker can precache the hashed bundles
+const assetManifest = (): Plugin => ({
+  name: 'disaster-connect-asset-manifest',
+  apply: 'build',
+  enforce: 'post',
+  generateBundle(_options, bundle) {
+    this.emitFile({
+      type: 'asset',
+      fileName: 'asset-manifest.json',
+      source: JSON.stringify(Object.keys(bundle).map(fileName => `/${fileName}`))
+    });
+  }
+});
 
 export default defineConfig(({ mode }) => {
     const env = loadEnv(mode, '.', '');
@@ -9,10 +24,22 @@ export default defineConfig(({ mode }) => {
         port: 3000,
         host: '0.0.0.0',
       },
-      plugins: [react()],
+      plugins: [
+        react(),
+        assetManifest(),
+        syncServerPlugin({
+          token: env.SYNC_TOKEN,
+          allowedOrigins: env.SYNC_ALLOWED_ORIGINS?.split(',').map(origin => origin.trim()).filter(Boolean),
+          webhookConfigPath: env.WEBHOOK_CONFIG || 'webhooks.json',
+          mockWebhookSecret: env.MOCK_WEBHOOK_SECRET
+        })
+      ],
       define: {
         'process.env.API_KEY': JSON.stringify(env.GEMINI_API_KEY),
-        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY)
+        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY),
+        'process.env.LIVE_BACKEND': JSON.stringify(env.LIVE_BACKEND),
+        'process.env.LIVE_SCRIPT_URL': JSON.stringify(env.LIVE_SCRIPT_URL),
+        'process.env.SYNC_SERVER_URL': JSON.stringify(env.SYNC_SERVER_URL)
       },
       resolve: {
         alias: {